@@ -14,6 +14,7 @@ import Analytics from "@/pages/Analytics";
 import ErrorLog from "@/pages/ErrorLog";
 import Settings from "@/pages/Settings";
 import NotFound from "@/pages/not-found";
+import { useChangeEvents } from "@/hooks/use-change-events";
 
 function Router() {
   return (
@@ -33,6 +34,9 @@ function Router() {
 }
 
 function App() {
+  // Cached data is updated from server-pushed change events
+  useChangeEvents();
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
@@ -1,256 +1,160 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Upload, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload, CheckCircle2, AlertCircle, AlertTriangle, Loader2, FileSearch, Pencil, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { ImportProfileEditor, type ImportProfile } from "@/components/ImportProfileEditor";
+import { IMPORT_FIELD_LABELS, type ImportField } from "@shared/importProfiles";
 
-interface ParsedShipment {
+interface ImportedShipment {
   trackingNumber: string;
   status: string;
-  scheduledDelivery?: string;
   shipperName?: string;
   shipperCompany?: string;
-  recipientName?: string;
-  recipientCompany?: string;
-  masterTrackingNumber?: string;
   packageCount: number;
-  packageType?: string;
-  packageWeight?: string;
-  totalWeight?: string;
-  direction?: string;
-  serviceType?: string;
   childTrackingNumbers?: string[];
-  isValid: boolean;
-  errors: string[];
+  rowNumbers: number[];
+}
+
+interface ImportReport {
+  fileName: string;
+  format: "csv" | "tsv" | "xlsx";
+  headers: string[];
+  unmappedHeaders: string[];
+  missingFields: ImportField[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  rows: Array<{ rowNumber: number; trackingNumber: string | null; masterTrackingNumber: string | null; errors: string[] }>;
+  shipments: ImportedShipment[];
+}
+
+interface ImportCommitResult {
+  jobId: string;
+  imported: number;
+  failed: number;
+  results: Array<{ trackingNumber: string; success: boolean; error?: string }>;
+}
+
+interface UploadResponse {
+  report: ImportReport;
+  commit: ImportCommitResult | null;
 }
 
 interface BulkImportProps {
-  onImport: (shipments: ParsedShipment[]) => Promise<void>;
+  onImported?: () => void;
+}
+
+// Remembered between visits so the import history shows who ran each import
+const IMPORTED_BY_KEY = "import_imported_by";
+
+async function uploadImportFile(file: File, profileId: string, commit: boolean, importedBy = ""): Promise<UploadResponse> {
+  const form = new FormData();
+  form.append("profileId", profileId);
+  form.append("commit", String(commit));
+  form.append("importedBy", importedBy);
+  form.append("file", file);
+
+  const res = await fetch("/api/imports/upload", { method: "POST", body: form, credentials: "include" });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || body?.error || res.statusText);
+  }
+  return res.json();
 }
 
-export function BulkImport({ onImport }: BulkImportProps) {
+export function BulkImport({ onImported }: BulkImportProps) {
+  const [file, setFile] = useState<File | null>(null);
   const [input, setInput] = useState("");
-  const [parsedShipments, setParsedShipments] = useState<ParsedShipment[]>([]);
+  const [profileId, setProfileId] = useState("");
+  const [editing, setEditing] = useState<"new" | "current" | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importedBy, setImportedBy] = useState(() => localStorage.getItem(IMPORTED_BY_KEY) ?? "");
   const { toast } = useToast();
 
-  const parseLine = (line: string): string[] => {
-    // Try tab-separated first (TSV format)
-    if (line.includes('\t')) {
-      return line.split('\t').map(part => part.trim());
-    }
-    
-    // Fall back to CSV parsing
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
+  const { data: profiles } = useQuery<ImportProfile[]>({
+    queryKey: ["/api/import-profiles"],
+    refetchInterval: false,
+  });
+  const profile = profiles?.find(p => p.id === profileId) ?? null;
 
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+  // Default to the first profile once they've loaded
+  useEffect(() => {
+    if (!profileId && profiles && profiles.length > 0) {
+      setProfileId(profiles[0].id);
     }
-    result.push(current.trim());
-    return result;
-  };
-
-  const parseInput = () => {
-    const lines = input.trim().split("\n");
-    const rawRows: any[] = [];
-
-    // First pass: parse all rows
-    lines.forEach((line, index) => {
-      if (!line.trim()) return;
-
-      // Skip header row - check for common header patterns (case-insensitive)
-      const upperLine = line.toUpperCase();
-      if (index === 0 && (
-        upperLine.includes("TRACKING NUMBER") ||
-        upperLine.includes("TRACKING_NUMBER") ||
-        upperLine.includes("MASTER TRACKING") ||
-        upperLine.includes("NO. OF PACKAGES") ||
-        upperLine.includes("SHIPPER NAME")
-      )) {
-        return;
-      }
-
-      const parts = parseLine(line);
-
-      // Format: Tracking Number, Status, Scheduled delivery date, Shipper name, Shipper company,
-      // Recipient contact name, Recipient company, Master tracking number, No. of packages,
-      // Package Type, Pkg Wt (Lbs), Total Wt (Lbs), Direction, Service type
-      const trackingNumber = parts[0]?.trim() || "";
+  }, [profiles, profileId]);
 
-      // Skip if tracking number is empty or looks like a header
-      if (!trackingNumber) return;
-      if (trackingNumber.toUpperCase().includes("TRACKING")) return;
-      if (trackingNumber.toUpperCase().includes("NUMBER")) return;
-      if (!/^\d+$/.test(trackingNumber)) return; // Must be numeric only
-
-      const status = parts[1]?.trim() || "Pending";
-      const scheduledDelivery = parts[2]?.trim() || undefined;
-      const shipperName = parts[3]?.trim() || undefined;
-      const shipperCompany = parts[4]?.trim() || undefined;
-      const recipientName = parts[5]?.trim() || undefined;
-      const recipientCompany = parts[6]?.trim() || undefined;
-      const masterTrackingNumber = parts[7]?.trim() || undefined;
-      const packageCountStr = parts[8]?.trim() || "1";
-      const packageType = parts[9]?.trim() || undefined;
-      const packageWeight = parts[10]?.trim() ? `${parts[10].trim()}LB` : undefined;
-      const totalWeight = parts[11]?.trim() ? `${parts[11].trim()}LB` : undefined;
-      const direction = parts[12]?.trim() || undefined;
-      const serviceType = parts[13]?.trim() || undefined;
-
-      const packageCount = parseInt(packageCountStr);
-
-      rawRows.push({
-        trackingNumber,
-        status,
-        scheduledDelivery,
-        shipperName,
-        shipperCompany,
-        recipientName,
-        recipientCompany,
-        masterTrackingNumber,
-        packageCount: isNaN(packageCount) ? 1 : packageCount,
-        packageType,
-        packageWeight,
-        totalWeight,
-        direction,
-        serviceType,
-      });
-    });
-
-    // Second pass: group by master tracking number
-    const groupedByMaster = new Map<string, any[]>();
-    const standaloneShipments: any[] = [];
-
-    rawRows.forEach(row => {
-      const master = row.masterTrackingNumber;
-      
-      if (master) {
-        // This row has a master tracking number - group it
-        if (!groupedByMaster.has(master)) {
-          groupedByMaster.set(master, []);
-        }
-        groupedByMaster.get(master)!.push(row);
-      } else {
-        // No master tracking number - standalone shipment
-        standaloneShipments.push(row);
-      }
-    });
-
-    // Third pass: create final shipment records
-    const parsed: ParsedShipment[] = [];
-
-    // Process grouped shipments
-    groupedByMaster.forEach((rows, masterTrackingNumber) => {
-      const errors: string[] = [];
-      
-      // Use data from the first row or the master row
-      const masterRow = rows.find(r => r.trackingNumber === masterTrackingNumber) || rows[0];
-      
-      // Collect all child tracking numbers
-      const childTrackingNumbers = rows.map(r => r.trackingNumber);
-      
-      if (!masterTrackingNumber) errors.push("Missing master tracking number");
-
-      parsed.push({
-        trackingNumber: masterTrackingNumber,
-        status: masterRow.status,
-        scheduledDelivery: masterRow.scheduledDelivery,
-        shipperName: masterRow.shipperName,
-        shipperCompany: masterRow.shipperCompany,
-        recipientName: masterRow.recipientName,
-        recipientCompany: masterRow.recipientCompany,
-        masterTrackingNumber: masterTrackingNumber,
-        packageCount: masterRow.packageCount,
-        packageType: masterRow.packageType,
-        packageWeight: masterRow.packageWeight,
-        totalWeight: masterRow.totalWeight,
-        direction: masterRow.direction,
-        serviceType: masterRow.serviceType,
-        childTrackingNumbers,
-        isValid: errors.length === 0,
-        errors,
-      });
-    });
-
-    // Process standalone shipments
-    standaloneShipments.forEach(row => {
-      const errors: string[] = [];
-      
-      if (!row.trackingNumber) errors.push("Missing tracking number");
-
-      const packageCount = row.packageCount;
-      if (isNaN(packageCount) || packageCount <= 0) {
-        errors.push("Invalid package count");
-      }
-
-      parsed.push({
-        trackingNumber: row.trackingNumber,
-        status: row.status,
-        scheduledDelivery: row.scheduledDelivery,
-        shipperName: row.shipperName,
-        shipperCompany: row.shipperCompany,
-        recipientName: row.recipientName,
-        recipientCompany: row.recipientCompany,
-        masterTrackingNumber: row.masterTrackingNumber,
-        packageCount: row.packageCount,
-        packageType: row.packageType,
-        packageWeight: row.packageWeight,
-        totalWeight: row.totalWeight,
-        direction: row.direction,
-        serviceType: row.serviceType,
-        isValid: errors.length === 0,
-        errors,
-      });
-    });
-
-    setParsedShipments(parsed);
+  // Pasted data goes through the same upload as a file; the server sniffs tabs vs commas
+  const uploadSource = (): File | null => {
+    if (file) return file;
+    if (input.trim()) return new File([input], "pasted.txt", { type: "text/plain" });
+    return null;
   };
 
-  const handleImport = async () => {
-    const validShipments = parsedShipments.filter(s => s.isValid);
+  const handleCheck = async () => {
+    const source = uploadSource();
+    if (!source || !profileId) return;
 
-    if (validShipments.length === 0) {
+    setIsChecking(true);
+    try {
+      const { report } = await uploadImportFile(source, profileId, false);
+      setReport(report);
+    } catch (error: any) {
+      setReport(null);
       toast({
-        title: "No valid shipments",
-        description: "Please fix the errors before importing",
+        title: "Could not read file",
+        description: error.message,
         variant: "destructive",
       });
-      return;
+    } finally {
+      setIsChecking(false);
     }
+  };
 
-    // Debug: Log what we're sending
-    console.log('📤 Sending to API:', validShipments.map(s => ({
-      trackingNumber: s.trackingNumber,
-      childTrackingNumbers: s.childTrackingNumbers,
-      childCount: s.childTrackingNumbers?.length || 0
-    })));
+  const handleImport = async () => {
+    const source = uploadSource();
+    if (!source || !profileId || !report) return;
 
     setIsImporting(true);
     try {
-      await onImport(validShipments);
+      localStorage.setItem(IMPORTED_BY_KEY, importedBy.trim());
+      const { commit } = await uploadImportFile(source, profileId, true, importedBy.trim());
       toast({
-        title: "Import successful",
-        description: `${validShipments.length} shipment(s) imported`,
+        title: commit && commit.failed > 0 ? "Import finished with errors" : "Import successful",
+        description: `${commit?.imported ?? 0} shipment(s) imported${commit && commit.failed > 0 ? `, ${commit.failed} failed` : ""}`,
+        variant: commit && commit.failed > 0 ? "destructive" : undefined,
       });
+      setFile(null);
       setInput("");
-      setParsedShipments([]);
-    } catch (error) {
+      setReport(null);
+      onImported?.();
+    } catch (error: any) {
       toast({
         title: "Import failed",
-        description: "An error occurred while importing shipments",
+        description: error.message || "An error occurred while importing shipments",
         variant: "destructive",
       });
     } finally {
@@ -258,60 +162,127 @@ export function BulkImport({ onImport }: BulkImportProps) {
     }
   };
 
-  const validCount = parsedShipments.filter(s => s.isValid).length;
-  const invalidCount = parsedShipments.length - validCount;
-  const totalBoxes = parsedShipments
-    .filter(s => s.isValid)
-    .reduce((sum, s) => sum + (s.childTrackingNumbers?.length || 1), 0);
+  const shipmentCount = report?.shipments.length ?? 0;
+  const totalBoxes = report?.shipments.reduce((sum, s) => sum + (s.childTrackingNumbers?.length || 1), 0) ?? 0;
 
   return (
     <div className="space-y-4">
       <Card className="p-4">
-        <div className="space-y-3">
+        <div className="space-y-4">
           <div>
-            <h3 className="text-sm font-semibold mb-2">Paste Tab-Separated Data from FedEx</h3>
-            <p className="text-xs text-muted-foreground mb-3">
-              Copy and paste the entire export from FedEx (including headers). The system supports both tab-separated (TSV) and comma-separated (CSV) formats.
-              <br />
-              <strong className="block mt-1">Important:</strong> If rows have the same "Master tracking number", they will be automatically grouped with child tracking numbers.
-              <br />
-              <code className="text-xs bg-muted px-1 py-0.5 rounded mt-1 inline-block">
-                Expected columns: Tracking Number, Status, Scheduled delivery date, Shipper name, Shipper company, Recipient contact name, Recipient company, Master tracking number, No. of packages, Package Type, Pkg Wt (Lbs), Total Wt (Lbs), Direction, Service type
-              </code>
+            <h3 className="text-sm font-semibold mb-2">Import a FedEx Export or Spreadsheet</h3>
+            <p className="text-xs text-muted-foreground">
+              Upload a CSV, TSV or Excel (.xlsx) file, or paste the export including its header row.
+              Columns are matched by header using the import profile, so their order doesn't matter.
+              <strong className="block mt-1">
+                Rows with the same master tracking number are grouped into one shipment with child tracking numbers.
+              </strong>
             </p>
           </div>
 
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Import profile</Label>
+              <Select value={profileId} onValueChange={value => { setProfileId(value); setReport(null); }}>
+                <SelectTrigger className="w-56" data-testid="select-import-profile">
+                  <SelectValue placeholder="Choose a profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles?.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setEditing("current")}
+              disabled={!profile}
+              data-testid="button-edit-import-profile"
+            >
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setEditing("new")}
+              data-testid="button-new-import-profile"
+            >
+              <Plus className="h-4 w-4" />
+              New Profile
+            </Button>
+            <div className="space-y-1 ml-auto">
+              <Label htmlFor="import_imported_by" className="text-xs">Your name</Label>
+              <Input
+                id="import_imported_by"
+                className="w-44"
+                value={importedBy}
+                placeholder="Shown in import history"
+                onChange={e => setImportedBy(e.target.value)}
+                data-testid="input-imported-by"
+              />
+            </div>
+          </div>
+
+          {editing && (
+            <ImportProfileEditor
+              key={editing === "new" ? "new" : profileId}
+              profile={editing === "new" ? null : profile}
+              onSaved={saved => { setProfileId(saved.id); setEditing(null); setReport(null); }}
+              onDeleted={() => { setProfileId(""); setEditing(null); setReport(null); }}
+              onClose={() => setEditing(null)}
+            />
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="import-file" className="text-xs">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              onChange={e => { setFile(e.target.files?.[0] ?? null); setReport(null); }}
+              data-testid="input-import-file"
+            />
+          </div>
+
           <Textarea
-            placeholder="Paste your tab-separated or CSV data here (with headers)&#10;Tracking Number   Status  Scheduled delivery date ...&#10;456516701366    Out for delivery        10/28/25        ..."
+            placeholder="...or paste your tab-separated or CSV data here (with headers)&#10;Tracking Number   Status  Scheduled delivery date ...&#10;456516701366    Out for delivery        10/28/25        ..."
             value={input}
-            onChange={(e) => setInput(e.target.value)}
-            className="font-mono text-sm min-h-[200px]"
+            onChange={(e) => { setInput(e.target.value); setReport(null); }}
+            disabled={!!file}
+            className="font-mono text-sm min-h-[160px]"
             data-testid="textarea-bulk-import"
           />
 
           <div className="flex items-center gap-2">
             <Button
-              onClick={parseInput}
-              disabled={!input.trim()}
+              onClick={handleCheck}
+              disabled={(!file && !input.trim()) || !profileId || isChecking}
               variant="outline"
               size="sm"
+              className="gap-2"
               data-testid="button-parse"
             >
-              Parse Data
+              {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSearch className="h-4 w-4" />}
+              Check Data
             </Button>
-            {parsedShipments.length > 0 && (
+            {report && (
               <div className="flex items-center gap-2 text-sm">
                 <Badge variant="secondary" className="gap-1">
                   <CheckCircle2 className="h-3 w-3" />
-                  {validCount} shipment{validCount !== 1 ? "s" : ""}
+                  {shipmentCount} shipment{shipmentCount !== 1 ? "s" : ""}
                 </Badge>
                 <Badge variant="secondary" className="gap-1">
                   📦 {totalBoxes} box{totalBoxes !== 1 ? "es" : ""}
                 </Badge>
-                {invalidCount > 0 && (
+                {report.invalidRows > 0 && (
                   <Badge variant="destructive" className="gap-1">
                     <AlertCircle className="h-3 w-3" />
-                    {invalidCount} errors
+                    {report.invalidRows} row errors
                   </Badge>
                 )}
               </div>
@@ -320,14 +291,16 @@ export function BulkImport({ onImport }: BulkImportProps) {
         </div>
       </Card>
 
-      {parsedShipments.length > 0 && (
+      {report && (
         <Card className="p-4">
           <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <h3 className="text-sm font-semibold">Preview ({parsedShipments.length} rows)</h3>
+              <h3 className="text-sm font-semibold">
+                {report.fileName} · {report.format.toUpperCase()} · {report.totalRows} rows
+              </h3>
               <Button
                 onClick={handleImport}
-                disabled={validCount === 0 || isImporting}
+                disabled={shipmentCount === 0 || isImporting}
                 size="sm"
                 data-testid="button-import"
                 className="gap-2"
@@ -340,21 +313,56 @@ export function BulkImport({ onImport }: BulkImportProps) {
                 ) : (
                   <>
                     <Upload className="h-4 w-4" />
-                    Import {validCount} Shipment{validCount !== 1 ? "s" : ""}
+                    Import {shipmentCount} Shipment{shipmentCount !== 1 ? "s" : ""}
                   </>
                 )}
               </Button>
             </div>
 
+            {(report.missingFields.length > 0 || report.unmappedHeaders.length > 0) && (
+              <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                <AlertTriangle className="h-4 w-4 shrink-0 text-yellow-600" />
+                <div className="space-y-1">
+                  {report.missingFields.length > 0 && (
+                    <p>
+                      Not in this file: {report.missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(", ")}
+                    </p>
+                  )}
+                  {report.unmappedHeaders.length > 0 && (
+                    <p>Ignored columns: {report.unmappedHeaders.join(", ")}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {report.rows.length > 0 && (
+              <div className="border rounded-md max-h-[240px] overflow-y-auto" data-testid="import-row-errors">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Row</TableHead>
+                      <TableHead className="text-xs">Tracking Number</TableHead>
+                      <TableHead className="text-xs">Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell className="text-xs font-mono">{row.trackingNumber || "(empty)"}</TableCell>
+                        <TableCell className="text-xs text-red-600">{row.errors.join("; ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
             <div className="space-y-2 max-h-[400px] overflow-y-auto">
-              {parsedShipments.map((shipment, index) => (
+              {report.shipments.map((shipment, index) => (
                 <div
-                  key={index}
-                  className={`p-3 rounded-lg border text-sm ${
-                    shipment.isValid
-                      ? "border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/20"
-                      : "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/20"
-                  }`}
+                  key={shipment.trackingNumber}
+                  className="p-3 rounded-lg border text-sm border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/20"
                   data-testid={`preview-row-${index}`}
                 >
                   <div className="flex items-start justify-between gap-2">
@@ -362,9 +370,7 @@ export function BulkImport({ onImport }: BulkImportProps) {
                       <div className="grid grid-cols-2 gap-x-4 gap-y-1">
                         <div>
                           <span className="text-xs text-muted-foreground">Master Tracking:</span>
-                          <code className="block font-mono text-sm font-medium">
-                            {shipment.trackingNumber || "(empty)"}
-                          </code>
+                          <code className="block font-mono text-sm font-medium">{shipment.trackingNumber}</code>
                         </div>
                         <div>
                           <span className="text-xs text-muted-foreground">Status:</span>
@@ -381,7 +387,7 @@ export function BulkImport({ onImport }: BulkImportProps) {
                           </p>
                         </div>
                       </div>
-                      
+
                       {shipment.childTrackingNumbers && shipment.childTrackingNumbers.length > 0 && (
                         <div className="pt-2 border-t border-muted">
                           <span className="text-xs text-muted-foreground">Child Tracking Numbers ({shipment.childTrackingNumbers.length}):</span>
@@ -395,19 +401,11 @@ export function BulkImport({ onImport }: BulkImportProps) {
                         </div>
                       )}
                     </div>
-                    <div className="shrink-0">
-                      {shipment.isValid ? (
-                        <CheckCircle2 className="h-5 w-5 text-green-600" />
-                      ) : (
-                        <div className="flex flex-col items-end gap-1">
-                          <AlertCircle className="h-5 w-5 text-red-600" />
-                          <div className="text-xs text-red-600 text-right">
-                            {shipment.errors.map((error, i) => (
-                              <div key={i}>{error}</div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
+                    <div className="shrink-0 text-right">
+                      <CheckCircle2 className="h-5 w-5 text-green-600 inline" />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        row{shipment.rowNumbers.length !== 1 ? "s" : ""} {shipment.rowNumbers.join(", ")}
+                      </p>
                     </div>
                   </div>
                 </div>
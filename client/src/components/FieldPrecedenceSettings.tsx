@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight, Plus, RotateCcw, Save, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ENRICHED_FIELDS,
+  ENRICHED_FIELD_LABELS,
+  ENRICHMENT_SOURCES,
+  ENRICHMENT_SOURCE_LABELS,
+  type EnrichedField,
+  type EnrichmentSource,
+  type FieldPrecedence,
+} from "@shared/enrichment";
+
+interface FieldPrecedenceResponse {
+  precedence: FieldPrecedence;
+  defaults: FieldPrecedence;
+  customized: EnrichedField[];
+}
+
+function FieldPrecedenceRow({ field, sources, customized }: {
+  field: EnrichedField;
+  sources: EnrichmentSource[];
+  customized: boolean;
+}) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(sources);
+  const isDirty = draft.join(",") !== sources.join(",");
+  const unused = ENRICHMENT_SOURCES.filter(source => !draft.includes(source));
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ["/api/field-precedence"] });
+  const onError = (error: Error) => {
+    toast({ title: "Save failed", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/field-precedence/${field}`, { sources: draft });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/field-precedence/${field}`);
+      return (await response.json()) as { sources: EnrichmentSource[] };
+    },
+    onSuccess: ({ sources }) => {
+      setDraft(sources);
+      onSuccess();
+    },
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    const next = [...draft];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setDraft(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 py-2 border-b last:border-0" data-testid={`field-precedence-${field}`}>
+      <span className="w-44 shrink-0 text-sm">
+        {ENRICHED_FIELD_LABELS[field]}
+        {customized && <span className="text-xs text-muted-foreground"> (custom)</span>}
+      </span>
+      <div className="flex flex-1 flex-wrap items-center gap-1">
+        {draft.map((source, index) => (
+          <Badge key={source} variant="secondary" className="gap-1 pr-1">
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="disabled:opacity-30">
+              <ChevronLeft className="h-3 w-3" />
+            </button>
+            {ENRICHMENT_SOURCE_LABELS[source]}
+            <button onClick={() => move(index, 1)} disabled={index === draft.length - 1} className="disabled:opacity-30">
+              <ChevronRight className="h-3 w-3" />
+            </button>
+            <button onClick={() => setDraft(draft.filter(s => s !== source))} disabled={draft.length === 1} className="disabled:opacity-30">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        {unused.map(source => (
+          <Button
+            key={source}
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+            onClick={() => setDraft([...draft, source])}
+          >
+            <Plus className="h-3 w-3" />
+            {ENRICHMENT_SOURCE_LABELS[source]}
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {isDirty && (
+          <Button
+            size="sm"
+            className="h-7 gap-1"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid={`button-save-precedence-${field}`}
+          >
+            <Save className="h-3 w-3" />
+            Save
+          </Button>
+        )}
+        {customized && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending}
+            data-testid={`button-reset-precedence-${field}`}
+          >
+            <RotateCcw className="h-3 w-3" />
+            Default
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function FieldPrecedenceSettings() {
+  const { data, isLoading } = useQuery<FieldPrecedenceResponse>({
+    queryKey: ["/api/field-precedence"],
+    refetchInterval: false,
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-muted-foreground">Loading field precedence...</p>;
+  }
+
+  return (
+    <div>
+      {ENRICHED_FIELDS.map(field => (
+        <FieldPrecedenceRow
+          key={`${field}:${data.precedence[field].join(",")}`}
+          field={field}
+          sources={data.precedence[field]}
+          customized={data.customized.includes(field)}
+        />
+      ))}
+    </div>
+  );
+}
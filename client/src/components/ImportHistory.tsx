@@ -0,0 +1,301 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, CheckCircle2, Download, FolderInput, Loader2, Mail, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ImportJob {
+  id: string;
+  source: "upload" | "bulk" | "bulk_import" | "edi" | "hot_folder" | "email";
+  fileName: string | null;
+  importedBy: string | null;
+  status: "running" | "completed" | "failed";
+  totalRows: number;
+  imported: number;
+  failed: number;
+  rejected: number;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+interface ImportJobRow {
+  id: string;
+  rowNumber: number;
+  trackingNumber: string | null;
+  outcome: "imported" | "failed" | "rejected";
+  error: string | null;
+}
+
+const SOURCE_LABELS: Record<ImportJob["source"], string> = {
+  upload: "File upload",
+  bulk: "API bulk",
+  bulk_import: "API bulk import",
+  edi: "EDI 856 ASN",
+  hot_folder: "Hot folder",
+  email: "FedEx email",
+};
+
+interface WatchedJobStatus {
+  job: string;
+  enabled: boolean;
+  intervalMinutes: number;
+  running: boolean;
+  nextRunAt: string | null;
+}
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleString();
+};
+
+function ImportJobStatusBadge({ job }: { job: ImportJob }) {
+  if (job.status === "running") {
+    return (
+      <Badge variant="secondary">
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Running
+      </Badge>
+    );
+  }
+  if (job.status === "failed" || job.failed > 0 || job.rejected > 0) {
+    return (
+      <Badge variant="destructive">
+        <AlertCircle className="h-3 w-3 mr-1" />
+        {job.status === "failed" ? "Failed" : `${job.failed + job.rejected} not imported`}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="default" className="bg-green-500">
+      <CheckCircle2 className="h-3 w-3 mr-1" />
+      Success
+    </Badge>
+  );
+}
+
+// Rows that weren't imported, loaded when the job's accordion item is opened
+function ImportJobRows({ job }: { job: ImportJob }) {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<{ job: ImportJob; rows: ImportJobRow[] }>({
+    queryKey: ["/api/import-jobs", job.id],
+  });
+
+  const rerunMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/import-jobs/${job.id}/rerun`);
+      return (await response.json()) as { imported: number; failed: number };
+    },
+    onSuccess: ({ imported, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+      toast({
+        title: failed > 0 ? "Re-run finished with errors" : "Failed rows imported",
+        description: `${imported} shipment(s) imported${failed > 0 ? `, ${failed} still failing` : ""}`,
+        variant: failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Re-run failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4 text-sm text-muted-foreground">Loading rows...</div>;
+  }
+
+  const problemRows = data?.rows.filter(row => row.outcome !== "imported") || [];
+  return (
+    <div className="space-y-3">
+      {job.errorMessage && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm">
+          {job.errorMessage}
+        </div>
+      )}
+      {problemRows.length === 0 ? (
+        <div className="text-center py-4 text-sm text-muted-foreground">Every row was imported</div>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              onClick={() => rerunMutation.mutate()}
+              disabled={job.failed === 0 || job.status === "running" || rerunMutation.isPending}
+              data-testid={`button-rerun-import-${job.id}`}
+            >
+              <RotateCcw className="h-4 w-4" />
+              {rerunMutation.isPending ? "Re-running..." : "Re-run failed rows"}
+            </Button>
+            <Button size="sm" variant="outline" className="gap-2" asChild>
+              <a href={`/api/import-jobs/${job.id}/rejected.csv`} download data-testid={`link-rejected-csv-${job.id}`}>
+                <Download className="h-4 w-4" />
+                Download rejected rows (CSV)
+              </a>
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead>Tracking Number</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead>Error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {problemRows.map(row => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-mono text-xs">{row.rowNumber}</TableCell>
+                  <TableCell className="font-mono text-xs">{row.trackingNumber || "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={row.outcome === "failed" ? "destructive" : "outline"}>{row.outcome}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{row.error}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+}
+
+// When the server next reads a watched source (hot folder, email inbox), with a button to read it now
+function WatchedSourceStatus<T>({ job, label, runUrl, describe }: {
+  job: "hot_folder" | "email_ingest";
+  label: string;
+  runUrl: string;
+  describe: (result: T) => { title: string; description: string; failed: boolean };
+}) {
+  const { toast } = useToast();
+  const { data: schedulerStatus } = useQuery<{ jobs: WatchedJobStatus[] }>({
+    queryKey: ["/api/scheduler/status"],
+  });
+  const status = schedulerStatus?.jobs.find(entry => entry.job === job);
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", runUrl);
+      return (await response.json()) as T;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/status"] });
+      const { title, description, failed } = describe(result);
+      toast({ title, description, variant: failed ? "destructive" : undefined });
+    },
+    onError: (error: Error) => {
+      toast({ title: `${label} check failed`, description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!status?.enabled) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground" data-testid={`text-${job}-status`}>
+      {job === "email_ingest" ? <Mail className="h-4 w-4" /> : <FolderInput className="h-4 w-4" />}
+      <span>
+        {label} checked every {status.intervalMinutes}m
+        {status.nextRunAt && !status.running && `, next at ${new Date(status.nextRunAt).toLocaleTimeString()}`}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 gap-1"
+        onClick={() => runMutation.mutate()}
+        disabled={status.running || runMutation.isPending}
+        data-testid={`button-run-${job}`}
+      >
+        {(status.running || runMutation.isPending) && <Loader2 className="h-3 w-3 animate-spin" />}
+        Check now
+      </Button>
+    </div>
+  );
+}
+
+export function ImportHistory() {
+  const { data: jobs, isLoading } = useQuery<ImportJob[]>({
+    queryKey: ["/api/import-jobs"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import History</CardTitle>
+        <CardDescription>
+          Recent imports and what happened to each row. Expand an import to re-run failed rows or download the rejected ones
+        </CardDescription>
+        <WatchedSourceStatus<{ processed: number; failed: number; skipped: number }>
+          job="hot_folder"
+          label="Hot folder"
+          runUrl="/api/imports/hot-folder/run"
+          describe={({ processed, failed, skipped }) => ({
+            title: processed + failed === 0 ? "No new files" : "Hot folder checked",
+            description: `${processed} imported, ${failed} failed${skipped > 0 ? `, ${skipped} still being copied` : ""}`,
+            failed: failed > 0,
+          })}
+        />
+        <WatchedSourceStatus<{ read: number; imported: number; ignored: number; failed: number }>
+          job="email_ingest"
+          label="Email inbox"
+          runUrl="/api/imports/email/run"
+          describe={({ read, imported, ignored, failed }) => ({
+            title: read === 0 ? "No new emails" : "Email inbox checked",
+            description: `${imported} shipment(s) from ${read} email(s), ${ignored} ignored${failed > 0 ? `, ${failed} failed` : ""}`,
+            failed: failed > 0,
+          })}
+        />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading imports...</div>
+        ) : !jobs || jobs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No imports yet</div>
+        ) : (
+          <ScrollArea className="h-[400px]">
+            <Accordion type="multiple">
+              {jobs.map(job => (
+                <AccordionItem key={job.id} value={job.id} data-testid={`import-job-${job.id}`}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex flex-1 flex-wrap items-center gap-3 pr-4 text-left">
+                      <span className="text-sm font-medium">{formatDate(job.createdAt)}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[job.source] ?? job.source}</Badge>
+                      {job.fileName && <span className="text-xs font-mono">{job.fileName}</span>}
+                      {job.importedBy && <span className="text-xs text-muted-foreground">by {job.importedBy}</span>}
+                      <ImportJobStatusBadge job={job} />
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {job.totalRows} rows · {job.imported} imported · {job.failed} failed · {job.rejected} rejected
+                      </span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <ImportJobRows job={job} />
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Save, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  type ImportColumns,
+  type ImportField,
+} from "@shared/importProfiles";
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  weightUnit: string | null;
+  columns: ImportColumns;
+}
+
+interface ImportProfileEditorProps {
+  profile: ImportProfile | null; // null = new profile
+  onSaved: (profile: ImportProfile) => void;
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+// Headers are edited as one comma-separated list per field
+type ColumnDraft = Record<ImportField, string>;
+
+function toColumnDraft(columns: ImportColumns): ColumnDraft {
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(field => [field, (columns[field] || []).join(", ")])
+  ) as ColumnDraft;
+}
+
+function fromColumnDraft(draft: ColumnDraft): ImportColumns {
+  const columns: ImportColumns = {};
+  for (const field of IMPORT_FIELDS) {
+    const headers = draft[field].split(",").map(header => header.trim()).filter(Boolean);
+    if (headers.length > 0) columns[field] = headers;
+  }
+  return columns;
+}
+
+export function ImportProfileEditor({ profile, onSaved, onDeleted, onClose }: ImportProfileEditorProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(profile?.name ?? "");
+  const [weightUnit, setWeightUnit] = useState(profile?.weightUnit ?? "");
+  const [columns, setColumns] = useState<ColumnDraft>(() => toColumnDraft(profile?.columns ?? {}));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name, weightUnit: weightUnit || null, columns: fromColumnDraft(columns) };
+      const response = profile
+        ? await apiRequest("PUT", `/api/import-profiles/${profile.id}`, body)
+        : await apiRequest("POST", "/api/import-profiles", body);
+      return (await response.json()) as ImportProfile;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+      toast({ title: "Import profile saved", description: saved.name });
+      onSaved(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/import-profiles/${profile!.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+      onDeleted();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4 border rounded-md p-4" data-testid="import-profile-editor">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="import-profile-name" className="text-xs">Profile name</Label>
+          <Input
+            id="import-profile-name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            data-testid="input-import-profile-name"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-profile-weight-unit" className="text-xs">Weight unit (added to plain numbers)</Label>
+          <Input
+            id="import-profile-weight-unit"
+            value={weightUnit}
+            placeholder="LB"
+            onChange={e => setWeightUnit(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Column headers for each field, comma-separated in priority order. Matching ignores case.
+        </p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {IMPORT_FIELDS.map(field => (
+            <div key={field} className="flex items-center gap-2">
+              <Label htmlFor={`import-column-${field}`} className="text-xs w-40 shrink-0">
+                {IMPORT_FIELD_LABELS[field]}
+              </Label>
+              <Input
+                id={`import-column-${field}`}
+                className="h-8 text-xs"
+                value={columns[field]}
+                onChange={e => setColumns(current => ({ ...current, [field]: e.target.value }))}
+                data-testid={`input-import-column-${field}`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="gap-2"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !name.trim()}
+          data-testid="button-save-import-profile"
+        >
+          <Save className="h-4 w-4" />
+          {saveMutation.isPending ? "Saving..." : "Save Profile"}
+        </Button>
+        {profile && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            data-testid="button-delete-import-profile"
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" className="gap-2" onClick={onClose}>
+          <X className="h-4 w-4" />
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Eye, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  SHEET_FIELDS,
+  SHEET_FIELD_LABELS,
+  SHEET_SOURCE_ROLE_LABELS,
+  type SheetField,
+  type SheetSourceRole,
+} from "@shared/sheetMappings";
+
+type SheetColumns = Partial<Record<SheetField, string[]>>;
+
+interface SheetSource {
+  id: string;
+  name: string;
+  role: SheetSourceRole;
+  spreadsheetId: string | null;
+  sheetName: string;
+  enabled: number;
+  columns: SheetColumns;
+}
+
+interface SheetSourcePreview {
+  headers: string[];
+  rows: Array<{ sheetRow: number; values: Partial<Record<SheetField, string>> }>;
+  missingHeaders: Array<{ field: SheetField; header: string }>;
+}
+
+// Headers are edited as one comma-separated list per field
+type ColumnDraft = Record<SheetField, string>;
+
+function toColumnDraft(columns: SheetColumns): ColumnDraft {
+  return Object.fromEntries(
+    SHEET_FIELDS.map(field => [field, (columns[field] || []).join(", ")])
+  ) as ColumnDraft;
+}
+
+function fromColumnDraft(draft: ColumnDraft): SheetColumns {
+  const columns: SheetColumns = {};
+  for (const field of SHEET_FIELDS) {
+    const headers = draft[field].split(",").map(header => header.trim()).filter(Boolean);
+    if (headers.length > 0) columns[field] = headers;
+  }
+  return columns;
+}
+
+function SheetSourceEditor({ source }: { source: SheetSource }) {
+  const { toast } = useToast();
+  const [name, setName] = useState(source.name);
+  const [spreadsheetId, setSpreadsheetId] = useState(source.spreadsheetId ?? "");
+  const [sheetName, setSheetName] = useState(source.sheetName);
+  const [enabled, setEnabled] = useState(source.enabled === 1);
+  const [columns, setColumns] = useState<ColumnDraft>(() => toColumnDraft(source.columns));
+  const [preview, setPreview] = useState<SheetSourcePreview | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/sheet-sources/${source.id}`, {
+        name,
+        spreadsheetId: spreadsheetId || null,
+        sheetName,
+        enabled,
+        columns: fromColumnDraft(columns),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sheet-sources"] });
+      toast({ title: "Sheet source saved", description: `${name} will be used on the next sync` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sheet-sources/preview", {
+        spreadsheetId: spreadsheetId || null,
+        sheetName,
+        columns: fromColumnDraft(columns),
+      });
+      return response.json() as Promise<SheetSourcePreview>;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mappedFields = SHEET_FIELDS.filter(field => columns[field].trim());
+
+  return (
+    <div className="space-y-4" data-testid={`sheet-source-${source.role}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold">{source.name}</h3>
+          <Badge variant="secondary">{SHEET_SOURCE_ROLE_LABELS[source.role]}</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`enabled-${source.id}`} className="text-xs text-muted-foreground">
+            Enabled
+          </Label>
+          <Switch
+            id={`enabled-${source.id}`}
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid={`switch-enabled-${source.role}`}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor={`name-${source.id}`} className="text-xs">Name</Label>
+          <Input id={`name-${source.id}`} value={name} onChange={e => setName(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`sheet-${source.id}`} className="text-xs">Sheet (tab) name</Label>
+          <Input
+            id={`sheet-${source.id}`}
+            value={sheetName}
+            onChange={e => setSheetName(e.target.value)}
+            data-testid={`input-sheet-name-${source.role}`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`spreadsheet-${source.id}`} className="text-xs">Spreadsheet ID</Label>
+          <Input
+            id={`spreadsheet-${source.id}`}
+            value={spreadsheetId}
+            placeholder="GOOGLE_SHEET_ID"
+            onChange={e => setSpreadsheetId(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Column headers for each field, comma-separated in priority order. Matching ignores case.
+        </p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {SHEET_FIELDS.map(field => (
+            <div key={field} className="flex items-center gap-2">
+              <Label htmlFor={`${source.id}-${field}`} className="text-xs w-40 shrink-0">
+                {SHEET_FIELD_LABELS[field]}
+              </Label>
+              <Input
+                id={`${source.id}-${field}`}
+                className="h-8 text-xs"
+                value={columns[field]}
+                onChange={e => setColumns(current => ({ ...current, [field]: e.target.value }))}
+                data-testid={`input-column-${source.role}-${field}`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => previewMutation.mutate()}
+          disabled={previewMutation.isPending || !sheetName.trim()}
+          data-testid={`button-preview-${source.role}`}
+        >
+          <Eye className="h-4 w-4" />
+          {previewMutation.isPending ? "Reading sheet..." : "Preview first 10 rows"}
+        </Button>
+        <Button
+          size="sm"
+          className="gap-2"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid={`button-save-${source.role}`}
+        >
+          <Save className="h-4 w-4" />
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="space-y-2">
+          {preview.missingHeaders.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              <span>
+                Not found in the sheet:{" "}
+                {preview.missingHeaders
+                  .map(missing => `"${missing.header}" (${SHEET_FIELD_LABELS[missing.field]})`)
+                  .join(", ")}
+              </span>
+            </div>
+          )}
+          {preview.rows.length === 0 ? (
+            <p className="text-xs text-muted-foreground">The sheet has no data rows.</p>
+          ) : (
+            <div className="border rounded-md overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Row</TableHead>
+                    {mappedFields.map(field => (
+                      <TableHead key={field} className="text-xs whitespace-nowrap">
+                        {SHEET_FIELD_LABELS[field]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.sheetRow}>
+                      <TableCell className="text-xs text-muted-foreground">{row.sheetRow}</TableCell>
+                      {mappedFields.map(field => (
+                        <TableCell key={field} className="text-xs whitespace-nowrap">
+                          {row.values[field] ?? <span className="text-muted-foreground">—</span>}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SheetSourceSettings() {
+  const { data: sources, isLoading } = useQuery<SheetSource[]>({
+    queryKey: ["/api/sheet-sources"],
+    // Background refetches would be wasted on a form being edited
+    refetchInterval: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading sheet sources...</p>;
+  }
+
+  if (!sources || sources.length === 0) {
+    return <p className="text-sm text-muted-foreground">No sheet sources configured.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {sources.map((source, index) => (
+        <div key={source.id} className="space-y-6">
+          {index > 0 && <Separator />}
+          <SheetSourceEditor source={source} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -4,13 +4,42 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { StatusBadge } from "./StatusBadge";
+import { ShipmentFieldSources } from "./ShipmentFieldSources";
 import { X, Copy, RefreshCw, MapPin, Package, Weight, Truck, ChevronDown, ChevronRight, Edit, Save, ExternalLink } from "lucide-react";
 import type { Shipment } from "./ShipmentTable";
 import { Badge } from "@/components/ui/badge";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatDateTimePST } from "@/lib/utils";
+import { CARRIER_LABELS, getCarrierTrackingUrl, isCarrier } from "@shared/carriers";
+
+interface ShipmentEvent {
+  id: string;
+  eventTime: string | null;
+  eventType: string | null;
+  description: string | null;
+  location: string | null;
+}
+
+interface ShipmentPackage {
+  id: string;
+  trackingNumber: string;
+  status: string;
+  statusDescription: string | null;
+  lastEventTime: string | null;
+  lastEventDescription: string | null;
+  lastLocation: string | null;
+  deliveredAt: string | null;
+}
+
+interface ScanHistory {
+  trackingNumber: string;
+  firstScannedAt: string | null;
+  lastScannedAt: string | null;
+  scanCount: number;
+  events: Array<{ id: string; scannedBy: string | null; device: string | null; duplicate: number; removedAt: string | null; scannedAt: string }>;
+}
 
 interface ShipmentDetailPanelProps {
   shipment: Shipment | null;
@@ -28,7 +57,29 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
   const [deliveredCountInput, setDeliveredCountInput] = useState("");
   const { toast } = useToast();
 
+  const carrierLabel = shipment && isCarrier(shipment.carrier) ? CARRIER_LABELS[shipment.carrier] : "Carrier";
+
   // All hooks must be called before any conditional returns
+  // Scan history is stored server-side, so it survives FedEx trimming old events
+  const { data: events = [] } = useQuery<ShipmentEvent[]>({
+    queryKey: ["/api/shipments", shipment?.trackingNumber, "events"],
+    enabled: !!shipment,
+  });
+
+  // When the package was scanned in at the dock, from the scan log
+  const { data: scanHistory } = useQuery<ScanHistory>({
+    queryKey: ["/api/scan-events", shipment?.trackingNumber],
+    enabled: !!shipment,
+  });
+  const firstScan = scanHistory?.events.find(event => !event.removedAt);
+
+  // Each piece of a multi-piece shipment is tracked on its own
+  const hasChildren = !!shipment?.childTrackingNumbers && shipment.childTrackingNumbers.length > 0;
+  const { data: packages = [] } = useQuery<ShipmentPackage[]>({
+    queryKey: ["/api/shipments", shipment?.trackingNumber, "packages"],
+    enabled: hasChildren,
+  });
+
   const updateChildTrackingMutation = useMutation({
     mutationFn: async (childTrackingNumbers: string[]) => {
       if (!shipment) throw new Error("No shipment selected");
@@ -98,22 +149,22 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
       if (data.message?.includes("not configured")) {
         toast({
           title: "Using Cached Data",
-          description: "FedEx API not configured - showing existing shipment data",
+          description: `${carrierLabel} API not configured - showing existing shipment data`,
         });
       } else if (data.message?.includes("No new tracking data")) {
         toast({
           title: "No Updates Available",
-          description: "FedEx returned no tracking data for this shipment",
+          description: `${carrierLabel} returned no tracking data for this shipment`,
         });
       } else if (data.message?.includes("cached data")) {
         toast({
           title: "Using Cached Data",
-          description: data.error || "Could not reach FedEx API",
+          description: data.error || `Could not reach ${carrierLabel} API`,
         });
       } else {
         toast({
           title: "Tracking Refreshed",
-          description: "Live tracking information updated from FedEx",
+          description: `Live tracking information updated from ${carrierLabel}`,
         });
       }
     },
@@ -194,9 +245,12 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
               <div className="flex-1">
                 <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
                   Tracking Number
+                  <Badge variant="outline" className="ml-2 px-1.5 py-0 text-[10px]" data-testid="badge-carrier">
+                    {carrierLabel}
+                  </Badge>
                 </p>
                 <a
-                  href={`https://www.fedex.com/fedextrack/?trknbr=${shipment.trackingNumber}`}
+                  href={getCarrierTrackingUrl(shipment.carrier, shipment.trackingNumber)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-base font-mono font-semibold break-all text-primary hover:underline"
@@ -293,7 +347,7 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
             </div>
           </div>
 
-          {shipment.packageCount > 1 && shipment.manuallyCompleted === 1 && (
+          {shipment.packageCount > 1 && (shipment.manuallyCompleted === 1 || packages.length > 0) && (
             <>
               <Separator />
               <div>
@@ -321,9 +375,13 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
                 {!isEditingDeliveredCount ? (
                   <div className="p-3 bg-muted/30 rounded">
                     <p className="text-lg font-semibold">
-                      {shipment.deliveredPackageCount || shipment.packageCount} / {shipment.packageCount} packages delivered
+                      {packages.length > 0 ? shipment.deliveredPackageCount : (shipment.deliveredPackageCount || shipment.packageCount)} / {shipment.packageCount} packages delivered
                     </p>
-                    {shipment.deliveredPackageCount && shipment.deliveredPackageCount < shipment.packageCount && (
+                    {packages.length > 0 ? (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Counted from each package's {carrierLabel} tracking status.
+                      </p>
+                    ) : shipment.deliveredPackageCount > 0 && shipment.deliveredPackageCount < shipment.packageCount && (
                       <p className="text-xs text-muted-foreground mt-1">
                         This is a partial delivery. Update the count as more packages arrive.
                       </p>
@@ -410,26 +468,43 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
                   <>
                     {shipment.childTrackingNumbers && shipment.childTrackingNumbers.length > 0 ? (
                       <div className="space-y-1">
-                        {shipment.childTrackingNumbers.map((trackingNum, idx) => (
-                          <div key={idx} className="flex items-center justify-between p-2 rounded bg-muted/30">
-                            <a
-                              href={`https://www.fedex.com/fedextrack/?trknbr=${trackingNum}`}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="font-mono text-sm text-primary hover:underline flex items-center gap-1"
-                              data-testid={`link-child-tracking-${idx}`}
-                            >
-                              {trackingNum}
-                              <ExternalLink className="h-3 w-3" />
-                            </a>
-                          </div>
-                        ))}
+                        {shipment.childTrackingNumbers.map((trackingNum, idx) => {
+                          const pkg = packages.find(p => p.trackingNumber === trackingNum);
+                          return (
+                            <div key={idx} className="p-2 rounded bg-muted/30" data-testid={`package-${trackingNum}`}>
+                              <div className="flex items-center justify-between gap-2">
+                                <a
+                                  href={getCarrierTrackingUrl(shipment.carrier, trackingNum)}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="font-mono text-sm text-primary hover:underline flex items-center gap-1"
+                                  data-testid={`link-child-tracking-${idx}`}
+                                >
+                                  {trackingNum}
+                                  <ExternalLink className="h-3 w-3" />
+                                </a>
+                                <StatusBadge status={pkg?.status || "pending"} statusDescription={pkg?.statusDescription} />
+                              </div>
+                              {pkg?.deliveredAt ? (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Delivered {formatDateTimePST(pkg.deliveredAt)}
+                                </p>
+                              ) : pkg?.lastEventDescription && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {pkg.lastEventDescription}
+                                  {pkg.lastLocation && ` • ${pkg.lastLocation}`}
+                                  {pkg.lastEventTime && ` • ${formatDateTimePST(pkg.lastEventTime)}`}
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
                       </div>
                     ) : (
                       <div className="text-sm text-muted-foreground p-3 bg-muted/20 rounded border border-dashed">
                         <p>No individual tracking numbers entered.</p>
                         <p className="text-xs mt-1">
-                          Click "Add" to manually enter tracking numbers from FedEx tracking page.
+                          Click "Add" to manually enter tracking numbers from the {carrierLabel} tracking page.
                         </p>
                       </div>
                     )}
@@ -446,12 +521,12 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
                     <p className="text-xs text-muted-foreground">
                       Visit the{" "}
                       <a
-                        href={`https://www.fedex.com/fedextrack/?trknbr=${shipment.trackingNumber}`}
+                        href={getCarrierTrackingUrl(shipment.carrier, shipment.trackingNumber)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-primary hover:underline"
                       >
-                        FedEx tracking page
+                        {carrierLabel} tracking page
                       </a>
                       {" "}to find individual package tracking numbers.
                     </p>
@@ -506,6 +581,30 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
             </>
           )}
 
+          {scanHistory && firstScan && (
+            <>
+              <Separator />
+              <div data-testid="section-scan-history">
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                  Scanned In
+                </p>
+                <p className="text-sm">
+                  {formatDateTimePST(firstScan.scannedAt)}
+                  {firstScan.scannedBy && ` by ${firstScan.scannedBy}`}
+                  {firstScan.device && <span className="text-muted-foreground"> ({firstScan.device})</span>}
+                </p>
+                {scanHistory.scanCount > 1 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Scanned {scanHistory.scanCount} times, last {formatDateTimePST(scanHistory.lastScannedAt)}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          <Separator />
+          <ShipmentFieldSources shipment={shipment} />
+
           {fedexData && (
             <>
               <Separator />
@@ -536,35 +635,39 @@ export function ShipmentDetailPanel({ shipment, onClose }: ShipmentDetailPanelPr
             </>
           )}
 
-          {fedexData?.events && fedexData.events.length > 0 && (
+          {events.length > 0 && (
             <>
               <Separator />
               <div>
-                <h3 className="text-sm font-semibold mb-4">FedEx Tracking Events</h3>
+                <h3 className="text-sm font-semibold mb-4">{carrierLabel} Tracking Events</h3>
                 <div className="space-y-4">
-                  {fedexData.events.map((event: any, index: number) => (
-                    <div key={index} className="flex gap-3">
+                  {events.map((event, index) => (
+                    <div key={event.id} className="flex gap-3" data-testid={`event-${event.id}`}>
                       <div className="flex flex-col items-center">
                         <div className={`h-3 w-3 rounded-full ${index === 0 ? "bg-primary" : "bg-muted"}`} />
-                        {index !== fedexData.events.length - 1 && (
+                        {index !== events.length - 1 && (
                           <div className="w-0.5 flex-1 bg-border mt-1 min-h-8" />
                         )}
                       </div>
                       <div className="flex-1 pb-4">
-                        <p className="text-sm font-medium">{event.status}</p>
-                        <p className="text-xs text-muted-foreground mt-0.5">
-                          {event.description}
+                        <p className="text-sm font-medium">
+                          {event.description || "Scan event"}
+                          {event.eventType && (
+                            <Badge variant="outline" className="ml-2 px-1.5 py-0 text-[10px]">
+                              {event.eventType}
+                            </Badge>
+                          )}
                         </p>
-                        {event.location && (
+                        {(event.location || event.eventTime) && (
                           <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-                            <MapPin className="h-3 w-3" />
-                            <span>{event.location}</span>
-                            {event.timestamp && (
+                            {event.location && (
                               <>
-                                <span>•</span>
-                                <span>{new Date(event.timestamp).toLocaleString()}</span>
+                                <MapPin className="h-3 w-3" />
+                                <span>{event.location}</span>
                               </>
                             )}
+                            {event.location && event.eventTime && <span>•</span>}
+                            {event.eventTime && <span>{formatDateTimePST(event.eventTime)}</span>}
                           </div>
                         )}
                       </div>
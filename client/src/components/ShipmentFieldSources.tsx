@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Lock, LockOpen } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTimePST } from "@/lib/utils";
+import {
+  ENRICHED_FIELDS,
+  ENRICHED_FIELD_LABELS,
+  ENRICHMENT_SOURCE_LABELS,
+  type EnrichedField,
+  type FieldSources,
+} from "@shared/enrichment";
+import type { Shipment } from "./ShipmentTable";
+
+function parseFieldSources(text: string | null | undefined): FieldSources {
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+function displayValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  return String(value);
+}
+
+// Which source set each field, with a lock per field so syncs and imports leave it alone
+export function ShipmentFieldSources({ shipment }: { shipment: Shipment }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const fieldSources = parseFieldSources(shipment.fieldSources);
+  const locked = new Set((shipment.lockedFields || []) as EnrichedField[]);
+
+  const lockMutation = useMutation({
+    mutationFn: async (fields: EnrichedField[]) => {
+      const response = await apiRequest("PUT", `/api/shipments/${shipment.trackingNumber}/locked-fields`, { fields });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change lock", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleLock = (field: EnrichedField) => {
+    const next = new Set(locked);
+    if (next.has(field)) next.delete(field);
+    else next.add(field);
+    lockMutation.mutate(Array.from(next));
+  };
+
+  return (
+    <div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full justify-start gap-2 p-0 h-auto font-semibold text-sm"
+        data-testid="button-toggle-field-sources"
+      >
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        Field Sources & Locks{locked.size > 0 && ` (${locked.size} locked)`}
+      </Button>
+      {isOpen && (
+        <div className="mt-3 space-y-1">
+          {ENRICHED_FIELDS.map(field => {
+            const source = fieldSources[field];
+            return (
+              <div key={field} className="flex items-center gap-2 text-xs" data-testid={`field-source-${field}`}>
+                <span className="w-36 shrink-0 text-muted-foreground">{ENRICHED_FIELD_LABELS[field]}</span>
+                <span className="flex-1 truncate font-mono" title={displayValue(shipment[field])}>
+                  {displayValue(shipment[field])}
+                </span>
+                <span className="w-36 shrink-0 text-muted-foreground" title={source ? formatDateTimePST(source.at) ?? undefined : undefined}>
+                  {source ? ENRICHMENT_SOURCE_LABELS[source.source] ?? source.source : "—"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => toggleLock(field)}
+                  disabled={lockMutation.isPending}
+                  title={locked.has(field) ? "Unlock: let syncs and imports change this field" : "Lock: keep this value"}
+                  data-testid={`button-lock-${field}`}
+                >
+                  {locked.has(field) ? <Lock className="h-3 w-3" /> : <LockOpen className="h-3 w-3 text-muted-foreground" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,12 +9,14 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { StatusBadge, type ShipmentStatus } from "./StatusBadge";
+import { StatusBadge } from "./StatusBadge";
 import { MoreVertical, Search, Copy, Eye, RefreshCw, ArrowUpDown, Filter, X, Trash2 } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatDateTimePST } from "@/lib/utils";
+import { getCarrierTrackingUrl } from "@shared/carriers";
+import { SHIPMENT_STATUSES, getStatusLabel } from "@shared/status";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -29,6 +31,7 @@ import { Badge } from "@/components/ui/badge";
 export interface Shipment {
   id: string;
   trackingNumber: string;
+  carrier: string;
   status: string;
   statusDescription?: string | null; // FedEx's actual status text like "On the way"
   scheduledDelivery: string | null;
@@ -50,6 +53,8 @@ export interface Shipment {
   notScanned: number;
   manuallyCompleted: number;
   deliveredPackageCount: number;
+  lockedFields?: string[] | null; // fields syncs and imports may not change
+  fieldSources?: string | null; // JSON: which source last set each field
 }
 
 interface ShipmentTableProps {
@@ -67,10 +72,10 @@ export function ShipmentTable({ shipments, onViewDetails }: ShipmentTableProps)
   const [selectedStatuses, setSelectedStatuses] = useState<Set<string>>(new Set());
   const { toast } = useToast();
 
-  // Get unique statuses from all shipments
+  // Get statuses present in the shipments, in lifecycle order
   const availableStatuses = useMemo(() => {
     const statuses = new Set(shipments.map(s => s.status));
-    return Array.from(statuses).sort();
+    return SHIPMENT_STATUSES.filter(status => statuses.has(status));
   }, [shipments]);
 
   const deleteMutation = useMutation({
@@ -147,7 +152,8 @@ export function ShipmentTable({ shipments, onViewDetails }: ShipmentTableProps)
         (shipment.shipperName?.toLowerCase().includes(search) || false) ||
         (shipment.recipientCompany?.toLowerCase().includes(search) || false) ||
         (shipment.serviceType?.toLowerCase().includes(search) || false) ||
-        shipment.status.toLowerCase().includes(search)
+        getStatusLabel(shipment.status).toLowerCase().includes(search) ||
+        (shipment.statusDescription?.toLowerCase().includes(search) || false)
       );
     }
 
@@ -215,10 +221,9 @@ export function ShipmentTable({ shipments, onViewDetails }: ShipmentTableProps)
                 key={status}
                 checked={selectedStatuses.has(status)}
                 onCheckedChange={() => toggleStatus(status)}
-                data-testid={`checkbox-status-${status.toLowerCase().replace(/\s+/g, '-')}`}
+                data-testid={`checkbox-status-${status.replace(/_/g, '-')}`}
               >
-                <StatusBadge status={status as ShipmentStatus} />
-                <span className="ml-2">{status}</span>
+                <StatusBadge status={status} />
               </DropdownMenuCheckboxItem>
             ))}
             {availableStatuses.length === 0 && (
@@ -315,11 +320,11 @@ export function ShipmentTable({ shipments, onViewDetails }: ShipmentTableProps)
                 data-testid={`row-shipment-${shipment.trackingNumber}`}
               >
                 <TableCell>
-                  <StatusBadge status={shipment.status as ShipmentStatus} statusDescription={shipment.statusDescription} />
+                  <StatusBadge status={shipment.status} statusDescription={shipment.statusDescription} />
                 </TableCell>
                 <TableCell onClick={(e) => e.stopPropagation()}>
                   <a
-                    href={`https://www.fedex.com/fedextrack/?tracknumbers=${shipment.trackingNumber}`}
+                    href={getCarrierTrackingUrl(shipment.carrier, shipment.trackingNumber)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="font-mono text-sm text-primary hover:underline"
@@ -1,11 +1,12 @@
 import { Badge } from "@/components/ui/badge";
-import { Circle, Package, Truck, CheckCircle2, AlertCircle, Clock, Tag } from "lucide-react";
+import { Package, Truck, CheckCircle2, AlertCircle, Clock, Tag, Undo2, XCircle } from "lucide-react";
 import { LucideIcon } from "lucide-react";
+import { type ShipmentStatus, SHIPMENT_STATUS_LABELS, normalizeStatus } from "@shared/status";
 
-export type ShipmentStatus = string;
+export type { ShipmentStatus };
 
 interface StatusBadgeProps {
-  status: ShipmentStatus;
+  status: string;
   statusDescription?: string | null; // FedEx's actual status text like "On the way"
   className?: string;
 }
@@ -16,103 +17,35 @@ interface StatusConfig {
   className: string;
 }
 
-// Map common FedEx status values to visual config
-const statusConfig: Record<string, StatusConfig> = {
-  // FedEx actual statuses
-  "Label created": {
-    label: "Label Created",
-    icon: Tag,
-    className: "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700",
-  },
-  "Delivery updated": {
-    label: "Delivery Updated",
-    icon: Clock,
-    className: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-400 dark:border-blue-900",
-  },
-  "On the way": {
-    label: "On the Way",
-    icon: Truck,
-    className: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-400 dark:border-blue-900",
-  },
-  "Running late": {
-    label: "Running Late",
-    icon: AlertCircle,
-    className: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-400 dark:border-amber-900",
-  },
-  "We have your package": {
-    label: "Package Received",
-    icon: Package,
-    className: "bg-indigo-100 text-indigo-700 border-indigo-200 dark:bg-indigo-950 dark:text-indigo-400 dark:border-indigo-900",
-  },
-  "Out for delivery": {
-    label: "Out for Delivery",
-    icon: Package,
-    className: "bg-purple-100 text-purple-700 border-purple-200 dark:bg-purple-950 dark:text-purple-400 dark:border-purple-900",
-  },
-  "Delivered": {
-    label: "Delivered",
-    icon: CheckCircle2,
-    className: "bg-green-100 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-400 dark:border-green-900",
-  },
-  "Exception": {
-    label: "Exception",
-    icon: AlertCircle,
-    className: "bg-red-100 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-900",
-  },
-  "Pending": {
-    label: "Pending",
-    icon: Clock,
-    className: "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700",
-  },
-  // Legacy statuses for backward compatibility
-  "in_transit": {
-    label: "In Transit",
-    icon: Truck,
-    className: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-400 dark:border-blue-900",
-  },
-  "out_for_delivery": {
-    label: "Out for Delivery",
-    icon: Package,
-    className: "bg-purple-100 text-purple-700 border-purple-200 dark:bg-purple-950 dark:text-purple-400 dark:border-purple-900",
-  },
-  "delivered": {
-    label: "Delivered",
-    icon: CheckCircle2,
-    className: "bg-green-100 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-400 dark:border-green-900",
-  },
-  "exception": {
-    label: "Exception",
-    icon: AlertCircle,
-    className: "bg-red-100 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-900",
-  },
-  "pending": {
-    label: "Pending",
-    icon: Clock,
-    className: "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700",
-  },
-  "picked_up": {
-    label: "Picked Up",
-    icon: Circle,
-    className: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-400 dark:border-amber-900",
-  },
-};
-
-// Default config for unknown statuses
-const defaultConfig: StatusConfig = {
-  label: "Unknown",
-  icon: Circle,
-  className: "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700",
+const gray = "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700";
+const blue = "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-400 dark:border-blue-900";
+const indigo = "bg-indigo-100 text-indigo-700 border-indigo-200 dark:bg-indigo-950 dark:text-indigo-400 dark:border-indigo-900";
+const purple = "bg-purple-100 text-purple-700 border-purple-200 dark:bg-purple-950 dark:text-purple-400 dark:border-purple-900";
+const amber = "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-400 dark:border-amber-900";
+const green = "bg-green-100 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-400 dark:border-green-900";
+const red = "bg-red-100 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-900";
+
+// Visual config for each canonical status (labels come from shared/status.ts)
+const statusConfig: Record<ShipmentStatus, StatusConfig> = {
+  pending: { label: SHIPMENT_STATUS_LABELS.pending, icon: Clock, className: gray },
+  label_created: { label: SHIPMENT_STATUS_LABELS.label_created, icon: Tag, className: gray },
+  picked_up: { label: SHIPMENT_STATUS_LABELS.picked_up, icon: Package, className: indigo },
+  in_transit: { label: SHIPMENT_STATUS_LABELS.in_transit, icon: Truck, className: blue },
+  out_for_delivery: { label: SHIPMENT_STATUS_LABELS.out_for_delivery, icon: Package, className: purple },
+  delayed: { label: SHIPMENT_STATUS_LABELS.delayed, icon: AlertCircle, className: amber },
+  on_hold: { label: SHIPMENT_STATUS_LABELS.on_hold, icon: Clock, className: amber },
+  exception: { label: SHIPMENT_STATUS_LABELS.exception, icon: AlertCircle, className: red },
+  delivered: { label: SHIPMENT_STATUS_LABELS.delivered, icon: CheckCircle2, className: green },
+  returned: { label: SHIPMENT_STATUS_LABELS.returned, icon: Undo2, className: red },
+  cancelled: { label: SHIPMENT_STATUS_LABELS.cancelled, icon: XCircle, className: gray },
 };
 
 export function StatusBadge({ status, statusDescription, className = "" }: StatusBadgeProps) {
-  // Prefer FedEx's statusDescription if available, otherwise use mapped config
-  const displayText = statusDescription || status;
+  const normalized = normalizeStatus(status);
+  const config = statusConfig[normalized];
 
-  // Get config for this status (for icon and colors), or use default if not found
-  const config = statusConfig[status] || statusConfig[displayText] || {
-    ...defaultConfig,
-    label: displayText, // Use the actual status string as the label
-  };
+  // Prefer FedEx's statusDescription if available, otherwise use the canonical label
+  const displayText = statusDescription || config.label;
 
   const Icon = config.icon;
 
@@ -120,7 +53,7 @@ export function StatusBadge({ status, statusDescription, className = "" }: Statu
     <Badge
       variant="outline"
       className={`${config.className} ${className} gap-1 px-2.5 py-0.5 text-xs font-medium`}
-      data-testid={`badge-status-${status}`}
+      data-testid={`badge-status-${normalized}`}
     >
       <Icon className="h-3 w-3" />
       {displayText}
@@ -9,6 +9,8 @@ import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { formatDateTimePST } from "@/lib/utils";
+import { getCarrierTrackingUrl } from "@shared/carriers";
+import { getStatusLabel } from "@shared/status";
 
 interface StatusDetailPanelProps {
   title: string;
@@ -65,6 +67,7 @@ export function StatusDetailPanel({ title, shipments, onClose }: StatusDetailPan
   // Show only master tracking numbers (what you physically scan)
   const trackingItems = shipments.map(shipment => ({
     trackingNumber: shipment.trackingNumber,
+    carrier: shipment.carrier,
     masterTrackingNumber: shipment.trackingNumber,
     shipperCompany: shipment.shipperCompany,
     recipientCompany: shipment.recipientCompany,
@@ -75,8 +78,8 @@ export function StatusDetailPanel({ title, shipments, onClose }: StatusDetailPan
     deliveredPackageCount: shipment.deliveredPackageCount || 0,
   }));
 
-  const handleOpenTracking = (trackingNumber: string) => {
-    window.open(`https://www.fedex.com/fedextrack/?trknbr=${trackingNumber}`, '_blank');
+  const handleOpenTracking = (carrier: string, trackingNumber: string) => {
+    window.open(getCarrierTrackingUrl(carrier, trackingNumber), '_blank');
   };
 
   return (
@@ -126,7 +129,7 @@ export function StatusDetailPanel({ title, shipments, onClose }: StatusDetailPan
                     <div className="flex items-center gap-2 flex-wrap">
                       <button
                         className="font-mono text-base text-primary hover:underline cursor-pointer flex items-center gap-1"
-                        onClick={() => handleOpenTracking(item.trackingNumber)}
+                        onClick={() => handleOpenTracking(item.carrier, item.trackingNumber)}
                         data-testid={`link-tracking-${item.trackingNumber}`}
                       >
                         {item.trackingNumber}
@@ -187,7 +190,7 @@ export function StatusDetailPanel({ title, shipments, onClose }: StatusDetailPan
                     className="whitespace-nowrap"
                     data-testid={`status-${item.trackingNumber}`}
                   >
-                    {item.status}
+                    {getStatusLabel(item.status)}
                   </Badge>
                 </div>
               </Card>
@@ -0,0 +1,209 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Check, X } from "lucide-react";
+import { SHEET_FIELD_LABELS, type SheetField } from "@shared/sheetMappings";
+
+interface PlannedFieldChange {
+  field: SheetField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+interface PlannedShipmentRow {
+  trackingNumber: string;
+  action: "add" | "update" | "unchanged";
+  sheetRow: number | null;
+  fields: Record<string, string | number | null>;
+  changes: PlannedFieldChange[];
+}
+
+interface PlannedArchive {
+  trackingNumber: string;
+  status: string;
+  shipperCompany: string | null;
+  recipientCompany: string | null;
+  scheduledDelivery: string | null;
+}
+
+export interface SyncPlan {
+  id: string;
+  status: string;
+  createdAt: string;
+  expiresAt: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  archived: number;
+  plan: {
+    output: { spreadsheetId: string; sheetName: string };
+    rows: PlannedShipmentRow[];
+    archive: PlannedArchive[];
+    archiveGuard: string | null;
+  };
+}
+
+interface SyncPlanPreviewProps {
+  plan: SyncPlan;
+  onApply: () => void;
+  onDiscard: () => void;
+  isApplying: boolean;
+}
+
+function formatValue(value: string | number | null) {
+  return value === null || value === "" ? <span className="text-muted-foreground">empty</span> : String(value);
+}
+
+export function SyncPlanPreview({ plan, onApply, onDiscard, isApplying }: SyncPlanPreviewProps) {
+  const addRows = plan.plan.rows.filter(row => row.action === "add");
+  const updateRows = plan.plan.rows.filter(row => row.action === "update");
+
+  return (
+    <div className="border rounded-md p-4 space-y-4" data-testid="sync-plan-preview">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold mr-2">Sync preview of "{plan.plan.output.sheetName}"</h3>
+        <Badge variant="secondary">{plan.added} new</Badge>
+        <Badge variant="secondary">{plan.updated} changed</Badge>
+        <Badge variant="secondary">{plan.unchanged} unchanged</Badge>
+        <Badge variant={plan.archived > 0 ? "destructive" : "secondary"}>{plan.archived} to archive</Badge>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Nothing has been changed yet. Status and delivery dates are fetched from the carrier when the plan is applied.
+        This preview can be applied until {new Date(plan.expiresAt).toLocaleTimeString()}.
+      </p>
+
+      {plan.plan.archiveGuard && (
+        <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-destructive mt-0.5" />
+          <span>
+            This plan can't be applied: {plan.plan.archiveGuard}. Check the sheet before syncing.
+          </span>
+        </div>
+      )}
+
+      <Accordion type="multiple" defaultValue={plan.archived > 0 ? ["archive"] : []}>
+        <AccordionItem value="archive">
+          <AccordionTrigger className="text-sm">
+            <span className="flex items-center gap-2">
+              {plan.archived > 0 && <AlertTriangle className="h-4 w-4 text-destructive" />}
+              Archived - no longer in the sheet ({plan.archived})
+            </span>
+          </AccordionTrigger>
+          <AccordionContent>
+            {plan.plan.archive.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No shipments will be archived.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Tracking Number</TableHead>
+                    <TableHead className="text-xs">Status</TableHead>
+                    <TableHead className="text-xs">Shipper</TableHead>
+                    <TableHead className="text-xs">Recipient</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.plan.archive.map(shipment => (
+                    <TableRow key={shipment.trackingNumber}>
+                      <TableCell className="text-xs font-mono">{shipment.trackingNumber}</TableCell>
+                      <TableCell className="text-xs">{shipment.status}</TableCell>
+                      <TableCell className="text-xs">{shipment.shipperCompany ?? "—"}</TableCell>
+                      <TableCell className="text-xs">{shipment.recipientCompany ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="add">
+          <AccordionTrigger className="text-sm">New shipments ({plan.added})</AccordionTrigger>
+          <AccordionContent>
+            {addRows.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No new shipments.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Row</TableHead>
+                    <TableHead className="text-xs">Tracking Number</TableHead>
+                    <TableHead className="text-xs">Carrier</TableHead>
+                    <TableHead className="text-xs">Shipper</TableHead>
+                    <TableHead className="text-xs">Recipient</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {addRows.map(row => (
+                    <TableRow key={row.trackingNumber}>
+                      <TableCell className="text-xs text-muted-foreground">{row.sheetRow ?? "—"}</TableCell>
+                      <TableCell className="text-xs font-mono">{row.trackingNumber}</TableCell>
+                      <TableCell className="text-xs">{row.fields.carrier}</TableCell>
+                      <TableCell className="text-xs">{row.fields.shipperCompany ?? "—"}</TableCell>
+                      <TableCell className="text-xs">{row.fields.recipientCompany ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="update">
+          <AccordionTrigger className="text-sm">Changed shipments ({plan.updated})</AccordionTrigger>
+          <AccordionContent>
+            {updateRows.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No sheet fields changed.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Tracking Number</TableHead>
+                    <TableHead className="text-xs">Field</TableHead>
+                    <TableHead className="text-xs">Current</TableHead>
+                    <TableHead className="text-xs">From sheet</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {updateRows.flatMap(row => row.changes.map((change, index) => (
+                    <TableRow key={`${row.trackingNumber}-${change.field}`}>
+                      <TableCell className="text-xs font-mono">{index === 0 ? row.trackingNumber : ""}</TableCell>
+                      <TableCell className="text-xs">{SHEET_FIELD_LABELS[change.field]}</TableCell>
+                      <TableCell className="text-xs line-through text-muted-foreground">{formatValue(change.from)}</TableCell>
+                      <TableCell className="text-xs">{formatValue(change.to)}</TableCell>
+                    </TableRow>
+                  )))}
+                </TableBody>
+              </Table>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+
+      <div className="flex gap-2">
+        <Button size="sm" className="gap-2" onClick={onApply} disabled={isApplying || !!plan.plan.archiveGuard} data-testid="button-apply-plan">
+          <Check className="h-4 w-4" />
+          {isApplying ? "Applying..." : "Apply this plan"}
+        </Button>
+        <Button size="sm" variant="outline" className="gap-2" onClick={onDiscard} disabled={isApplying} data-testid="button-discard-plan">
+          <X className="h-4 w-4" />
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+}
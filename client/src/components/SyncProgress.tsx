@@ -0,0 +1,39 @@
+import { Progress } from "@/components/ui/progress";
+import type { SyncJob } from "@/hooks/use-sheet-sync";
+
+const PHASE_LABELS: Record<string, string> = {
+  starting: "Starting",
+  reading_sheet: "Reading Google Sheet",
+  archiving: "Archiving removed shipments",
+  processing_rows: "Updating shipments",
+  writing_back: "Writing status to sheet",
+  refreshing_shipments: "Refreshing tracking",
+  refreshing_packages: "Refreshing packages",
+  complete: "Complete",
+};
+
+interface SyncProgressProps {
+  job: SyncJob;
+  className?: string;
+}
+
+export function SyncProgress({ job, className }: SyncProgressProps) {
+  const percentage = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+  const failedRows = job.results.filter(row => !row.success).length;
+
+  return (
+    <div className={`space-y-1 ${className ?? ""}`} data-testid="sync-progress">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{job.status === "failed" ? "Sync failed" : PHASE_LABELS[job.phase] ?? job.phase}</span>
+        {job.total > 0 && (
+          <span>
+            {job.processed}/{job.total}
+            {failedRows > 0 && <span className="text-destructive"> · {failedRows} failed</span>}
+          </span>
+        )}
+      </div>
+      <Progress value={job.status === "succeeded" ? 100 : percentage} className="h-2" />
+      {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { RefreshCw, CheckCircle2, Trash2 } from "lucide-react";
+import { RefreshCw, CheckCircle2, Trash2, Clock } from "lucide-react";
 import { useState, useEffect } from "react";
 import {
   AlertDialog,
@@ -12,32 +12,52 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { SyncJob } from "@/hooks/use-sheet-sync";
+import { SyncProgress } from "@/components/SyncProgress";
+
+interface SchedulerRun {
+  status: "running" | "success" | "failed";
+  trigger: string;
+  startedAt: string;
+  finishedAt: string | null;
+  errorMessage: string | null;
+}
+
+interface SchedulerJobStatus {
+  job: "sheet_sync" | "shipment_refresh" | "hot_folder" | "email_ingest";
+  label: string;
+  enabled: boolean;
+  intervalMinutes: number;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: SchedulerRun | null;
+}
 
 interface SyncStatusProps {
   lastSynced?: Date;
   onSync?: () => void;
+  isSyncing?: boolean;
+  syncJob?: SyncJob;
 }
 
-export function SyncStatus({ lastSynced, onSync }: SyncStatusProps) {
-  const [isSyncing, setIsSyncing] = useState(false);
+export function SyncStatus({ lastSynced, onSync, isSyncing = false, syncJob }: SyncStatusProps) {
   const [, setTick] = useState(0); // Force re-render every second
   const { toast } = useToast();
 
-  const handleSync = async () => {
-    setIsSyncing(true);
-    console.log("Syncing with Google Sheets and FedEx API...");
-    
-    try {
-      onSync?.();
-      // Give time for the sync to complete
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } finally {
-      setIsSyncing(false);
-    }
-  };
+  const { data: schedulerStatus } = useQuery<{ jobs: SchedulerJobStatus[] }>({
+    queryKey: ["/api/scheduler/status"],
+  });
+  const sheetSync = schedulerStatus?.jobs.find(job => job.job === "sheet_sync");
+  const shipmentRefresh = schedulerStatus?.jobs.find(job => job.job === "shipment_refresh");
+
+  // The server syncs on its own schedule, so show whichever sync happened most recently
+  const lastScheduledSync = sheetSync?.lastRun?.finishedAt ? new Date(sheetSync.lastRun.finishedAt) : undefined;
+  const lastSyncedAt = lastSynced && (!lastScheduledSync || lastSynced > lastScheduledSync)
+    ? lastSynced
+    : lastScheduledSync;
 
   const resetFlagsMutation = useMutation({
     mutationFn: async () => {
@@ -90,6 +110,22 @@ export function SyncStatus({ lastSynced, onSync }: SyncStatusProps) {
     return `${Math.floor(hours / 24)}d ago`;
   };
 
+  const getTimeUntil = (date: Date) => {
+    const seconds = Math.floor((date.getTime() - new Date().getTime()) / 1000);
+    if (seconds < 60) return "now";
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `in ${minutes}m`;
+    return `in ${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const describeJob = (job: SchedulerJobStatus) => {
+    if (!job.enabled) return `${job.label}: off`;
+    if (job.running) return `${job.label}: running`;
+    const next = job.nextRunAt ? getTimeUntil(new Date(job.nextRunAt)) : "not scheduled";
+    const failed = job.lastRun?.status === "failed" ? " (last run failed)" : "";
+    return `${job.label}: ${next}${failed}`;
+  };
+
   // Update the time display every second
   useEffect(() => {
     const interval = setInterval(() => {
@@ -101,18 +137,28 @@ export function SyncStatus({ lastSynced, onSync }: SyncStatusProps) {
 
   return (
     <div className="flex items-center gap-3">
-      {lastSynced && (
+      {lastSyncedAt && (
         <div className="flex items-center gap-2 text-sm">
           <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
           <span className="text-muted-foreground">
-            Last synced: <span className="font-medium text-foreground">{getTimeSince(lastSynced)}</span>
+            Last synced: <span className="font-medium text-foreground">{getTimeSince(lastSyncedAt)}</span>
           </span>
         </div>
       )}
+      {(sheetSync || shipmentRefresh) && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground" data-testid="text-scheduler-next-run">
+          <Clock className="h-4 w-4" />
+          <div className="flex flex-col">
+            {sheetSync && <span>{describeJob(sheetSync)}</span>}
+            {shipmentRefresh && <span>{describeJob(shipmentRefresh)}</span>}
+          </div>
+        </div>
+      )}
+      {syncJob?.status === "running" && <SyncProgress job={syncJob} className="w-48" />}
       <Button
         variant="outline"
         size="sm"
-        onClick={handleSync}
+        onClick={() => onSync?.()}
         disabled={isSyncing}
         data-testid="button-sync"
         className="gap-2"
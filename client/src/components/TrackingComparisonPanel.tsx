@@ -1,4 +1,4 @@
-import { X, AlertCircle, CheckCircle2, Copy, Save, History, Trash2, Check } from "lucide-react";
+import { X, AlertCircle, CheckCircle2, Copy, Save, History, Trash2, Check, Users, LogOut, Lock, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
@@ -9,7 +9,15 @@ import { useState, useMemo, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { detectCarrier } from "@shared/carriers";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -29,6 +37,48 @@ interface ScannedSession {
   scannedNumbers: string[];
 }
 
+interface ScanningSessionSummary {
+  id: string;
+  name: string | null;
+  status: "open" | "closed";
+  createdBy: string | null;
+  participants: string[];
+  createdAt: string;
+  closedAt: string | null;
+  scanCount: number;
+}
+
+interface SessionScan {
+  id: string;
+  sessionId: string;
+  trackingNumber: string;
+  scannedBy: string | null;
+  scannedAt: string;
+}
+
+interface ScanEvent {
+  id: string;
+  trackingNumber: string;
+  rawBarcode: string;
+  sessionId: string;
+  scannedBy: string | null;
+  device: string | null;
+  duplicate: number;
+  removedAt: string | null;
+  scannedAt: string;
+}
+
+interface DuplicateScan {
+  trackingNumber: string;
+  count: number;
+  events: ScanEvent[];
+}
+
+interface ScanningSessionDetails extends Omit<ScanningSessionSummary, "scanCount"> {
+  scans: SessionScan[];
+  duplicates: DuplicateScan[];
+}
+
 interface ParsedTrackingNumber {
   original: string;
   extracted: string;
@@ -36,14 +86,21 @@ interface ParsedTrackingNumber {
 }
 
 // Smart tracking number extraction: extracts last 12 digits from long barcode numbers
-function extractTrackingNumber(input: string): ParsedTrackingNumber {
+function extractTrackingNumber(input: string, knownNumbers: Set<string>): ParsedTrackingNumber {
   const trimmed = input.trim();
-  
+  const isLongNumber = trimmed.length > 12 && /^\d+$/.test(trimmed);
+
+  // Numbers we track win over the format: a FedEx SmartPost barcode looks like a USPS number
+  const lastTwelve = trimmed.slice(-12);
+  const known = knownNumbers.has(trimmed) ? trimmed : isLongNumber && knownNumbers.has(lastTwelve) ? lastTwelve : null;
+  const carrier = detectCarrier(trimmed);
+
   // If longer than 12 digits, extract the last 12 digits (FedEx tracking numbers are 12 digits)
-  if (trimmed.length > 12 && /^\d+$/.test(trimmed)) {
+  // Other carriers' numbers (e.g. 22-digit USPS) are already complete - leave them alone
+  if (known ? known !== trimmed : isLongNumber && (!carrier || carrier === "fedex")) {
     return {
       original: trimmed,
-      extracted: trimmed.slice(-12),
+      extracted: lastTwelve,
       wasExtracted: true
     };
   }
@@ -57,14 +114,38 @@ function extractTrackingNumber(input: string): ParsedTrackingNumber {
 }
 
 const AUTOSAVE_KEY = "tracking_comparison_autosave";
+const SESSION_KEY = "scanning_session_id";
+const SCANNER_NAME_KEY = "scanning_scanner_name";
+const DEVICE_KEY = "scanning_device_id";
+const SYNCED_SCANS_KEY = "scanning_session_synced";
+
+// A short ID this browser keeps for itself, recorded with every scan it sends
+function getDeviceId() {
+  let deviceId = localStorage.getItem(DEVICE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID().slice(0, 8);
+    localStorage.setItem(DEVICE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+function sessionLabel(session: { name: string | null; createdAt: string }) {
+  return session.name || `Session ${new Date(session.createdAt).toLocaleString()}`;
+}
 
 export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: TrackingComparisonPanelProps) {
   const [inputText, setInputText] = useState("");
   const [sessionName, setSessionName] = useState("");
   const [showSavedSessions, setShowSavedSessions] = useState(false);
   const [lastRefreshTime, setLastRefreshTime] = useState<Date>(new Date());
+  const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem(SESSION_KEY));
+  const [scannerName, setScannerName] = useState(() => localStorage.getItem(SCANNER_NAME_KEY) ?? "");
+  const [newSessionName, setNewSessionName] = useState("");
+  const [sessionToJoin, setSessionToJoin] = useState("");
   const { toast } = useToast();
   const autoSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // How many times each number in the textarea has been sent to the joined session
+  const syncedCountsRef = useRef<Map<string, number>>(new Map());
 
   // Load saved input from localStorage on mount
   useEffect(() => {
@@ -98,29 +179,69 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
     };
   }, [inputText]);
 
-  // Fetch saved sessions with more frequent polling for multi-user sync
+  // Fetch saved sessions
   const { data: savedSessions = [] } = useQuery<ScannedSession[]>({
     queryKey: ["/api/scanned-sessions"],
-    refetchInterval: 3000, // Check for new sessions every 3 seconds
   });
 
+  // Open scanning sessions other receivers may be scanning into
+  const { data: openSessions = [] } = useQuery<ScanningSessionSummary[]>({
+    queryKey: ["/api/scanning-sessions"],
+  });
+
+  // The joined session with everyone's scans
+  const { data: session, error: sessionError } = useQuery<ScanningSessionDetails>({
+    queryKey: ["/api/scanning-sessions", sessionId],
+    enabled: !!sessionId,
+  });
+
+  const leaveSession = () => {
+    setSessionId(null);
+    localStorage.removeItem(SESSION_KEY);
+  };
+
+  const enterSession = (joined: ScanningSessionDetails) => {
+    queryClient.setQueryData(["/api/scanning-sessions", joined.id], joined);
+    queryClient.invalidateQueries({ queryKey: ["/api/scanning-sessions"], exact: true });
+    setSessionId(joined.id);
+    localStorage.setItem(SESSION_KEY, joined.id);
+    if (scannerName.trim()) localStorage.setItem(SCANNER_NAME_KEY, scannerName.trim());
+  };
+
+  // Someone closed the session (or it's gone) - stop scanning into it
+  useEffect(() => {
+    if (!sessionId) return;
+    if (sessionError || session?.status === "closed") {
+      leaveSession();
+      toast({
+        title: "Session ended",
+        description: session ? `"${sessionLabel(session)}" was closed.` : "The scanning session no longer exists.",
+      });
+    }
+  }, [sessionId, session?.status, sessionError]);
+
+  const knownNumbers = useMemo(() => new Set(allTrackingNumbers), [allTrackingNumbers]);
+
   // Parse input tracking numbers (with smart extraction)
   const parsedTrackingNumbers = useMemo(() => {
     return inputText
       .split(/[\n,\s]+/)
       .map(num => num.replace(/^\d+\.\s*/, "").trim()) // Remove numbering
       .filter(num => num.length > 0)
-      .map(num => extractTrackingNumber(num));
-  }, [inputText]);
+      .map(num => extractTrackingNumber(num, knownNumbers));
+  }, [inputText, knownNumbers]);
 
   // Format input text with numbered outline (showing extracted numbers when applicable)
   const formattedInputText = useMemo(() => {
+    const seen = new Set<string>();
     return parsedTrackingNumbers
       .map((parsed, idx) => {
+        const duplicate = seen.has(parsed.extracted) ? " (duplicate)" : "";
+        seen.add(parsed.extracted);
         if (parsed.wasExtracted) {
-          return `${idx + 1}. ${parsed.original} → ${parsed.extracted}`;
+          return `${idx + 1}. ${parsed.original} → ${parsed.extracted}${duplicate}`;
         }
-        return `${idx + 1}. ${parsed.original}`;
+        return `${idx + 1}. ${parsed.original}${duplicate}`;
       })
       .join("\n");
   }, [parsedTrackingNumbers]);
@@ -130,41 +251,163 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
     return parsedTrackingNumbers.map(p => p.extracted);
   }, [parsedTrackingNumbers]);
 
+  // Everything scanned: this textarea plus the other receivers' scans in the joined session
+  const scannedNumbers = useMemo(() => {
+    return Array.from(new Set([...(session?.scans.map(scan => scan.trackingNumber) ?? []), ...inputTrackingNumbers]));
+  }, [session?.scans, inputTrackingNumbers]);
+
   const missingInDatabase = useMemo(() => {
     return parsedTrackingNumbers.filter(parsed => !allTrackingNumbers.includes(parsed.extracted));
   }, [parsedTrackingNumbers, allTrackingNumbers]);
 
   const missingInInput = useMemo(() => {
-    if (inputTrackingNumbers.length === 0) return [];
-    return allTrackingNumbers.filter(num => !inputTrackingNumbers.includes(num));
-  }, [inputTrackingNumbers, allTrackingNumbers]);
+    if (scannedNumbers.length === 0) return [];
+    return allTrackingNumbers.filter(num => !scannedNumbers.includes(num));
+  }, [scannedNumbers, allTrackingNumbers]);
 
-  // Tracking numbers that are found (present in both database and input)
+  // Tracking numbers that are found (present in both database and scans)
   const foundInInput = useMemo(() => {
-    if (inputTrackingNumbers.length === 0) return [];
-    return allTrackingNumbers.filter(num => inputTrackingNumbers.includes(num));
-  }, [inputTrackingNumbers, allTrackingNumbers]);
+    if (scannedNumbers.length === 0) return [];
+    return allTrackingNumbers.filter(num => scannedNumbers.includes(num));
+  }, [scannedNumbers, allTrackingNumbers]);
 
-  // Update scanning progress in real-time as user types/scans
+  // Lines already sent to the session, restored after a reload so they aren't sent (and logged as duplicates) again
   useEffect(() => {
-    const updateProgress = async () => {
+    const saved = JSON.parse(localStorage.getItem(SYNCED_SCANS_KEY) || "null");
+    syncedCountsRef.current = new Map(saved?.sessionId === sessionId ? saved.counts : []);
+  }, [sessionId]);
+
+  // Send scans to the joined session as they're typed. Every new line is a scan, so a number
+  // scanned twice is sent twice and logged as a duplicate; numbers deleted from the textarea
+  // are removed from the session.
+  useEffect(() => {
+    if (!sessionId || session?.status !== "open") return;
+
+    const timeout = setTimeout(async () => {
+      const synced = syncedCountsRef.current;
+      const current = new Map<string, number>();
+      const added: Array<{ trackingNumber: string; rawBarcode: string }> = [];
+      for (const parsed of parsedTrackingNumbers) {
+        const count = (current.get(parsed.extracted) ?? 0) + 1;
+        current.set(parsed.extracted, count);
+        if (count > (synced.get(parsed.extracted) ?? 0)) {
+          added.push({ trackingNumber: parsed.extracted, rawBarcode: parsed.original });
+        }
+      }
+      const removed = Array.from(synced.keys()).filter(num => !current.has(num));
+      if (added.length === 0 && removed.length === 0 && current.size === synced.size) return;
+
+      const previous = synced;
+      syncedCountsRef.current = current;
       try {
-        await apiRequest("POST", "/api/scanning-progress/update", {
-          scannedNumbers: foundInInput,
-        });
+        if (added.length > 0) {
+          const response = await apiRequest("POST", `/api/scanning-sessions/${sessionId}/scans`, {
+            scans: added,
+            scannedBy: scannerName.trim() || null,
+            device: getDeviceId(),
+          });
+          const { duplicates } = await response.json() as { duplicates: ScanEvent[] };
+          if (duplicates.length > 0) {
+            toast({
+              title: "Duplicate scan",
+              description: `${Array.from(new Set(duplicates.map(event => event.trackingNumber))).join(", ")} was already scanned in this session.`,
+              variant: "destructive",
+            });
+          }
+        }
+        for (const num of removed) {
+          await apiRequest("DELETE", `/api/scanning-sessions/${sessionId}/scans/${encodeURIComponent(num)}`)
+            .catch(error => console.error(`Failed to remove scan ${num}:`, error));
+        }
+        localStorage.setItem(SYNCED_SCANS_KEY, JSON.stringify({ sessionId, counts: Array.from(current.entries()) }));
+        queryClient.invalidateQueries({ queryKey: ["/api/scanning-sessions", sessionId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/scanning-progress"] });
       } catch (error) {
-        console.error("Failed to update scanning progress:", error);
+        // Retried with the next change
+        syncedCountsRef.current = previous;
+        console.error("Failed to send scans to the session:", error);
       }
-    };
+    }, 300);
 
-    updateProgress();
-  }, [foundInInput]);
+    return () => clearTimeout(timeout);
+  }, [sessionId, session?.status, parsedTrackingNumbers]);
+
+  const createScanningSessionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/scanning-sessions", {
+        name: newSessionName.trim() || null,
+        createdBy: scannerName.trim() || null,
+      });
+      return await response.json() as ScanningSessionDetails;
+    },
+    onSuccess: (created) => {
+      enterSession(created);
+      setNewSessionName("");
+      toast({
+        title: "Session started",
+        description: `Others can now join "${sessionLabel(created)}".`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinScanningSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/scanning-sessions/${id}/join`, {
+        participant: scannerName.trim() || null,
+      });
+      return await response.json() as ScanningSessionDetails;
+    },
+    onSuccess: (joined) => {
+      enterSession(joined);
+      setSessionToJoin("");
+      toast({
+        title: "Joined",
+        description: `Scanning into "${sessionLabel(joined)}" (${joined.scans.length} scanned so far).`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to join session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeScanningSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/scanning-sessions/${id}/close`);
+    },
+    onSuccess: () => {
+      leaveSession();
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-progress"] });
+      toast({
+        title: "Session closed",
+        description: "No more scans can be added to it.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to close session",
+        variant: "destructive",
+      });
+    },
+  });
 
   const saveSessionMutation = useMutation({
     mutationFn: async () => {
       return await apiRequest("POST", "/api/scanned-sessions", {
         sessionName: sessionName || null,
-        scannedNumbers: inputTrackingNumbers,
+        scannedNumbers,
       });
     },
     onSuccess: () => {
@@ -333,7 +576,7 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
   };
 
   const handleSaveSession = () => {
-    if (inputTrackingNumbers.length === 0) {
+    if (scannedNumbers.length === 0) {
       toast({
         title: "Error",
         description: "No tracking numbers to save",
@@ -360,7 +603,9 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
     }
     toast({
       title: "Cleared",
-      description: "Input cleared and auto-save removed.",
+      description: sessionId
+        ? "Input cleared; your scans are removed from the session."
+        : "Input cleared and auto-save removed.",
     });
   };
 
@@ -372,10 +617,10 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
             <div>
               <h2 className="text-xl font-semibold">Tracking Number Comparison</h2>
               <p className="text-sm text-muted-foreground">
-                Paste or scan tracking numbers on the left to compare with database • Auto-saves as you type
+                Paste or scan tracking numbers on the left to compare with database • Join a session to scan together
               </p>
             </div>
-            {inputTrackingNumbers.length > 0 && missingInInput.length === 0 && (
+            {scannedNumbers.length > 0 && missingInInput.length === 0 && (
               <Badge variant="default" className="bg-green-600 dark:bg-green-700" data-testid="badge-done">
                 <CheckCircle2 className="h-3 w-3 mr-1" />
                 Done
@@ -398,6 +643,87 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
           </div>
         </div>
 
+        <div className="flex items-center gap-2 flex-wrap px-4 py-3 border-b" data-testid="scanning-session-bar">
+          <Input
+            placeholder="Your name"
+            value={scannerName}
+            onChange={(e) => setScannerName(e.target.value)}
+            className="w-40"
+            disabled={!!session}
+            data-testid="input-scanner-name"
+          />
+          {session ? (
+            <>
+              <Badge variant="default" data-testid="badge-scanning-session">
+                <Users className="h-3 w-3 mr-1" />
+                {sessionLabel(session)}
+              </Badge>
+              <span className="text-sm text-muted-foreground" data-testid="text-session-participants">
+                {session.scans.length} scanned
+                {session.participants.length > 0 && ` • ${session.participants.join(", ")}`}
+              </span>
+              <div className="ml-auto flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={leaveSession} data-testid="button-leave-session">
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Leave
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => closeScanningSessionMutation.mutate(session.id)}
+                  disabled={closeScanningSessionMutation.isPending}
+                  data-testid="button-close-session"
+                >
+                  <Lock className="h-4 w-4 mr-1" />
+                  {closeScanningSessionMutation.isPending ? "Closing..." : "Close Session"}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <Select value={sessionToJoin} onValueChange={setSessionToJoin}>
+                <SelectTrigger className="w-64" data-testid="select-scanning-session">
+                  <SelectValue placeholder={openSessions.length > 0 ? "Join an open session" : "No open sessions"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {openSessions.map((open) => (
+                    <SelectItem key={open.id} value={open.id}>
+                      {sessionLabel(open)} ({open.scanCount} scanned)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => joinScanningSessionMutation.mutate(sessionToJoin)}
+                disabled={!sessionToJoin || joinScanningSessionMutation.isPending}
+                data-testid="button-join-session"
+              >
+                <Users className="h-4 w-4 mr-1" />
+                Join
+              </Button>
+              <Separator orientation="vertical" className="h-6" />
+              <Input
+                placeholder="New session name (optional)"
+                value={newSessionName}
+                onChange={(e) => setNewSessionName(e.target.value)}
+                className="w-56"
+                data-testid="input-new-session-name"
+              />
+              <Button
+                size="sm"
+                onClick={() => createScanningSessionMutation.mutate()}
+                disabled={createScanningSessionMutation.isPending}
+                data-testid="button-start-session"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Start Session
+              </Button>
+            </>
+          )}
+        </div>
+
         <div className="flex-1 overflow-hidden">
           <div className="grid grid-cols-2 gap-4 h-full p-4">
             {/* Left side - Input */}
@@ -450,7 +776,7 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
                 </div>
               )}
 
-              {inputTrackingNumbers.length > 0 && (
+              {scannedNumbers.length > 0 && (
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <Input
@@ -498,6 +824,30 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
                 </div>
               )}
 
+              {session && session.duplicates.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-yellow-600" />
+                    <span className="font-semibold text-sm">Duplicate Scans ({session.duplicates.length})</span>
+                  </div>
+                  <ScrollArea className="h-24 rounded-md border p-2">
+                    <div className="space-y-1">
+                      {session.duplicates.map((duplicate) => (
+                        <div key={duplicate.trackingNumber} className="text-sm" data-testid={`text-duplicate-${duplicate.trackingNumber}`}>
+                          <span className="font-mono">{duplicate.trackingNumber}</span>
+                          <Badge variant="outline" className="ml-2">×{duplicate.count}</Badge>
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {duplicate.events
+                              .map(event => `${event.scannedBy || event.device || "unknown"} ${new Date(event.scannedAt).toLocaleTimeString()}`)
+                              .join(", ")}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+
               {missingInDatabase.length > 0 && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
@@ -563,14 +913,14 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
               <ScrollArea className="flex-1 rounded-md border p-2 overflow-auto">
                 <div className="space-y-1">
                   {allTrackingNumbers.map((num, idx) => {
-                    const isInInput = inputTrackingNumbers.includes(num);
+                    const isInInput = scannedNumbers.includes(num);
                     const isMissingInInput = missingInInput.includes(num);
                     
                     return (
                       <div 
                         key={idx} 
                         className={`font-mono text-sm flex items-center justify-between p-1 rounded ${
-                          isMissingInInput && inputTrackingNumbers.length > 0
+                          isMissingInInput && scannedNumbers.length > 0
                             ? "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-900 dark:text-yellow-400" 
                             : isInInput 
                             ? "bg-green-100 dark:bg-green-900/20 text-green-900 dark:text-green-400"
@@ -579,10 +929,10 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
                         data-testid={`text-db-tracking-${idx}`}
                       >
                         <span>{num}</span>
-                        {isInInput && inputTrackingNumbers.length > 0 && (
+                        {isInInput && (
                           <CheckCircle2 className="h-3 w-3 text-green-600" />
                         )}
-                        {isMissingInInput && inputTrackingNumbers.length > 0 && (
+                        {isMissingInInput && (
                           <AlertCircle className="h-3 w-3 text-yellow-600" />
                         )}
                       </div>
@@ -591,7 +941,7 @@ export function TrackingComparisonPanel({ allTrackingNumbers, onClose }: Trackin
                 </div>
               </ScrollArea>
 
-              {missingInInput.length > 0 && inputTrackingNumbers.length > 0 && (
+              {missingInInput.length > 0 && (
                 <div className="flex items-center gap-2 text-sm text-yellow-600 flex-shrink-0">
                   <AlertCircle className="h-4 w-4" />
                   <span>{missingInInput.length} tracking number(s) in database but not in your scan</span>
@@ -0,0 +1,91 @@
+import { useEffect } from "react"
+import type { ChangeEvent } from "@shared/changeEvents"
+import { queryClient } from "@/lib/queryClient"
+
+type ShipmentRow = { trackingNumber: string }
+
+// Saved shipments replace their cached row (new ones go first); removed ones drop out
+function mergeShipments(current: ShipmentRow[], updated: ShipmentRow[], removed: string[]): ShipmentRow[] {
+  const changed = new Map(updated.map(shipment => [shipment.trackingNumber, shipment]))
+  const gone = new Set(removed)
+  const known = new Set(current.map(shipment => shipment.trackingNumber))
+  return [
+    ...updated.filter(shipment => !known.has(shipment.trackingNumber)),
+    ...current
+      .filter(shipment => !gone.has(shipment.trackingNumber))
+      .map(shipment => changed.get(shipment.trackingNumber) ?? shipment),
+  ]
+}
+
+function applyChangeEvent(event: ChangeEvent) {
+  switch (event.type) {
+    case "shipments":
+      if (event.reload) {
+        queryClient.invalidateQueries({ queryKey: ["/api/shipments"] })
+      } else {
+        queryClient.setQueryData<ShipmentRow[]>(["/api/shipments"], current =>
+          current && mergeShipments(current, event.updated, event.removed)
+        )
+        // Detail panel queries (events, packages) of the shipments that changed
+        for (const trackingNumber of [...event.updated.map(shipment => shipment.trackingNumber), ...event.removed]) {
+          queryClient.invalidateQueries({ queryKey: ["/api/shipments", trackingNumber] })
+        }
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tracking-numbers/all"] })
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-progress"] })
+      break
+    case "sessions":
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-sessions"] })
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-progress"] })
+      break
+    case "scans":
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-sessions"], exact: true })
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-sessions", event.sessionId] })
+      queryClient.invalidateQueries({ queryKey: ["/api/scan-events"] })
+      queryClient.invalidateQueries({ queryKey: ["/api/scanning-progress"] })
+      break
+    case "saved_sessions":
+      queryClient.invalidateQueries({ queryKey: ["/api/scanned-sessions"] })
+      break
+    case "sync_runs":
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-runs"] })
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] })
+      queryClient.invalidateQueries({ queryKey: ["/api/delivered-shipments"] })
+      break
+    case "scheduler":
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/status"] })
+      break
+    case "import_jobs":
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs"] })
+      break
+  }
+}
+
+/**
+ * Keep cached queries up to date from the server's change event stream (GET /api/events)
+ * instead of polling. After the connection drops, everything is refetched once it's back,
+ * since events sent in between were missed.
+ */
+export function useChangeEvents() {
+  useEffect(() => {
+    const source = new EventSource("/api/events")
+    let disconnected = false
+
+    source.onopen = () => {
+      if (disconnected) queryClient.invalidateQueries()
+      disconnected = false
+    }
+    source.onerror = () => {
+      disconnected = true
+    }
+    source.onmessage = message => {
+      try {
+        applyChangeEvent(JSON.parse(message.data) as ChangeEvent)
+      } catch (error) {
+        console.error("Failed to apply change event:", error)
+      }
+    }
+
+    return () => source.close()
+  }, [])
+}
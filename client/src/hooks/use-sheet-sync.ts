@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react"
+import { useMutation, useQuery } from "@tanstack/react-query"
+import { apiRequest, queryClient } from "@/lib/queryClient"
+
+export interface SyncRowResult {
+  success: boolean
+  trackingNumber: string
+  error?: string
+}
+
+export interface SyncJob {
+  id: string
+  type: string
+  trigger: string
+  status: "running" | "succeeded" | "failed"
+  phase: string
+  processed: number
+  total: number
+  results: SyncRowResult[]
+  result: { total: number; successful: number; failed: number } | null
+  error: string | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+/**
+ * Start a Google Sheets sync job (or apply a reviewed dry-run plan) on the server
+ * and poll its progress until it finishes
+ */
+export function useSheetSync(onFinished?: (job: SyncJob) => void) {
+  const [jobId, setJobId] = useState<string | null>(null)
+  const finishedRef = useRef<string | null>(null)
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sync/google-sheets")
+      return (await response.json()) as { jobId: string }
+    },
+    onSuccess: ({ jobId }) => setJobId(jobId),
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: async (planId: string) => {
+      const response = await apiRequest("POST", `/api/sync/plans/${planId}/apply`)
+      return (await response.json()) as { jobId: string }
+    },
+    onSuccess: ({ jobId }) => setJobId(jobId),
+  })
+
+  const { data: job } = useQuery<SyncJob>({
+    queryKey: ["/api/jobs", jobId],
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      query.state.data && query.state.data.status !== "running" ? false : 1000,
+  })
+
+  useEffect(() => {
+    if (!job || job.status === "running" || finishedRef.current === job.id) return
+    finishedRef.current = job.id
+
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] })
+    queryClient.invalidateQueries({ queryKey: ["/api/tracking-numbers/all"] })
+    queryClient.invalidateQueries({ queryKey: ["/api/scheduler/status"] })
+    onFinishedRef.current?.(job)
+  }, [job])
+
+  return {
+    job,
+    startSync: startMutation.mutateAsync,
+    startError: startMutation.error,
+    applyPlan: applyMutation.mutateAsync,
+    isSyncing: startMutation.isPending || applyMutation.isPending || job?.status === "running",
+  }
+}
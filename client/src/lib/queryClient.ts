@@ -45,8 +45,8 @@ export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
-      // Enable polling for multi-user synchronization
-      refetchInterval: 5000, // Poll every 5 seconds for updates
+      // No polling: other users' changes arrive over /api/events (see hooks/use-change-events.ts)
+      refetchInterval: false,
       refetchOnWindowFocus: true, // Refresh when tab regains focus
       staleTime: 3000, // Consider data stale after 3 seconds
       retry: false,
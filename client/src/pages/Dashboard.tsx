@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { StatsCard } from "@/components/StatsCard";
 import { ShipmentTable, type Shipment } from "@/components/ShipmentTable";
@@ -7,7 +7,7 @@ import { TrackingComparisonPanel } from "@/components/TrackingComparisonPanel";
 import { StatusDetailPanel } from "@/components/StatusDetailPanel";
 import { SyncStatus } from "@/components/SyncStatus";
 import { Package, Truck, CheckCircle2, AlertCircle, BarChart3 } from "lucide-react";
-import { queryClient } from "@/lib/queryClient";
+import { useSheetSync } from "@/hooks/use-sheet-sync";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
@@ -29,6 +29,7 @@ export default function Dashboard() {
   });
 
   interface ScanningProgress {
+    sessionIds: string[];
     totalExpected: number;
     totalScanned: number;
     percentageScanned: number;
@@ -40,7 +41,6 @@ export default function Dashboard() {
 
   const { data: scanningProgress } = useQuery<ScanningProgress>({
     queryKey: ["/api/scanning-progress"],
-    refetchInterval: 2000, // Refresh every 2 seconds for live updates
   });
 
   // Transform API data to ensure dates are properly parsed
@@ -107,64 +107,19 @@ export default function Dashboard() {
     notScanned: countNotScannedTrackingNumbers(),
   };
 
+  // Sheet sync runs as a server job; the toolbar shows its progress
+  const { job: syncJob, startSync, isSyncing } = useSheetSync(() => setLastSynced(new Date()));
+
   const handleSync = async () => {
     console.log("Manual sync - syncing from Google Sheets");
-    // Note: Bulk FedEx refresh is disabled to prevent rate limiting
-    // Use the refresh button in individual shipment detail panels instead
-
     try {
-      // Sync from Google Sheets to get new tracking numbers
-      const response = await fetch("/api/sync/google-sheets", {
-        method: "POST",
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to sync from Google Sheets");
-      }
-
-      // Refresh the shipments list
-      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tracking-numbers/all"] });
-      setLastSynced(new Date());
+      await startSync();
     } catch (error) {
       console.error("Error syncing:", error);
-      // Still update last synced time even on error
       setLastSynced(new Date());
     }
   };
 
-  // Auto-refresh FedEx tracking data every 5 minutes for active shipments
-  useEffect(() => {
-    const refreshFedExData = async () => {
-      try {
-        const response = await fetch("/api/shipments/refresh-all-active", {
-          method: "POST",
-          credentials: "include",
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          console.log(`📦 Auto-refreshed ${result.refreshed} active shipments`);
-
-          // Refresh the UI if any shipments were updated
-          if (result.refreshed > 0) {
-            queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-          }
-        }
-      } catch (error) {
-        console.error("Failed to auto-refresh FedEx data:", error);
-      }
-    };
-
-    // Initial refresh
-    refreshFedExData();
-
-    // Set up interval for every 5 minutes (300000 ms)
-    const interval = setInterval(refreshFedExData, 300000);
-
-    return () => clearInterval(interval);
-  }, []);
-
   return (
     <>
       <div className="flex-1 overflow-auto">
@@ -179,6 +134,8 @@ export default function Dashboard() {
             <SyncStatus
               lastSynced={lastSynced}
               onSync={handleSync}
+              isSyncing={isSyncing}
+              syncJob={syncJob}
             />
           </div>
 
@@ -192,7 +149,7 @@ export default function Dashboard() {
               <p className="text-sm text-muted-foreground mb-4">
                 Make sure you have GOOGLE_SERVICE_ACCOUNT_JSON and GOOGLE_SHEET_ID configured in your secrets
               </p>
-              <Button onClick={handleSync} data-testid="button-sync-now">
+              <Button onClick={handleSync} disabled={isSyncing} data-testid="button-sync-now">
                 Sync Now
               </Button>
             </Card>
@@ -247,6 +204,13 @@ export default function Dashboard() {
                           className="mt-2 h-2"
                         />
                       )}
+                      {scanningProgress && (
+                        <p className="text-xs text-muted-foreground mt-1" data-testid="text-open-scanning-sessions">
+                          {scanningProgress.sessionIds.length === 1
+                            ? "1 open scanning session"
+                            : `${scanningProgress.sessionIds.length} open scanning sessions`}
+                        </p>
+                      )}
                     </div>
                     <div className="rounded-full bg-primary/10 p-3 group-hover:bg-primary/20 transition-colors">
                       <BarChart3 className="h-5 w-5 text-primary" />
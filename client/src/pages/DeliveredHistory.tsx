@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Package, ExternalLink } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { formatDateTimePST } from "@/lib/utils";
+import { getStatusLabel } from "@shared/status";
 
 interface DeliveredShipment {
   id: string;
@@ -89,7 +90,7 @@ export default function DeliveredHistory() {
                       >
                         <td className="p-3">
                           <Badge variant="secondary" className="whitespace-nowrap bg-green-100 dark:bg-green-900/20 text-green-900 dark:text-green-400">
-                            {shipment.status}
+                            {getStatusLabel(shipment.status)}
                           </Badge>
                         </td>
                         <td className="p-3">
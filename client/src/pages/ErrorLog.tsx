@@ -1,9 +1,12 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { AlertCircle, CheckCircle2, FileText } from "lucide-react";
+import { AlertCircle, CheckCircle2, FileText, Loader2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Table,
   TableBody,
@@ -20,6 +23,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
 
 interface SyncLog {
   id: string;
@@ -31,25 +40,212 @@ interface SyncLog {
   errorStack: string | null;
   sheetData: string | null;
   responseData: string | null;
+  runId: string | null;
+}
+
+interface SyncRun {
+  id: string;
+  source: string;
+  trigger: string;
+  status: "running" | "success" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  added: number;
+  updated: number;
+  archived: number;
+  failed: number;
+  fedexCalls: number;
+  fedexCached: number;
+  sheetsApiCalls: number;
+  errorMessage: string | null;
+}
+
+interface ArchivedShipment {
+  id: string;
+  trackingNumber: string;
+  status: string;
+  shipperCompany: string | null;
+  recipientCompany: string | null;
+}
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleString();
+};
+
+function SyncLogTable({ logs, onSelect }: { logs: SyncLog[]; onSelect: (log: SyncLog) => void }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Timestamp</TableHead>
+          <TableHead>Source</TableHead>
+          <TableHead>Tracking Number</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Error</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {logs.map((log) => (
+          <TableRow 
+            key={log.id}
+            className="cursor-pointer hover-elevate"
+            onClick={() => onSelect(log)}
+            data-testid={`row-log-${log.id}`}
+          >
+            <TableCell className="text-sm">
+              {formatDate(log.timestamp)}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline">{log.source}</Badge>
+            </TableCell>
+            <TableCell className="font-mono text-sm">
+              {log.trackingNumber || "N/A"}
+            </TableCell>
+            <TableCell>
+              {log.success === 1 ? (
+                <Badge variant="default" className="bg-green-500">
+                  <CheckCircle2 className="h-3 w-3 mr-1" />
+                  Success
+                </Badge>
+              ) : (
+                <Badge variant="destructive">
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  Error
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="max-w-md truncate text-sm text-muted-foreground">
+              {log.errorMessage || "—"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Shipments a sync archived (soft-deleted) that can still be put back
+function SyncRunArchivedShipments({ runId, shipments }: { runId: string; shipments: ArchivedShipment[] }) {
+  const { toast } = useToast();
+
+  const restoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/sync-runs/${runId}/restore`);
+      return (await response.json()) as { count: number };
+    },
+    onSuccess: ({ count }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-runs", runId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/delivered-shipments"] });
+      toast({
+        title: "Shipments restored",
+        description: `${count} shipment(s) are active again. Add them back to the sheet or the next sync will archive them again.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="mb-3 p-3 border rounded-md space-y-2" data-testid={`archived-${runId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm">
+          This run archived {shipments.length} shipment(s) that were missing from the sheet
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          onClick={() => restoreMutation.mutate()}
+          disabled={restoreMutation.isPending}
+          data-testid={`button-restore-${runId}`}
+        >
+          <Undo2 className="h-4 w-4" />
+          {restoreMutation.isPending ? "Restoring..." : "Restore"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground font-mono break-all">
+        {shipments.map(shipment => shipment.trackingNumber).join(", ")}
+      </p>
+    </div>
+  );
+}
+
+// Logs of one run, loaded when its accordion item is opened
+function SyncRunLogs({ runId, onSelect }: { runId: string; onSelect: (log: SyncLog) => void }) {
+  const { data, isLoading } = useQuery<{ run: SyncRun; logs: SyncLog[]; archivedShipments: ArchivedShipment[] }>({
+    queryKey: ["/api/sync-runs", runId],
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4 text-sm text-muted-foreground">Loading logs...</div>;
+  }
+  if (!data) {
+    return <div className="text-center py-4 text-sm text-muted-foreground">This run didn't log any shipments</div>;
+  }
+
+  // Errors first - that's usually what you're looking for
+  const logs = [...data.logs].sort((a, b) => a.success - b.success);
+  return (
+    <>
+      {data.archivedShipments.length > 0 && (
+        <SyncRunArchivedShipments runId={runId} shipments={data.archivedShipments} />
+      )}
+      {logs.length === 0 ? (
+        <div className="text-center py-4 text-sm text-muted-foreground">This run didn't log any shipments</div>
+      ) : (
+        <SyncLogTable logs={logs} onSelect={onSelect} />
+      )}
+    </>
+  );
+}
+
+function SyncRunStatusBadge({ run }: { run: SyncRun }) {
+  if (run.status === "running") {
+    return (
+      <Badge variant="secondary">
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Running
+      </Badge>
+    );
+  }
+  if (run.status === "failed" || run.failed > 0) {
+    return (
+      <Badge variant="destructive">
+        <AlertCircle className="h-3 w-3 mr-1" />
+        {run.status === "failed" ? "Failed" : `${run.failed} failed`}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="default" className="bg-green-500">
+      <CheckCircle2 className="h-3 w-3 mr-1" />
+      Success
+    </Badge>
+  );
 }
 
 export default function ErrorLog() {
   const [selectedLog, setSelectedLog] = useState<SyncLog | null>(null);
 
-  const { data: logs, isLoading } = useQuery<SyncLog[]>({
+  const { data: logs } = useQuery<SyncLog[]>({
     queryKey: ["/api/sync-logs"],
   });
 
+  const { data: runs, isLoading } = useQuery<SyncRun[]>({
+    queryKey: ["/api/sync-runs"],
+  });
+
+  // One-off lookups (manual tracking, single refreshes) aren't part of a run
+  const unlinkedLogs = logs?.filter(log => !log.runId) || [];
+
   const errorLogs = logs?.filter(log => log.success === 0) || [];
   const successLogs = logs?.filter(log => log.success === 1) || [];
   const totalErrors = errorLogs.length;
   const totalSuccess = successLogs.length;
   const errorRate = logs && logs.length > 0 ? Math.round((totalErrors / logs.length) * 100) : 0;
 
-  const formatDate = (date: Date | string) => {
-    return new Date(date).toLocaleString();
-  };
-
   return (
     <>
       <div className="flex-1 overflow-auto">
@@ -108,72 +304,68 @@ export default function ErrorLog() {
             </Card>
           </div>
 
-          {/* Error Logs Table */}
+          {/* Sync Runs */}
           <Card>
             <CardHeader>
-              <CardTitle>Sync Logs</CardTitle>
+              <CardTitle>Sync Runs</CardTitle>
               <CardDescription>
-                Click any row to view full details including raw data and error stack traces
+                Each sync and its results. Expand a run to see the shipments it touched, then click a row for raw data and stack traces
               </CardDescription>
             </CardHeader>
             <CardContent>
               {isLoading ? (
-                <div className="text-center py-8 text-muted-foreground">Loading logs...</div>
-              ) : !logs || logs.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">No sync logs yet</div>
+                <div className="text-center py-8 text-muted-foreground">Loading sync runs...</div>
+              ) : !runs || runs.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No sync runs yet</div>
               ) : (
                 <ScrollArea className="h-[500px]">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Timestamp</TableHead>
-                        <TableHead>Source</TableHead>
-                        <TableHead>Tracking Number</TableHead>
-                        <TableHead>Status</TableHead>
-                        <TableHead>Error</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {logs.map((log) => (
-                        <TableRow 
-                          key={log.id}
-                          className="cursor-pointer hover-elevate"
-                          onClick={() => setSelectedLog(log)}
-                          data-testid={`row-log-${log.id}`}
-                        >
-                          <TableCell className="text-sm">
-                            {formatDate(log.timestamp)}
-                          </TableCell>
-                          <TableCell>
-                            <Badge variant="outline">{log.source}</Badge>
-                          </TableCell>
-                          <TableCell className="font-mono text-sm">
-                            {log.trackingNumber || "N/A"}
-                          </TableCell>
-                          <TableCell>
-                            {log.success === 1 ? (
-                              <Badge variant="default" className="bg-green-500">
-                                <CheckCircle2 className="h-3 w-3 mr-1" />
-                                Success
-                              </Badge>
-                            ) : (
-                              <Badge variant="destructive">
-                                <AlertCircle className="h-3 w-3 mr-1" />
-                                Error
-                              </Badge>
-                            )}
-                          </TableCell>
-                          <TableCell className="max-w-md truncate text-sm text-muted-foreground">
-                            {log.errorMessage || "—"}
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
+                  <Accordion type="multiple">
+                    {runs.map((run) => (
+                      <AccordionItem key={run.id} value={run.id} data-testid={`run-${run.id}`}>
+                        <AccordionTrigger className="hover:no-underline">
+                          <div className="flex flex-1 flex-wrap items-center gap-3 pr-4 text-left">
+                            <span className="text-sm font-medium">{formatDate(run.startedAt)}</span>
+                            <Badge variant="outline">{run.source}</Badge>
+                            <span className="text-xs text-muted-foreground">{run.trigger}</span>
+                            <SyncRunStatusBadge run={run} />
+                            <span className="ml-auto text-xs text-muted-foreground">
+                              {run.added} added · {run.updated} updated · {run.archived} archived · {run.failed} failed
+                              {" · "}FedEx {run.fedexCalls} calls / {run.fedexCached} cached
+                              {run.sheetsApiCalls > 0 && ` · Sheets ${run.sheetsApiCalls} calls`}
+                            </span>
+                          </div>
+                        </AccordionTrigger>
+                        <AccordionContent>
+                          {run.errorMessage && (
+                            <div className="mb-3 p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm">
+                              {run.errorMessage}
+                            </div>
+                          )}
+                          <SyncRunLogs runId={run.id} onSelect={setSelectedLog} />
+                        </AccordionContent>
+                      </AccordionItem>
+                    ))}
+                  </Accordion>
                 </ScrollArea>
               )}
             </CardContent>
           </Card>
+
+          {unlinkedLogs.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Other Sync Activity</CardTitle>
+                <CardDescription>
+                  Logs from one-off lookups that aren't part of a sync run
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[300px]">
+                  <SyncLogTable logs={unlinkedLogs} onSelect={setSelectedLog} />
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
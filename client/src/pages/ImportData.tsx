@@ -1,13 +1,14 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BulkImport } from "@/components/BulkImport";
+import { ImportHistory } from "@/components/ImportHistory";
 import { ManualEntry } from "@/components/ManualEntry";
 import { Upload, Plus } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 export default function ImportData() {
-  const handleBulkImport = async (shipments: any[]) => {
-    await apiRequest("POST", "/api/shipments/bulk", shipments);
+  const handleBulkImported = () => {
     queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/import-jobs"] });
   };
 
   const handleManualAdd = async (shipment: any) => {
@@ -38,13 +39,15 @@ export default function ImportData() {
           </TabsList>
 
           <TabsContent value="bulk" className="mt-6">
-            <BulkImport onImport={handleBulkImport} />
+            <BulkImport onImported={handleBulkImported} />
           </TabsContent>
 
           <TabsContent value="manual" className="mt-6">
             <ManualEntry onAdd={handleManualAdd} />
           </TabsContent>
         </Tabs>
+
+        <ImportHistory />
       </div>
     </div>
   );
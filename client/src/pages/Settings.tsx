@@ -3,33 +3,76 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { CheckCircle2, XCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { CheckCircle2, XCircle, ExternalLink, RefreshCw, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useSheetSync } from "@/hooks/use-sheet-sync";
+import { SyncProgress } from "@/components/SyncProgress";
+import { SheetSourceSettings } from "@/components/SheetSourceSettings";
+import { FieldPrecedenceSettings } from "@/components/FieldPrecedenceSettings";
+import { SyncPlanPreview, type SyncPlan } from "@/components/SyncPlanPreview";
 
 export default function Settings() {
-  const [isSyncing, setIsSyncing] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [syncPlan, setSyncPlan] = useState<SyncPlan | null>(null);
   const { toast } = useToast();
 
-  const handleGoogleSheetsSync = async () => {
-    setIsSyncing(true);
-    try {
-      const response = await apiRequest("POST", "/api/sync/google-sheets");
-      const result = await response.json();
+  const { job: syncJob, startSync, applyPlan, isSyncing } = useSheetSync((job) => {
+    if (job.status === "succeeded") {
       toast({
         title: "Sync successful",
-        description: `Synced ${result.successful} shipment(s) from Google Sheets`,
+        description: `Synced ${job.result?.successful ?? 0} shipment(s) from Google Sheets`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    } else {
+      toast({
+        title: "Sync failed",
+        description: job.error || "Failed to sync from Google Sheets",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleGoogleSheetsSync = async () => {
+    try {
+      await startSync();
     } catch (error: any) {
       toast({
         title: "Sync failed",
         description: error.message || "Failed to sync from Google Sheets",
         variant: "destructive",
       });
+    }
+  };
+
+  // Dry run: show what a sync would add, change and archive before anything is written
+  const handlePreviewSync = async () => {
+    setIsPlanning(true);
+    try {
+      const response = await apiRequest("POST", "/api/sync/google-sheets?dryRun=true");
+      setSyncPlan(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Preview failed",
+        description: error.message || "Failed to preview the Google Sheets sync",
+        variant: "destructive",
+      });
     } finally {
-      setIsSyncing(false);
+      setIsPlanning(false);
+    }
+  };
+
+  const handleApplyPlan = async () => {
+    if (!syncPlan) return;
+    try {
+      await applyPlan(syncPlan.id);
+      setSyncPlan(null);
+    } catch (error: any) {
+      toast({
+        title: "Could not apply plan",
+        description: error.message || "Failed to apply the sync plan",
+        variant: "destructive",
+      });
     }
   };
 
@@ -121,26 +164,47 @@ export default function Settings() {
                   </ol>
                 </div>
 
-                <div className="pt-2">
-                  <Button
-                    onClick={handleGoogleSheetsSync}
-                    disabled={isSyncing}
-                    variant="outline"
-                    data-testid="button-sync-sheets"
-                    className="gap-2"
-                  >
-                    {isSyncing ? (
-                      <>
-                        <RefreshCw className="h-4 w-4 animate-spin" />
-                        Syncing...
-                      </>
-                    ) : (
-                      <>
-                        <RefreshCw className="h-4 w-4" />
-                        Sync from Google Sheets
-                      </>
-                    )}
-                  </Button>
+                <div className="pt-2 space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      onClick={handleGoogleSheetsSync}
+                      disabled={isSyncing}
+                      variant="outline"
+                      data-testid="button-sync-sheets"
+                      className="gap-2"
+                    >
+                      {isSyncing ? (
+                        <>
+                          <RefreshCw className="h-4 w-4 animate-spin" />
+                          Syncing...
+                        </>
+                      ) : (
+                        <>
+                          <RefreshCw className="h-4 w-4" />
+                          Sync from Google Sheets
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      onClick={handlePreviewSync}
+                      disabled={isSyncing || isPlanning}
+                      variant="outline"
+                      data-testid="button-preview-sync"
+                      className="gap-2"
+                    >
+                      <Eye className="h-4 w-4" />
+                      {isPlanning ? "Reading sheets..." : "Preview Sync"}
+                    </Button>
+                  </div>
+                  {syncJob && <SyncProgress job={syncJob} className="max-w-sm" />}
+                  {syncPlan && (
+                    <SyncPlanPreview
+                      plan={syncPlan}
+                      onApply={handleApplyPlan}
+                      onDiscard={() => setSyncPlan(null)}
+                      isApplying={isSyncing}
+                    />
+                  )}
                 </div>
               </div>
             </div>
@@ -225,6 +289,23 @@ export default function Settings() {
           </div>
         </Card>
 
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-1">Sheet Sources</h2>
+          <p className="text-sm text-muted-foreground mb-6">
+            Which sheets the sync reads and which column headers map to each shipment field
+          </p>
+          <SheetSourceSettings />
+        </Card>
+
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-1">Field Precedence</h2>
+          <p className="text-sm text-muted-foreground mb-6">
+            Which source wins for each shipment field, highest first. A value set by a higher source is kept until that
+            source changes it; sources not listed rank last. Lock individual fields from a shipment's detail panel.
+          </p>
+          <FieldPrecedenceSettings />
+        </Card>
+
         <Card className="p-6 bg-muted/50">
           <h3 className="text-sm font-semibold mb-2">Note</h3>
           <p className="text-sm text-muted-foreground">
@@ -0,0 +1 @@
+ALTER TABLE "shipments" ADD COLUMN "carrier" text DEFAULT 'fedex' NOT NULL;
\ No newline at end of file
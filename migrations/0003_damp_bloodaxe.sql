@@ -0,0 +1,11 @@
+CREATE TABLE "push_subscriptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tracking_number" text NOT NULL,
+	"carrier" text DEFAULT 'fedex' NOT NULL,
+	"active" integer DEFAULT 1 NOT NULL,
+	"registered_at" timestamp DEFAULT now() NOT NULL,
+	"unregistered_at" timestamp,
+	"last_notification_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "push_subscription_tracking_number_idx" ON "push_subscriptions" USING btree ("tracking_number");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "fedex_request_queue" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tracking_number" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"instance" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "fedex_queue_active_tracking_number_idx" ON "fedex_request_queue" USING btree ("tracking_number") WHERE status in ('pending', 'in_flight');--> statement-breakpoint
+CREATE INDEX "fedex_queue_status_next_attempt_idx" ON "fedex_request_queue" USING btree ("status","next_attempt_at");
\ No newline at end of file
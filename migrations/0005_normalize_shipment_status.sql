@@ -0,0 +1,58 @@
+-- Normalize shipment statuses to the canonical set in shared/status.ts.
+-- Mirrors normalizeStatus(): "In Transit"/"in-transit" -> in_transit, legacy labels via aliases, anything else -> pending.
+-- Unrecognised text is kept in status_description so nothing shown to users is lost.
+UPDATE "shipments"
+SET "status_description" = "status"
+WHERE "status_description" IS NULL
+  AND replace(regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g'), ' ', '_') NOT IN (
+    'pending', 'label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delayed',
+    'on_hold', 'exception', 'delivered', 'returned', 'cancelled'
+  );
+--> statement-breakpoint
+UPDATE "shipments"
+SET "status" = CASE
+  WHEN replace(regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g'), ' ', '_') IN (
+    'pending', 'label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delayed',
+    'on_hold', 'exception', 'delivered', 'returned', 'cancelled'
+  ) THEN replace(regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g'), ' ', '_')
+  ELSE CASE regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g')
+    WHEN 'shipment information sent to fedex' THEN 'label_created'
+    WHEN 'we have your package' THEN 'picked_up'
+    WHEN 'on the way' THEN 'in_transit'
+    WHEN 'delivery updated' THEN 'in_transit'
+    WHEN 'running late' THEN 'delayed'
+    WHEN 'delay' THEN 'delayed'
+    WHEN 'ready for pickup' THEN 'on_hold'
+    WHEN 'hold at location' THEN 'on_hold'
+    WHEN 'delivery exception' THEN 'exception'
+    WHEN 'shipment exception' THEN 'exception'
+    WHEN 'return to shipper' THEN 'returned'
+    WHEN 'returned to shipper' THEN 'returned'
+    WHEN 'canceled' THEN 'cancelled'
+    ELSE 'pending'
+  END
+END;
+--> statement-breakpoint
+UPDATE "delivered_shipments"
+SET "status" = CASE
+  WHEN replace(regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g'), ' ', '_') IN (
+    'pending', 'label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delayed',
+    'on_hold', 'exception', 'delivered', 'returned', 'cancelled'
+  ) THEN replace(regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g'), ' ', '_')
+  ELSE CASE regexp_replace(lower(trim("status")), '[\s_-]+', ' ', 'g')
+    WHEN 'shipment information sent to fedex' THEN 'label_created'
+    WHEN 'we have your package' THEN 'picked_up'
+    WHEN 'on the way' THEN 'in_transit'
+    WHEN 'delivery updated' THEN 'in_transit'
+    WHEN 'running late' THEN 'delayed'
+    WHEN 'delay' THEN 'delayed'
+    WHEN 'ready for pickup' THEN 'on_hold'
+    WHEN 'hold at location' THEN 'on_hold'
+    WHEN 'delivery exception' THEN 'exception'
+    WHEN 'shipment exception' THEN 'exception'
+    WHEN 'return to shipper' THEN 'returned'
+    WHEN 'returned to shipper' THEN 'returned'
+    WHEN 'canceled' THEN 'cancelled'
+    ELSE 'pending'
+  END
+END;
@@ -0,0 +1,51 @@
+CREATE TABLE "shipment_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tracking_number" text NOT NULL,
+	"carrier" text DEFAULT 'fedex' NOT NULL,
+	"event_time" timestamp,
+	"event_type" text,
+	"description" text,
+	"location" text,
+	"city" text,
+	"state_or_province" text,
+	"country_code" text,
+	"dedupe_key" text NOT NULL,
+	"recorded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "shipment_event_dedupe_idx" ON "shipment_events" USING btree ("tracking_number","dedupe_key");--> statement-breakpoint
+CREATE INDEX "shipment_event_time_idx" ON "shipment_events" USING btree ("event_time");--> statement-breakpoint
+CREATE INDEX "shipment_event_city_idx" ON "shipment_events" USING btree ("city");--> statement-breakpoint
+-- Backfill from the scan events already cached in shipments.fedex_raw_data.
+-- dedupe_key and location are built the same way as server/services/trackingUpdates.ts so refreshes don't duplicate them.
+WITH cached AS (
+  SELECT s."tracking_number", s."carrier",
+    s."fedex_raw_data"::jsonb #> '{rawApiResponse,output,completeTrackResults,0,trackResults,0,scanEvents}' AS scan_events
+  FROM "shipments" s
+  WHERE s."fedex_raw_data" LIKE '{%'
+), scans AS (
+  SELECT c."tracking_number", c."carrier", e AS event,
+    concat_ws(', ',
+      nullif(e #>> '{scanLocation,city}', ''),
+      nullif(e #>> '{scanLocation,stateOrProvinceCode}', ''),
+      nullif(e #>> '{scanLocation,countryCode}', '')
+    ) AS location
+  FROM cached c
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(c.scan_events) = 'array' THEN c.scan_events ELSE '[]'::jsonb END
+  ) e
+)
+INSERT INTO "shipment_events" ("tracking_number", "carrier", "event_time", "event_type", "description", "location", "city", "state_or_province", "country_code", "dedupe_key")
+SELECT
+  "tracking_number",
+  "carrier",
+  (event ->> 'date')::timestamptz AT TIME ZONE 'UTC',
+  nullif(event ->> 'eventType', ''),
+  event ->> 'eventDescription',
+  location,
+  nullif(event #>> '{scanLocation,city}', ''),
+  nullif(event #>> '{scanLocation,stateOrProvinceCode}', ''),
+  nullif(event #>> '{scanLocation,countryCode}', ''),
+  coalesce(event ->> 'date', '') || '|' || coalesce(event ->> 'eventDescription', '') || '|' || location
+FROM scans
+ON CONFLICT DO NOTHING;
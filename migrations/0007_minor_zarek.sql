@@ -0,0 +1,15 @@
+CREATE TABLE "shipment_packages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shipment_tracking_number" text NOT NULL,
+	"tracking_number" text NOT NULL,
+	"carrier" text DEFAULT 'fedex' NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"status_description" text,
+	"last_event_time" text,
+	"last_event_description" text,
+	"last_location" text,
+	"delivered_at" timestamp,
+	"last_update" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "shipment_package_idx" ON "shipment_packages" USING btree ("shipment_tracking_number","tracking_number");
\ No newline at end of file
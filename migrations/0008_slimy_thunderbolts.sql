@@ -0,0 +1,13 @@
+CREATE TABLE "scheduler_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job" text NOT NULL,
+	"trigger" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"instance" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"summary" text,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE INDEX "scheduler_runs_job_started_at_idx" ON "scheduler_runs" USING btree ("job","started_at");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "sync_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" text NOT NULL,
+	"trigger" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"added" integer DEFAULT 0 NOT NULL,
+	"updated" integer DEFAULT 0 NOT NULL,
+	"archived" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"fedex_calls" integer DEFAULT 0 NOT NULL,
+	"fedex_cached" integer DEFAULT 0 NOT NULL,
+	"error_message" text
+);
+--> statement-breakpoint
+ALTER TABLE "sync_logs" ADD COLUMN "run_id" varchar;--> statement-breakpoint
+CREATE INDEX "sync_runs_started_at_idx" ON "sync_runs" USING btree ("started_at");--> statement-breakpoint
+CREATE INDEX "sync_logs_run_id_idx" ON "sync_logs" USING btree ("run_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "sync_runs" ADD COLUMN "sheets_api_calls" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "sheet_column_mappings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_id" varchar NOT NULL,
+	"field" text NOT NULL,
+	"header" text NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sheet_sources" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"role" text NOT NULL,
+	"spreadsheet_id" text,
+	"sheet_name" text NOT NULL,
+	"enabled" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "sheet_column_mappings_source_field_header_idx" ON "sheet_column_mappings" USING btree ("source_id","field","header");--> statement-breakpoint
+CREATE UNIQUE INDEX "sheet_sources_role_idx" ON "sheet_sources" USING btree ("role");
\ No newline at end of file
@@ -0,0 +1,48 @@
+-- Seed the sheet sources and column mappings the sync used to hard-code,
+-- so existing installs keep syncing exactly as before.
+INSERT INTO "sheet_sources" ("name", "role", "spreadsheet_id", "sheet_name")
+VALUES
+  ('Output', 'output', NULL, 'Output'),
+  ('ALL INBOUND', 'details', NULL, 'ALL INBOUND')
+ON CONFLICT ("role") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "sheet_column_mappings" ("source_id", "field", "header", "priority")
+SELECT s."id", m."field", m."header", m."priority"
+FROM "sheet_sources" s
+JOIN (VALUES
+  ('trackingNumber', 'trackingnumber', 0),
+  ('trackingNumber', 'tracking number', 1),
+  ('carrier', 'carrier', 0),
+  ('scheduledDelivery', 'expected_delivery', 0),
+  ('scheduledDelivery', 'expecteddelivery', 1),
+  ('scheduledDelivery', 'expected delivery', 2),
+  ('shipperCompany', 'sender', 0),
+  ('packageCount', 'package_count', 0),
+  ('packageWeight', 'package_weight', 0),
+  ('totalWeight', 'total_weight', 0),
+  ('serviceType', 'service_type', 0)
+) AS m("field", "header", "priority") ON true
+WHERE s."role" = 'output'
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "sheet_column_mappings" ("source_id", "field", "header", "priority")
+SELECT s."id", m."field", m."header", m."priority"
+FROM "sheet_sources" s
+JOIN (VALUES
+  ('trackingNumber', 'trackingnumber', 0),
+  ('trackingNumber', 'tracking number', 1),
+  ('masterTrackingNumber', 'master tracking number', 0),
+  ('scheduledDelivery', 'scheduled delivery date', 0),
+  ('shipperName', 'shipper name', 0),
+  ('shipperCompany', 'shipper company', 0),
+  ('recipientName', 'recipient contact name', 0),
+  ('recipientCompany', 'recipient company', 0),
+  ('packageCount', 'no. of packages', 0),
+  ('packageType', 'package type', 0),
+  ('packageWeight', 'pkg wt (lbs)', 0),
+  ('totalWeight', 'total wt (lbs)', 0),
+  ('direction', 'direction', 0),
+  ('serviceType', 'service type', 0)
+) AS m("field", "header", "priority") ON true
+WHERE s."role" = 'details'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,16 @@
+CREATE TABLE "sync_plans" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"applied_at" timestamp,
+	"run_id" varchar,
+	"added" integer DEFAULT 0 NOT NULL,
+	"updated" integer DEFAULT 0 NOT NULL,
+	"unchanged" integer DEFAULT 0 NOT NULL,
+	"archived" integer DEFAULT 0 NOT NULL,
+	"plan" text NOT NULL,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE INDEX "sync_plans_created_at_idx" ON "sync_plans" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "delivered_shipments" ADD COLUMN "archived_by_run_id" varchar;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "deleted_by_run_id" varchar;--> statement-breakpoint
+CREATE INDEX "shipments_deleted_by_run_id_idx" ON "shipments" USING btree ("deleted_by_run_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "import_profiles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"columns" text NOT NULL,
+	"weight_unit" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "import_profiles_name_idx" ON "import_profiles" USING btree ("name");
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Seed an import profile for the FedEx shipment export the bulk import used to read by position,
+-- so pasted/uploaded FedEx exports keep importing the same way.
+INSERT INTO "import_profiles" ("name", "columns", "weight_unit")
+VALUES (
+  'FedEx export',
+  '{"trackingNumber":["tracking number"],"status":["status"],"scheduledDelivery":["scheduled delivery date"],"shipperName":["shipper name"],"shipperCompany":["shipper company"],"recipientName":["recipient contact name"],"recipientCompany":["recipient company"],"masterTrackingNumber":["master tracking number"],"packageCount":["no. of packages"],"packageType":["package type"],"packageWeight":["pkg wt (lbs)"],"totalWeight":["total wt (lbs)"],"direction":["direction"],"serviceType":["service type"]}',
+  'LB'
+)
+ON CONFLICT ("name") DO NOTHING;
@@ -0,0 +1,31 @@
+CREATE TABLE "import_job_rows" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"row_number" integer NOT NULL,
+	"tracking_number" text,
+	"outcome" text NOT NULL,
+	"error" text,
+	"values" text,
+	"shipment" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "import_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" text NOT NULL,
+	"file_name" text,
+	"imported_by" text,
+	"profile_id" varchar,
+	"headers" text,
+	"status" text DEFAULT 'running' NOT NULL,
+	"total_rows" integer DEFAULT 0 NOT NULL,
+	"imported" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"rejected" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "import_job_rows_job_id_row_number_idx" ON "import_job_rows" USING btree ("job_id","row_number");--> statement-breakpoint
+CREATE INDEX "import_jobs_created_at_idx" ON "import_jobs" USING btree ("created_at");
\ No newline at end of file
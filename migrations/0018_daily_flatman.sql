@@ -0,0 +1,8 @@
+CREATE TABLE "field_precedence" (
+	"field" text PRIMARY KEY NOT NULL,
+	"sources" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "locked_fields" text[];--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "field_sources" text;
\ No newline at end of file
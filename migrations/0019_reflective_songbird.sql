@@ -0,0 +1,20 @@
+CREATE TABLE "scanning_session_scans" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"tracking_number" text NOT NULL,
+	"scanned_by" text,
+	"scanned_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scanning_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text,
+	"status" text DEFAULT 'open' NOT NULL,
+	"created_by" text,
+	"participants" text[] DEFAULT '{}'::text[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"closed_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "scanning_session_scans_session_tracking_number_idx" ON "scanning_session_scans" USING btree ("session_id","tracking_number");--> statement-breakpoint
+CREATE INDEX "scanning_sessions_status_idx" ON "scanning_sessions" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "scan_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tracking_number" text NOT NULL,
+	"raw_barcode" text NOT NULL,
+	"session_id" varchar NOT NULL,
+	"scanned_by" text,
+	"device" text,
+	"duplicate" integer DEFAULT 0 NOT NULL,
+	"removed_at" timestamp,
+	"scanned_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "scan_events_tracking_number_idx" ON "scan_events" USING btree ("tracking_number","scanned_at");--> statement-breakpoint
+CREATE INDEX "scan_events_session_id_idx" ON "scan_events" USING btree ("session_id","scanned_at");
\ No newline at end of file
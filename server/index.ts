@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { fedExService } from "./services/fedex";
+import { schedulerService } from "./services/scheduler";
+import { changeEvents } from "./services/changeEvents";
 import { setupVite, serveStatic, log } from "./vite";
 import dotenv from "dotenv";
 
@@ -77,5 +80,18 @@ app.use((req, res, next) => {
   const port = parseInt(process.env.PORT || '5000', 10);
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
+
+    // Pick up FedEx lookups left in the queue by the previous process
+    fedExService.resumeQueue();
+
+    // Browsers connected here also get changes made by the other instances
+    changeEvents.listenAcrossInstances().catch(error => {
+      console.error("Failed to listen for change events from other instances:", error);
+    });
+
+    // Sheet sync and carrier refresh run here rather than in the browser
+    schedulerService.start().catch(error => {
+      console.error("Failed to start scheduler:", error);
+    });
   });
 })();
@@ -1,16 +1,55 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertShipmentSchema, insertScannedSessionSchema } from "@shared/schema";
+import { insertShipmentSchema, insertScannedSessionSchema, FEDEX_QUEUE_STATUSES, type UpsertShipment } from "@shared/schema";
 import { z } from "zod";
-import { googleSheetsService } from "./services/googleSheets";
 import { fedExService } from "./services/fedex";
+import { getCarrierProvider, getCarrierStatuses, normalizeCarrier, resolveCarrier } from "./services/carriers";
+import { CARRIER_LABELS, isCarrier } from "@shared/carriers";
+import { runImportJob, type ImportJobItem, type RejectedImportRow } from "./services/importJobs";
+import { applyTrackingInfo } from "./services/trackingUpdates";
+import { collectContributions, loadFieldPrecedence, mergeContributions, valuesEnricher } from "./services/enrichment";
+import { refreshShipmentPackages, syncShipmentPackages } from "./services/packageTracking";
 import healthRoutes from "./routes/health";
+import webhookRoutes from "./routes/webhooks";
+import sheetSourceRoutes from "./routes/sheetSources";
+import importRoutes from "./routes/imports";
+import enrichmentRoutes from "./routes/enrichment";
+import scanningRoutes from "./routes/scanning";
+import eventRoutes from "./routes/events";
+import {
+  SyncConfigurationError,
+  SyncPlanError,
+  applySyncPlan,
+  assertSyncPlanApplicable,
+  planSheetSync,
+  resolveSheetSyncSources,
+} from "./services/shipmentSync";
+import { jobManager } from "./services/jobs";
+import { schedulerService } from "./services/scheduler";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register health check routes
   app.use(healthRoutes);
 
+  // Register carrier webhook routes (FedEx push notifications)
+  app.use(webhookRoutes);
+
+  // Register Google Sheets source and column mapping routes
+  app.use(sheetSourceRoutes);
+
+  // Register file upload import and import profile routes
+  app.use(importRoutes);
+
+  // Register field precedence, manual edit and field lock routes
+  app.use(enrichmentRoutes);
+
+  // Register live scanning session and scanning progress routes
+  app.use(scanningRoutes);
+
+  // Register the Server-Sent Events stream of data changes
+  app.use(eventRoutes);
+
   // Get all shipments
   app.get("/api/shipments", async (req, res) => {
     try {
@@ -46,86 +85,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Store active scanning session in memory (resets on server restart)
-  let activeScanningSession = new Set<string>();
-
-  // Update active scanning session
-  app.post("/api/scanning-progress/update", async (req, res) => {
-    try {
-      const { scannedNumbers } = req.body;
-
-      // Update the active session with currently scanned numbers
-      activeScanningSession = new Set(scannedNumbers || []);
-
-      res.json({
-        message: "Scanning session updated",
-        count: activeScanningSession.size
-      });
-    } catch (error) {
-      console.error("Error updating scanning session:", error);
-      res.status(500).json({ error: "Failed to update scanning session" });
-    }
-  });
-
-  // Get scanning progress statistics
-  app.get("/api/scanning-progress", async (req, res) => {
-    try {
-      const shipments = await storage.getAllShipments();
-
-      // Calculate total expected tracking numbers (master + children)
-      let totalExpected = 0;
-      let totalScanned = 0;
-
-      for (const shipment of shipments) {
-        // Count master tracking number
-        totalExpected += 1;
-
-        // Check if this tracking number is in the active scanning session
-        // OR if it's been marked as complete
-        if (activeScanningSession.has(shipment.trackingNumber) || shipment.manuallyCompleted === 1) {
-          totalScanned += 1;
-        }
-
-        // Count child tracking numbers if they exist
-        if (shipment.childTrackingNumbers && shipment.childTrackingNumbers.length > 0) {
-          for (const childTracking of shipment.childTrackingNumbers) {
-            totalExpected += 1;
-            // Check if child is in active session or if parent is complete
-            if (activeScanningSession.has(childTracking) || shipment.manuallyCompleted === 1) {
-              totalScanned += 1;
-            }
-          }
-        }
-      }
-
-      // Calculate packages by status
-      const pendingPackages = shipments
-        .filter(s => s.notScanned === 0 && s.manuallyCompleted === 0)
-        .reduce((sum, s) => sum + s.packageCount, 0);
-
-      const scannedNotComplete = shipments
-        .filter(s => s.notScanned === 0 && s.manuallyCompleted === 0)
-        .length;
-
-      const completedPackages = shipments
-        .filter(s => s.manuallyCompleted === 1)
-        .reduce((sum, s) => sum + s.packageCount, 0);
-
-      res.json({
-        totalExpected,
-        totalScanned,
-        percentageScanned: totalExpected > 0 ? Math.round((totalScanned / totalExpected) * 100) : 0,
-        pendingPackages,
-        scannedNotComplete,
-        completedPackages,
-        lastUpdate: new Date().toISOString()
-      });
-    } catch (error) {
-      console.error("Error getting scanning progress:", error);
-      res.status(500).json({ error: "Failed to get scanning progress" });
-    }
-  });
-
   // Update child tracking numbers for a shipment
   app.patch("/api/shipments/:trackingNumber/child-tracking-numbers", async (req, res) => {
     try {
@@ -147,14 +106,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedShipment = await storage.updateChildTrackingNumbers(trackingNumber, validTrackingNumbers);
-      res.json(updatedShipment);
+
+      // Track each listed piece individually (keeps deliveredPackageCount in step)
+      await syncShipmentPackages(updatedShipment);
+
+      res.json(await storage.getShipmentByTracking(trackingNumber));
     } catch (error) {
       console.error("Error updating child tracking numbers:", error);
       res.status(500).json({ error: "Failed to update child tracking numbers" });
     }
   });
 
+  // Get each piece of a multi-piece shipment with its own tracking status
+  app.get("/api/shipments/:trackingNumber/packages", async (req, res) => {
+    try {
+      const shipment = await storage.getShipmentByTracking(req.params.trackingNumber);
+      if (!shipment) {
+        return res.status(404).json({ error: "Shipment not found" });
+      }
+
+      // Children added by sync or import get their package rows on first view
+      const packages = await syncShipmentPackages(shipment);
+      res.json(packages);
+    } catch (error) {
+      console.error("Error getting shipment packages:", error);
+      res.status(500).json({ error: "Failed to get shipment packages" });
+    }
+  });
+
   // Update delivered package count for a shipment (for partial deliveries)
+  // Multi-piece shipments with tracked children have this re-derived on every refresh
   app.patch("/api/shipments/:trackingNumber/delivered-count", async (req, res) => {
     try {
       const { trackingNumber } = req.params;
@@ -202,9 +183,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/shipments", async (req, res) => {
     try {
       console.log("Received shipment data:", req.body);
-      const validatedData = insertShipmentSchema.parse(req.body);
+      const validatedData = insertShipmentSchema.parse({
+        ...req.body,
+        carrier: normalizeCarrier(req.body.carrier),
+      });
       console.log("Validated data:", validatedData);
-      const shipment = await storage.upsertShipment(validatedData);
+
+      // A manual entry is one more source; field precedence and locks decide what it changes
+      const existing = await storage.getShipmentByTracking(validatedData.trackingNumber);
+      const contributions = collectContributions(validatedData.trackingNumber, existing, [valuesEnricher("manual", validatedData)]);
+      const { values, fieldSources } = mergeContributions(existing, contributions, await loadFieldPrecedence());
+      const shipment = await storage.upsertShipment({
+        ...validatedData,
+        ...values,
+        // The stored carrier stays unless one was given; detection is only for new shipments
+        carrier: resolveCarrier(validatedData.trackingNumber, values.carrier),
+        fieldSources: JSON.stringify(fieldSources),
+      } as UpsertShipment);
       res.json(shipment);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -250,7 +245,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Bulk import shipments
+  // Bulk import shipments (recorded as an import job; X-Imported-By header names who ran it)
   app.post("/api/shipments/bulk", async (req, res) => {
     try {
       const shipments = req.body;
@@ -260,49 +255,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`📦 Bulk import: Receiving ${shipments.length} shipments`);
 
-      const results = [];
-      for (const shipmentData of shipments) {
-        try {
-          console.log(`🔍 Processing shipment:`, {
-            trackingNumber: shipmentData.trackingNumber,
-            childTrackingNumbers: shipmentData.childTrackingNumbers,
-            hasChildren: !!shipmentData.childTrackingNumbers,
-            childCount: shipmentData.childTrackingNumbers?.length || 0
-          });
-
-          const validatedData = insertShipmentSchema.parse(shipmentData);
-
-          console.log(`✅ Validated data:`, {
-            trackingNumber: validatedData.trackingNumber,
-            childTrackingNumbers: validatedData.childTrackingNumbers,
-            childCount: validatedData.childTrackingNumbers?.length || 0
-          });
-
-          const shipment = await storage.upsertShipment(validatedData);
-
-          console.log(`💾 Saved to DB:`, {
-            trackingNumber: shipment.trackingNumber,
-            childTrackingNumbers: shipment.childTrackingNumbers,
-            childCount: shipment.childTrackingNumbers?.length || 0
-          });
-
-          results.push({ success: true, shipment });
-        } catch (error) {
-          console.error(`❌ Error processing shipment ${shipmentData.trackingNumber}:`, error);
-          results.push({
-            success: false,
-            trackingNumber: shipmentData.trackingNumber,
-            error: error instanceof Error ? error.message : "Unknown error"
-          });
-        }
-      }
+      const { job, results: jobResults } = await runImportJob(
+        { source: "bulk", importedBy: req.get("X-Imported-By") },
+        shipments.map((shipmentData, index) => ({
+          shipment: shipmentData,
+          rows: [{ rowNumber: index + 1, trackingNumber: shipmentData?.trackingNumber || null, values: shipmentData }],
+        }))
+      );
+      const results = jobResults.map(result => result.success
+        ? { success: true, shipment: result.shipment }
+        : { success: false, trackingNumber: result.trackingNumber, error: result.error });
 
       const successCount = results.filter(r => r.success).length;
       res.json({
         total: shipments.length,
         successful: successCount,
         failed: shipments.length - successCount,
-        results
+        results,
+        jobId: job.id
       });
     } catch (error) {
       console.error("Error bulk importing shipments:", error);
@@ -310,235 +280,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Sync from Google Sheets
+  // Start a Google Sheets sync in the background (the scheduler also runs this every SHEET_SYNC_INTERVAL_MINUTES).
+  // Responds straight away with a job id; poll /api/jobs/:id for progress and per-row results.
+  // With ?dryRun=true (or {"dryRun": true}) nothing is synced: the plan is stored and returned for review
   app.post("/api/sync/google-sheets", async (req, res) => {
     try {
-      const spreadsheetId = process.env.GOOGLE_SHEET_ID;
-      if (!spreadsheetId) {
-        return res.status(400).json({
-          error: "GOOGLE_SHEET_ID not configured",
-          message: "Please set GOOGLE_SHEET_ID in your environment variables"
-        });
-      }
-
-      if (!googleSheetsService.isConfigured()) {
-        return res.status(400).json({
-          error: "Google Sheets service not configured",
-          message: "Please set GOOGLE_SERVICE_ACCOUNT_JSON in your environment variables"
-        });
+      if (req.query.dryRun === "true" || req.body?.dryRun === true) {
+        const plan = await planSheetSync();
+        return res.status(201).json({ ...plan, plan: JSON.parse(plan.plan) });
       }
 
-      console.log('🔄 Starting Google Sheets sync...');
+      await resolveSheetSyncSources();
 
-      // Read shipment data from Output sheet
-      const sheetData = await googleSheetsService.readShipmentData(spreadsheetId, "Output");
-      console.log(`📊 Found ${sheetData.length} shipments in Google Sheets`);
-
-      // Get current tracking numbers from the sheet
-      const sheetTrackingNumbers = sheetData.map(row => row.trackingnumber || row["tracking number"]);
-
-      // Get all shipments currently in database
-      const dbShipments = await storage.getAllShipments();
-
-      // Archive shipments that are no longer in the Output sheet (moved to Delivered History)
-      const shipmentsToArchive = dbShipments.filter(
-        dbShipment => !sheetTrackingNumbers.includes(dbShipment.trackingNumber)
-      );
-
-      for (const shipment of shipmentsToArchive) {
-        // Check if it's not already in delivered history
-        const existingDelivered = await storage.getDeliveredShipmentByTracking(shipment.trackingNumber);
-        if (!existingDelivered) {
-          // Archive to delivered history
-          await storage.createDeliveredShipment({
-            trackingNumber: shipment.trackingNumber,
-            status: shipment.status,
-            shipperCompany: shipment.shipperCompany || null,
-            recipientCompany: shipment.recipientCompany || null,
-            serviceType: shipment.serviceType || null,
-            packageWeight: shipment.packageWeight || null,
-            packageCount: shipment.packageCount,
-            expectedDelivery: shipment.scheduledDelivery || null,
-            actualDelivery: new Date(),
-          });
-          console.log(`📦 Archived shipment ${shipment.trackingNumber} to Delivered History - removed from Output sheet`);
-        }
-
-        // Delete from active shipments
-        await storage.deleteShipment(shipment.trackingNumber);
+      const job = schedulerService.startJob("sheet_sync", "manual");
+      res.status(202).json({ jobId: job.id, statusUrl: `/api/jobs/${job.id}`, job });
+    } catch (error) {
+      if (error instanceof SyncConfigurationError) {
+        return res.status(400).json({ error: error.error, message: error.message });
       }
+      console.error("Error starting Google Sheets sync:", error);
+      res.status(500).json({
+        error: "Failed to start Google Sheets sync",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      const results = [];
-      for (const row of sheetData) {
-        const trackingNumber = row.trackingnumber || row["tracking number"];
-        try {
-          // Check if we should skip FedEx API call (smart caching)
-          const existingShipment = dbShipments.find(s => s.trackingNumber === trackingNumber);
-          const shouldRefreshFromFedEx = shouldRefreshShipment(existingShipment);
-
-          // Look up additional data from ALL INBOUND sheet (read-only)
-          let inboundRow = null;
-          try {
-            inboundRow = await googleSheetsService.readShipmentDataByTracking(spreadsheetId, "ALL INBOUND", trackingNumber);
-          } catch (error) {
-            console.log(`Could not find tracking ${trackingNumber} in ALL INBOUND sheet`);
-          }
-
-          // Get data from FedEx API as source of truth for status/tracking
-          let fedexData = null;
-          if (shouldRefreshFromFedEx) {
-            console.log(`🔍 Fetching FedEx data for ${trackingNumber}`);
-            fedexData = await fedExService.getTrackingInfo(trackingNumber);
-          } else {
-            console.log(`⚡ Using cached data for ${trackingNumber} (${existingShipment?.status})`);
-            // Parse cached FedEx data
-            if (existingShipment?.fedexRawData) {
-              try {
-                fedexData = JSON.parse(existingShipment.fedexRawData);
-              } catch (e) {
-                console.warn(`Could not parse cached FedEx data for ${trackingNumber}`);
-              }
-            }
-          }
-
-          // Merge Output + ALL INBOUND + FedEx data
-          const shipmentData = {
-            trackingNumber: trackingNumber,
-            // FedEx as source of truth for status
-            status: fedexData?.status || existingShipment?.status || "Pending",
-            statusDescription: fedexData?.statusDescription || existingShipment?.statusDescription || null,
-            // Priority: Use latest tracking event time from FedEx first, then estimated delivery, then sheets
-            scheduledDelivery: fedexData?.lastEventTime || fedexData?.estimatedDelivery || inboundRow?.["scheduled delivery date"] || row.expected_delivery || row.expecteddelivery || row["expected delivery"] || null,
-            // ALL INBOUND data for shipper/recipient info
-            shipperName: inboundRow?.["shipper name"] || null,
-            shipperCompany: row.sender || inboundRow?.["shipper company"] || null,
-            recipientName: inboundRow?.["recipient contact name"] || null,
-            recipientCompany: inboundRow?.["recipient company"] || null,
-            masterTrackingNumber: inboundRow?.["master tracking number"] || null,
-            packageCount: row.package_count ? parseInt(row.package_count) : (inboundRow?.["no. of packages"] ? parseInt(inboundRow["no. of packages"]) : 1),
-            packageType: inboundRow?.["package type"] || null,
-            packageWeight: row.package_weight || inboundRow?.["pkg wt (lbs)"] || null,
-            totalWeight: row.total_weight || inboundRow?.["total wt (lbs)"] || null,
-            direction: inboundRow?.direction || null,
-            serviceType: row.service_type || inboundRow?.["service type"] || null,
-            googleSheetRow: null,
-            fedexRawData: fedexData ? JSON.stringify(fedexData) : existingShipment?.fedexRawData,
-            // DON'T include childTrackingNumbers in Google Sheets sync - preserve what's in DB
-            // Only update childTrackingNumbers if FedEx API explicitly returns new ones
-          };
-
-          // Add childTrackingNumbers ONLY if FedEx API returned new ones (not empty)
-          // Don't add if the only "child" is the master itself
-          if (fedexData?.childTrackingNumbers && fedexData.childTrackingNumbers.length > 0) {
-            // Filter out the master tracking number itself from children
-            const actualChildren = fedexData.childTrackingNumbers.filter(
-              (child: string) => child !== trackingNumber
-            );
-            // Only add if there are actual children (not just the master)
-            if (actualChildren.length > 0) {
-              (shipmentData as any).childTrackingNumbers = actualChildren;
-            }
-          }
-
-          const validatedData = insertShipmentSchema.parse(shipmentData);
-          const shipment = await storage.upsertShipment(validatedData);
-
-          // Log successful sync
-          await storage.createSyncLog({
-            source: "google_sheets",
-            trackingNumber,
-            success: 1,
-            errorMessage: null,
-            errorStack: null,
-            sheetData: JSON.stringify(row),
-            responseData: fedexData ? JSON.stringify(fedexData) : null,
-          });
-
-          results.push({
-            success: true,
-            shipment,
-            trackingNumber,
-            source: shouldRefreshFromFedEx ? "google_sheets_merged_with_fedex" : "google_sheets_with_cached_fedex",
-            childTrackingNumbers: fedexData?.childTrackingNumbers || []
-          });
-        } catch (error) {
-          console.error(`Error processing tracking number ${trackingNumber}:`, error);
-
-          // Log failed sync
-          await storage.createSyncLog({
-            source: "google_sheets",
-            trackingNumber,
-            success: 0,
-            errorMessage: error instanceof Error ? error.message : "Unknown error",
-            errorStack: error instanceof Error ? error.stack : undefined,
-            sheetData: JSON.stringify(row),
-            responseData: null,
-          });
-
-          results.push({
-            success: false,
-            trackingNumber,
-            sheetData: row,
-            error: error instanceof Error ? error.message : "Unknown error",
-            errorStack: error instanceof Error ? error.stack : undefined
-          });
-        }
+  // A stored dry-run sync plan
+  app.get("/api/sync/plans/:id", async (req, res) => {
+    try {
+      const plan = await storage.getSyncPlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ error: "Sync plan not found" });
       }
+      res.json({ ...plan, plan: JSON.parse(plan.plan) });
+    } catch (error) {
+      console.error("Error getting sync plan:", error);
+      res.status(500).json({ error: "Failed to get sync plan" });
+    }
+  });
 
-      const successCount = results.filter(r => r.success).length;
-      const queueStatus = fedExService.getQueueStatus();
+  // Apply a reviewed dry-run plan exactly as previewed (background job, like a sync)
+  app.post("/api/sync/plans/:id/apply", async (req, res) => {
+    try {
+      const plan = await storage.getSyncPlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ error: "Sync plan not found" });
+      }
+      await assertSyncPlanApplicable(plan);
 
-      console.log(`✅ Sync complete: ${successCount}/${sheetData.length} successful`);
+      // Unlike a plain sync, don't hand back a sync that's already running - it isn't this plan
+      if (jobManager.findRunning("sheet_sync")) {
+        return res.status(409).json({ error: "Sync already running", message: "Wait for the running sync to finish, then run a new preview" });
+      }
 
-      res.json({
-        total: sheetData.length,
-        successful: successCount,
-        failed: sheetData.length - successCount,
-        queueStatus,
-        results
-      });
+      const job = schedulerService.startJob("sheet_sync", "manual", (progress, trigger) =>
+        applySyncPlan(plan.id, progress, trigger)
+      );
+      res.status(202).json({ jobId: job.id, statusUrl: `/api/jobs/${job.id}`, job });
     } catch (error) {
-      console.error("Error syncing from Google Sheets:", error);
+      if (error instanceof SyncPlanError) {
+        return res.status(409).json({ error: error.error, message: error.message });
+      }
+      console.error("Error applying sync plan:", error);
       res.status(500).json({
-        error: "Failed to sync from Google Sheets",
+        error: "Failed to apply sync plan",
         message: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  /**
-   * Smart caching: Determine if shipment needs to be refreshed from FedEx API
-   */
-  function shouldRefreshShipment(shipment: any): boolean {
-    if (!shipment) return true; // New shipment, always fetch
-    if (!shipment.lastUpdate) return true; // No last update, always fetch
-
-    const now = Date.now();
-    const lastUpdate = new Date(shipment.lastUpdate).getTime();
-    const hoursSinceUpdate = (now - lastUpdate) / (1000 * 60 * 60);
-
-    // Don't refresh delivered or manually completed shipments
-    if (shipment.status === 'delivered' || shipment.manuallyCompleted === 1) {
-      return false;
-    }
-
-    // Refresh out_for_delivery every 30 minutes
-    if (shipment.status === 'out_for_delivery' && hoursSinceUpdate < 0.5) {
-      return false;
+  // Progress and results of a background job
+  app.get("/api/jobs/:id", async (req, res) => {
+    const job = jobManager.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
     }
-
-    // Refresh in_transit every 2 hours
-    if (shipment.status === 'in_transit' && hoursSinceUpdate < 2) {
-      return false;
-    }
-
-    // Refresh pending/exception more frequently (every hour)
-    if ((shipment.status === 'pending' || shipment.status === 'exception') && hoursSinceUpdate < 1) {
-      return false;
-    }
-
-    return true; // Refresh if none of the conditions above matched
-  }
+    res.json(job);
+  });
 
   // Validate tracking number with FedEx
   app.post("/api/fedex/validate/:trackingNumber", async (req, res) => {
@@ -562,14 +381,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Tracking information not found" });
       }
 
-      // Update shipment in storage with FedEx data
+      // Update shipment in storage with FedEx data (merged by field precedence)
       const shipment = await storage.getShipmentByTracking(trackingNumber);
       if (shipment) {
-        await storage.updateShipment(shipment.id, {
-          status: trackingInfo.status,
-          statusDescription: trackingInfo.statusDescription,
-          fedexRawData: JSON.stringify(trackingInfo),
-        });
+        await applyTrackingInfo(shipment, trackingInfo);
       }
 
       res.json(trackingInfo);
@@ -617,7 +432,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Bulk import shipments from CSV data
+  // Bulk import shipments from CSV data (recorded as an import job; X-Imported-By header names who ran it)
   app.post("/api/shipments/bulk-import", async (req, res) => {
     try {
       const { shipments } = req.body;
@@ -628,44 +443,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`📥 Bulk import request: ${shipments.length} shipments`);
 
-      const results = {
-        imported: 0,
-        errors: [] as Array<{ trackingNumber: string; error: string }>,
-      };
-
-      // Process each shipment
-      for (const shipmentData of shipments) {
-        try {
-          // Validate required fields
-          if (!shipmentData.trackingNumber) {
-            results.errors.push({
-              trackingNumber: 'unknown',
-              error: 'Missing tracking number',
-            });
-            continue;
-          }
-
-          // Ensure required fields have defaults
-          const processedData = {
-            ...shipmentData,
-            status: shipmentData.status || 'pending',
-            packageCount: shipmentData.packageCount || 1,
-          };
-
-          // Use upsert to update existing or create new
-          await storage.upsertShipment(processedData);
-          results.imported++;
-        } catch (error: any) {
-          console.error(`Failed to import ${shipmentData.trackingNumber}:`, error.message);
-          results.errors.push({
-            trackingNumber: shipmentData.trackingNumber || 'unknown',
-            error: error.message,
-          });
+      // Rows without a tracking number are rejected; the rest are upserted with defaults filled in
+      const items: ImportJobItem[] = [];
+      const rejected: RejectedImportRow[] = [];
+      shipments.forEach((shipmentData, index) => {
+        const row = { rowNumber: index + 1, trackingNumber: shipmentData?.trackingNumber || null, values: shipmentData };
+        if (!shipmentData?.trackingNumber) {
+          rejected.push({ ...row, error: "Missing tracking number" });
+        } else {
+          items.push({ shipment: shipmentData, rows: [row] });
         }
-      }
+      });
+
+      const { job, results } = await runImportJob(
+        { source: "bulk_import", importedBy: req.get("X-Imported-By") },
+        items,
+        rejected
+      );
+
+      const imported = results.filter(result => result.success).length;
+      const errors = [
+        ...rejected.map(row => ({ trackingNumber: "unknown", error: row.error })),
+        ...results.filter(result => !result.success).map(result => ({ trackingNumber: result.trackingNumber, error: result.error! })),
+      ];
 
-      console.log(`✅ Bulk import complete: ${results.imported} successful, ${results.errors.length} errors`);
-      res.json(results);
+      console.log(`✅ Bulk import complete: ${imported} successful, ${errors.length} errors`);
+      res.json({ imported, errors, jobId: job.id });
     } catch (error) {
       console.error("Bulk import error:", error);
       res.status(500).json({ error: "Failed to process bulk import" });
@@ -696,6 +499,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List sync runs (newest first) with their added/updated/archived/failed counts
+  app.get("/api/sync-runs", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const runs = await storage.getSyncRuns(limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error getting sync runs:", error);
+      res.status(500).json({ error: "Failed to get sync runs" });
+    }
+  });
+
+  // Get one sync run with the logs it wrote and the shipments it archived (still restorable)
+  app.get("/api/sync-runs/:id", async (req, res) => {
+    try {
+      const run = await storage.getSyncRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Sync run not found" });
+      }
+
+      const [logs, archivedShipments] = await Promise.all([
+        storage.getSyncLogsByRun(run.id),
+        storage.getShipmentsDeletedByRun(run.id),
+      ]);
+      res.json({ run, logs, archivedShipments });
+    } catch (error) {
+      console.error("Error getting sync run:", error);
+      res.status(500).json({ error: "Failed to get sync run" });
+    }
+  });
+
+  // Undo a sync run's archiving: its shipments become active again and leave delivered history
+  app.post("/api/sync-runs/:id/restore", async (req, res) => {
+    try {
+      const run = await storage.getSyncRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Sync run not found" });
+      }
+
+      const restored = await storage.restoreShipmentsDeletedByRun(run.id);
+      console.log(`♻️  Restored ${restored.length} shipment(s) archived by sync run ${run.id}`);
+
+      res.json({
+        message: `Restored ${restored.length} shipment(s)`,
+        count: restored.length,
+        restored: restored.map(shipment => shipment.trackingNumber),
+      });
+    } catch (error) {
+      console.error("Error restoring sync run:", error);
+      res.status(500).json({ error: "Failed to restore shipments" });
+    }
+  });
+
   // Get all scanned sessions
   app.get("/api/scanned-sessions", async (req, res) => {
     try {
@@ -896,6 +752,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get stored scan event history for a shipment (newest first)
+  app.get("/api/shipments/:trackingNumber/events", async (req, res) => {
+    try {
+      const events = await storage.getShipmentEvents(req.params.trackingNumber);
+      res.json(events);
+    } catch (error) {
+      console.error("Error getting shipment events:", error);
+      res.status(500).json({ error: "Failed to get shipment events" });
+    }
+  });
+
+  // Search scan events across shipments, e.g. ?eventType=AR&city=Memphis&from=2024-01-01&to=2024-01-02
+  app.get("/api/shipment-events", async (req, res) => {
+    try {
+      const parseDate = (value: unknown) => {
+        if (typeof value !== "string" || !value) return undefined;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+      };
+
+      const from = parseDate(req.query.from);
+      const to = parseDate(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ error: "from and to must be valid dates" });
+      }
+
+      const events = await storage.searchShipmentEvents({
+        trackingNumber: req.query.trackingNumber as string | undefined,
+        eventType: req.query.eventType as string | undefined,
+        city: req.query.city as string | undefined,
+        stateOrProvince: req.query.state as string | undefined,
+        from,
+        to,
+        limit: Math.min(parseInt(req.query.limit as string) || 500, 2000),
+      });
+
+      res.json(events);
+    } catch (error) {
+      console.error("Error searching shipment events:", error);
+      res.status(500).json({ error: "Failed to search shipment events" });
+    }
+  });
+
   // Refresh single shipment tracking data from FedEx
   app.post("/api/shipments/:trackingNumber/refresh", async (req, res) => {
     try {
@@ -906,20 +805,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Shipment not found" });
       }
 
-      console.log(`🔄 Refreshing tracking data for: ${trackingNumber}`);
+      console.log(`🔄 Refreshing tracking data for: ${trackingNumber} (${shipment.carrier})`);
 
-      // Check if FedEx service is configured
-      if (!fedExService.isConfigured()) {
-        console.warn("FedEx API not configured - skipping live refresh");
+      // Check if the shipment's carrier has a configured integration
+      const provider = getCarrierProvider(shipment.carrier);
+      if (!provider || !provider.isConfigured()) {
+        const carrierLabel = isCarrier(shipment.carrier) ? CARRIER_LABELS[shipment.carrier] : shipment.carrier;
+        console.warn(`${carrierLabel} API not configured - skipping live refresh`);
         return res.json({
-          message: "FedEx API not configured - using cached data",
+          message: `${carrierLabel} API not configured - using cached data`,
           shipment: shipment,
           fedexData: shipment.fedexRawData ? JSON.parse(shipment.fedexRawData) : null
         });
       }
 
-      // Get live tracking data from FedEx (will be queued automatically)
-      const fedexData = await fedExService.getTrackingInfo(trackingNumber);
+      // Get live tracking data from the carrier (will be queued automatically)
+      const fedexData = await provider.getTrackingInfo(trackingNumber);
 
       if (!fedexData) {
         console.warn(`No tracking data returned from FedEx for: ${trackingNumber}`);
@@ -931,7 +832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      console.log(`✅ Successfully retrieved FedEx data for: ${trackingNumber}`);
+      console.log(`✅ Successfully retrieved ${shipment.carrier} data for: ${trackingNumber}`);
       console.log(`📦 Status: ${fedexData.status}`);
       console.log(`📅 Estimated Delivery: ${fedexData.estimatedDelivery}`);
       console.log(`📍 Events: ${fedexData.events?.length || 0}`);
@@ -939,42 +840,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`👶 Child Tracking Numbers: ${fedexData.childTrackingNumbers.join(', ')}`);
       }
 
-      // Update shipment with latest FedEx data
-      // IMPORTANT: Only update childTrackingNumbers if FedEx returns NEW ones (not empty)
-      const updates: any = {
-        status: fedexData.status || shipment.status,
-        statusDescription: fedexData.statusDescription || shipment.statusDescription,
-        // Use latest event time if available, otherwise use estimated delivery
-        scheduledDelivery: fedexData.lastEventTime || fedexData.estimatedDelivery || shipment.scheduledDelivery,
-        fedexRawData: JSON.stringify(fedexData),
-      };
+      // Update shipment with latest carrier data (keeps bulk imported children unless real ones come back)
+      const refreshedShipment = await applyTrackingInfo(shipment, fedexData);
 
-      // Only update childTrackingNumbers if FedEx API explicitly returns new ones
-      // Don't update if the only "child" is the master itself (useless data)
-      // This preserves bulk imported child tracking numbers
-      if (fedexData.childTrackingNumbers && fedexData.childTrackingNumbers.length > 0) {
-        // Filter out the master tracking number itself from children
-        const actualChildren = fedexData.childTrackingNumbers.filter(
-          (child: string) => child !== trackingNumber
-        );
-        // Only update if there are actual children (not just the master)
-        if (actualChildren.length > 0) {
-          updates.childTrackingNumbers = actualChildren;
-        }
+      // Track each child piece too, deriving deliveredPackageCount from their statuses
+      if (refreshedShipment) {
+        await refreshShipmentPackages([refreshedShipment]);
       }
 
-      await storage.updateShipment(shipment.id, updates);
-
       console.log(`✅ Updated shipment ${trackingNumber} with status: ${fedexData.status}`);
 
       // Get updated shipment
       const updatedShipment = await storage.getShipmentByTracking(trackingNumber);
 
       res.json({
-        message: "Tracking information refreshed from FedEx",
+        message: `Tracking information refreshed from ${isCarrier(shipment.carrier) ? CARRIER_LABELS[shipment.carrier] : shipment.carrier}`,
         shipment: updatedShipment,
         fedexData,
-        queueStatus: fedExService.getQueueStatus()
+        queueStatus: await fedExService.getQueueStatus()
       });
     } catch (error) {
       console.error("❌ Error refreshing shipment:", error);
@@ -989,77 +872,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get FedEx API queue status
-  app.get("/api/fedex/queue-status", (req, res) => {
-    const status = fedExService.getQueueStatus();
-    res.json({
-      ...status,
-      message: status.isProcessing
-        ? `Processing ${status.queueLength} requests...`
-        : status.queueLength > 0
-        ? `${status.queueLength} requests queued`
-        : "Queue empty"
-    });
+  // List carriers and whether each has a configured integration
+  app.get("/api/carriers", (req, res) => {
+    res.json(getCarrierStatuses());
   });
 
-  // Refresh all active shipments from FedEx (for auto-updates)
-  app.post("/api/shipments/refresh-all-active", async (req, res) => {
+  // Get FedEx API queue status with per-item detail
+  // ?status=pending,in_flight,failed,done picks which items to list (default: everything unfinished or failed)
+  app.get("/api/fedex/queue-status", async (req, res) => {
     try {
-      if (!fedExService.isConfigured()) {
-        return res.status(400).json({
-          error: "FedEx API not configured",
-          refreshed: 0
-        });
-      }
+      const requested = typeof req.query.status === "string"
+        ? req.query.status.split(",").map(s => s.trim())
+        : ["pending", "in_flight", "failed"];
+      const statuses = FEDEX_QUEUE_STATUSES.filter(status => requested.includes(status));
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
 
-      const shipments = await storage.getAllShipments();
+      const status = await fedExService.getQueueStatus();
+      const items = await storage.getFedExQueueItems(statuses, limit);
 
-      // Only refresh shipments that aren't delivered or manually completed
-      const activeShipments = shipments.filter(s =>
-        s.status !== 'delivered' &&
-        s.status !== 'Delivered' &&
-        s.manuallyCompleted !== 1
-      );
+      res.json({
+        ...status,
+        items,
+        message: status.isProcessing
+          ? `Processing ${status.queueLength} requests...`
+          : status.queueLength > 0
+          ? `${status.queueLength} requests queued`
+          : "Queue empty"
+      });
+    } catch (error) {
+      console.error("Error getting FedEx queue status:", error);
+      res.status(500).json({ error: "Failed to get queue status" });
+    }
+  });
 
-      console.log(`🔄 Auto-refreshing ${activeShipments.length} active shipments from FedEx`);
-
-      let refreshedCount = 0;
-      const errors = [];
-
-      for (const shipment of activeShipments) {
-        try {
-          const fedexData = await fedExService.getTrackingInfo(shipment.trackingNumber);
-
-          if (fedexData) {
-            await storage.updateShipment(shipment.id, {
-              status: fedexData.status,
-              statusDescription: fedexData.statusDescription,
-              scheduledDelivery: fedexData.lastEventTime || fedexData.estimatedDelivery || shipment.scheduledDelivery,
-              fedexRawData: JSON.stringify(fedexData),
-            });
-            refreshedCount++;
-          }
-        } catch (error) {
-          console.error(`Failed to refresh ${shipment.trackingNumber}:`, error);
-          errors.push(shipment.trackingNumber);
-        }
+  // Refresh all active shipments from their carriers (the scheduler also runs this every SHIPMENT_REFRESH_INTERVAL_MINUTES)
+  app.post("/api/shipments/refresh-all-active", async (req, res) => {
+    try {
+      const result = await schedulerService.runJob("shipment_refresh", "manual");
+      if (!result) {
+        return res.status(409).json({ error: "Refresh already running", refreshed: 0 });
       }
 
-      console.log(`✅ Refreshed ${refreshedCount}/${activeShipments.length} shipments`);
-
-      res.json({
-        message: `Refreshed ${refreshedCount} active shipments`,
-        total: activeShipments.length,
-        refreshed: refreshedCount,
-        errors: errors.length,
-        timestamp: new Date().toISOString()
-      });
+      res.json(result);
     } catch (error) {
+      if (error instanceof SyncConfigurationError) {
+        return res.status(400).json({ error: error.error, refreshed: 0 });
+      }
       console.error("Error refreshing active shipments:", error);
       res.status(500).json({ error: "Failed to refresh shipments" });
     }
   });
 
+  // Next/last run of the background sync jobs
+  app.get("/api/scheduler/status", async (req, res) => {
+    try {
+      const jobs = await schedulerService.getStatus();
+      res.json({ jobs });
+    } catch (error) {
+      console.error("Error getting scheduler status:", error);
+      res.status(500).json({ error: "Failed to get scheduler status" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
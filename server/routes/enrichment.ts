@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { insertShipmentSchema } from '@shared/schema';
+import {
+  DEFAULT_FIELD_PRECEDENCE,
+  ENRICHED_FIELDS,
+  ENRICHMENT_SOURCES,
+  type EnrichedField,
+} from '@shared/enrichment';
+import { storage } from '../storage';
+import { resolveCarrier } from '../services/carriers';
+import { loadFieldPrecedence, recordManualEdit } from '../services/enrichment';
+
+const router = Router();
+
+const fieldSchema = z.enum(ENRICHED_FIELDS);
+
+const precedenceSchema = z.object({
+  sources: z
+    .array(z.enum(ENRICHMENT_SOURCES))
+    .min(1)
+    .refine(sources => new Set(sources).size === sources.length, 'Each source can only be listed once'),
+});
+
+// Enriched fields a manual edit can set; `lock` (default true) keeps syncs from changing them afterwards
+const manualEditSchema = insertShipmentSchema
+  .pick({
+    status: true,
+    statusDescription: true,
+    scheduledDelivery: true,
+    carrier: true,
+    masterTrackingNumber: true,
+    childTrackingNumbers: true,
+    shipperName: true,
+    shipperCompany: true,
+    recipientName: true,
+    recipientCompany: true,
+    packageCount: true,
+    packageType: true,
+    packageWeight: true,
+    totalWeight: true,
+    direction: true,
+    serviceType: true,
+  } satisfies Record<EnrichedField, true>)
+  .partial()
+  .extend({ lock: z.boolean().optional() });
+
+const lockedFieldsSchema = z.object({
+  fields: z.array(fieldSchema),
+});
+
+// Effective field precedence, the defaults, and which fields have been changed from them
+router.get('/api/field-precedence', async (req, res) => {
+  try {
+    const [precedence, overrides] = await Promise.all([loadFieldPrecedence(), storage.getFieldPrecedence()]);
+    res.json({
+      precedence,
+      defaults: DEFAULT_FIELD_PRECEDENCE,
+      customized: overrides.map(row => row.field),
+    });
+  } catch (error) {
+    console.error('Error getting field precedence:', error);
+    res.status(500).json({ error: 'Failed to get field precedence' });
+  }
+});
+
+// Set the source order for one field
+router.put('/api/field-precedence/:field', async (req, res) => {
+  try {
+    const field = fieldSchema.parse(req.params.field);
+    const { sources } = precedenceSchema.parse(req.body);
+    await storage.setFieldPrecedence(field, sources);
+    console.log(`🔀 Field precedence for ${field}: ${sources.join(' > ')}`);
+    res.json({ field, sources });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error updating field precedence:', error);
+    res.status(500).json({ error: 'Failed to update field precedence' });
+  }
+});
+
+// Go back to the default source order for one field
+router.delete('/api/field-precedence/:field', async (req, res) => {
+  try {
+    const field = fieldSchema.parse(req.params.field);
+    await storage.deleteFieldPrecedence(field);
+    res.json({ field, sources: DEFAULT_FIELD_PRECEDENCE[field] });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error resetting field precedence:', error);
+    res.status(500).json({ error: 'Failed to reset field precedence' });
+  }
+});
+
+// Manually edit shipment fields. The edit always applies and, unless lock=false, locks the edited fields.
+router.patch('/api/shipments/:trackingNumber', async (req, res) => {
+  try {
+    const { lock = true, ...edits } = manualEditSchema.parse(req.body);
+    const fields = Object.keys(edits) as EnrichedField[];
+    if (fields.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    const shipment = await storage.getShipmentByTracking(req.params.trackingNumber);
+    if (!shipment) {
+      return res.status(404).json({ error: 'Shipment not found' });
+    }
+
+    const updated = await storage.updateShipment(shipment.id, {
+      ...edits,
+      ...(edits.carrier !== undefined && { carrier: resolveCarrier(shipment.trackingNumber, edits.carrier) }),
+      fieldSources: JSON.stringify(recordManualEdit(shipment, fields)),
+      ...(lock && { lockedFields: Array.from(new Set([...(shipment.lockedFields || []), ...fields])) }),
+    });
+    console.log(`✏️  Manual edit of ${shipment.trackingNumber}: ${fields.join(', ')}${lock ? ' (locked)' : ''}`);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid shipment data', details: error.errors });
+    }
+    console.error('Error editing shipment:', error);
+    res.status(500).json({ error: 'Failed to edit shipment' });
+  }
+});
+
+// Replace the set of locked fields of a shipment
+router.put('/api/shipments/:trackingNumber/locked-fields', async (req, res) => {
+  try {
+    const { fields } = lockedFieldsSchema.parse(req.body);
+    const updated = await storage.setShipmentLockedFields(req.params.trackingNumber, Array.from(new Set(fields)));
+    if (!updated) {
+      return res.status(404).json({ error: 'Shipment not found' });
+    }
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error updating locked fields:', error);
+    res.status(500).json({ error: 'Failed to update locked fields' });
+  }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { changeEvents } from '../services/changeEvents';
+
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// Server-Sent Events stream of data changes (shipments, scans, scanning sessions, sync runs, ...)
+router.get('/api/events', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  // Browsers reconnect on their own; after a few seconds if the server went away
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = changeEvents.subscribe(event => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -0,0 +1,351 @@
+import { Router, type RequestHandler } from 'express';
+import { tmpdir } from 'os';
+import { readFile, unlink } from 'fs/promises';
+import multer from 'multer';
+import { z } from 'zod';
+import type { ImportProfile } from '@shared/schema';
+import { IMPORT_FIELDS, type ImportColumns, type ImportField } from '@shared/importProfiles';
+import { normalizeHeader } from '@shared/sheetMappings';
+import { storage } from '../storage';
+import {
+  ImportFormatError,
+  buildImportReport,
+  importFile,
+  readUploadedRows,
+} from '../services/fileImport';
+import { ImportJobError, buildRejectedRowsCsv, rerunFailedRows } from '../services/importJobs';
+import { importAsnFile, toAsnImportJobInput } from '../services/ediImport';
+import { HotFolderConfigurationError } from '../services/hotFolder';
+import { EmailInboxConfigurationError } from '../services/emailIngest';
+import { schedulerService } from '../services/scheduler';
+import { parseAsn856 } from '../services/asn856';
+import { EdiFormatError } from '../services/x12';
+
+const router = Router();
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024; // 25 MB
+
+// Uploads go to a temp file and are stream-parsed from there, then removed
+const upload = multer({ dest: tmpdir(), limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } });
+
+const uploadFile: RequestHandler = (req, res, next) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({ error: 'Invalid upload', message: error.message });
+    }
+    next(error);
+  });
+};
+
+// { trackingNumber: ["Tracking Number"], ... } - headers in priority order
+const importProfileSchema = z.object({
+  name: z.string().trim().min(1),
+  weightUnit: z.string().trim().nullable().optional().transform(value => value || null),
+  columns: z
+    .record(z.enum(IMPORT_FIELDS), z.array(z.string()))
+    .transform((columns) => {
+      const normalized: ImportColumns = {};
+      for (const [field, headers] of Object.entries(columns) as Array<[ImportField, string[]]>) {
+        const cleaned = Array.from(new Set(headers.map(normalizeHeader).filter(Boolean)));
+        if (cleaned.length > 0) normalized[field] = cleaned;
+      }
+      return normalized;
+    })
+    .refine(columns => !!columns.trackingNumber?.length, 'Map at least one tracking number column'),
+});
+
+function serializeProfile(profile: ImportProfile) {
+  return { ...profile, columns: JSON.parse(profile.columns) as ImportColumns };
+}
+
+async function isNameTaken(name: string, exceptId?: string): Promise<boolean> {
+  const profiles = await storage.getImportProfiles();
+  return profiles.some(profile => profile.id !== exceptId && profile.name.toLowerCase() === name.toLowerCase());
+}
+
+// List import profiles
+router.get('/api/import-profiles', async (req, res) => {
+  try {
+    const profiles = await storage.getImportProfiles();
+    res.json(profiles.map(serializeProfile));
+  } catch (error) {
+    console.error('Error getting import profiles:', error);
+    res.status(500).json({ error: 'Failed to get import profiles' });
+  }
+});
+
+// Create an import profile
+router.post('/api/import-profiles', async (req, res) => {
+  try {
+    const profile = importProfileSchema.parse(req.body);
+    if (await isNameTaken(profile.name)) {
+      return res.status(409).json({ error: `An import profile named "${profile.name}" already exists` });
+    }
+
+    const created = await storage.createImportProfile(profile);
+    res.status(201).json(serializeProfile(created));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error creating import profile:', error);
+    res.status(500).json({ error: 'Failed to create import profile' });
+  }
+});
+
+// Update an import profile
+router.put('/api/import-profiles/:id', async (req, res) => {
+  try {
+    const profile = importProfileSchema.parse(req.body);
+    if (await isNameTaken(profile.name, req.params.id)) {
+      return res.status(409).json({ error: `An import profile named "${profile.name}" already exists` });
+    }
+
+    const updated = await storage.updateImportProfile(req.params.id, profile);
+    if (!updated) {
+      return res.status(404).json({ error: 'Import profile not found' });
+    }
+    res.json(serializeProfile(updated));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error updating import profile:', error);
+    res.status(500).json({ error: 'Failed to update import profile' });
+  }
+});
+
+// Delete an import profile
+router.delete('/api/import-profiles/:id', async (req, res) => {
+  try {
+    const deleted = await storage.deleteImportProfile(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Import profile not found' });
+    }
+    res.json({ message: 'Import profile deleted' });
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    res.status(500).json({ error: 'Failed to delete import profile' });
+  }
+});
+
+// Upload a CSV, TSV or XLSX file (form field "file") and map it with an import profile ("profileId").
+// Returns the row-level validation report; with commit=true the valid shipments are also imported
+// and the import is recorded as an import job ("importedBy" names who ran it).
+router.post('/api/imports/upload', uploadFile, async (req, res) => {
+  const file = req.file;
+  try {
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded', message: 'Send the file in a multipart "file" field' });
+    }
+
+    const profileId = typeof req.body.profileId === 'string' ? req.body.profileId : '';
+    const profile = profileId ? await storage.getImportProfile(profileId) : undefined;
+    if (!profile) {
+      return res.status(400).json({ error: 'Import profile not found', message: 'Choose an import profile for this file' });
+    }
+
+    console.log(`📁 Import upload: ${file.originalname} (${file.size} bytes) with profile "${profile.name}"`);
+    if (req.body.commit !== 'true') {
+      const report = await buildImportReport(
+        await readUploadedRows(file.path, file.originalname),
+        file.originalname,
+        profile
+      );
+      return res.json({ report, commit: null });
+    }
+
+    const { report, job, results } = await importFile(file.path, file.originalname, profile, {
+      source: 'upload',
+      importedBy: typeof req.body.importedBy === 'string' ? req.body.importedBy : null,
+    });
+
+    const imported = results.filter(result => result.success).length;
+    res.json({
+      report,
+      commit: {
+        jobId: job.id,
+        imported,
+        failed: results.length - imported,
+        results: results.map(({ trackingNumber, success, error }) => ({ trackingNumber, success, error })),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return res.status(400).json({ error: error.error, message: error.message });
+    }
+    console.error('Error importing uploaded file:', error);
+    res.status(500).json({
+      error: 'Failed to read uploaded file',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    if (file) {
+      await unlink(file.path).catch(err => console.warn(`Could not remove upload ${file.path}:`, err));
+    }
+  }
+});
+
+// Upload an X12 856 Advance Ship Notice (form field "file"). Returns the parsed ASN and the shipments
+// it describes; with commit=true they are also imported as an "edi" import job.
+router.post('/api/imports/edi', uploadFile, async (req, res) => {
+  const file = req.file;
+  try {
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded', message: 'Send the file in a multipart "file" field' });
+    }
+
+    console.log(`📁 EDI upload: ${file.originalname} (${file.size} bytes)`);
+    const content = await readFile(file.path, 'utf8');
+
+    if (req.body.commit !== 'true') {
+      const document = parseAsn856(content);
+      const { items, rejected } = toAsnImportJobInput(document);
+      return res.json({
+        document,
+        shipments: items.map(item => item.shipment),
+        rejected: rejected.map(({ rowNumber, trackingNumber, error }) => ({ rowNumber, trackingNumber, error })),
+        commit: null,
+      });
+    }
+
+    const { document, job, results } = await importAsnFile(content, {
+      source: 'edi',
+      fileName: file.originalname,
+      importedBy: typeof req.body.importedBy === 'string' ? req.body.importedBy : null,
+    });
+    const imported = results.filter(result => result.success).length;
+    res.json({
+      document,
+      commit: {
+        jobId: job.id,
+        imported,
+        failed: results.length - imported,
+        rejected: job.rejected,
+        results: results.map(({ trackingNumber, success, error }) => ({ trackingNumber, success, error })),
+      },
+    });
+  } catch (error) {
+    if (error instanceof EdiFormatError) {
+      return res.status(400).json({ error: error.error, message: error.message });
+    }
+    console.error('Error importing EDI file:', error);
+    res.status(500).json({
+      error: 'Failed to import EDI file',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    if (file) {
+      await unlink(file.path).catch(err => console.warn(`Could not remove upload ${file.path}:`, err));
+    }
+  }
+});
+
+// Import the files waiting in the hot folder now instead of at the next scheduled check
+router.post('/api/imports/hot-folder/run', async (req, res) => {
+  try {
+    const result = await schedulerService.runJob('hot_folder', 'manual');
+    if (!result) {
+      return res.status(409).json({ error: 'Hot folder check already running' });
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof HotFolderConfigurationError) {
+      return res.status(400).json({ error: error.error, message: error.message });
+    }
+    console.error('Error reading hot folder:', error);
+    res.status(500).json({
+      error: 'Failed to read hot folder',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Read the email inbox for FedEx shipment notifications now instead of at the next scheduled check
+router.post('/api/imports/email/run', async (req, res) => {
+  try {
+    const result = await schedulerService.runJob('email_ingest', 'manual');
+    if (!result) {
+      return res.status(409).json({ error: 'Email ingestion already running' });
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof EmailInboxConfigurationError) {
+      return res.status(400).json({ error: error.error, message: error.message });
+    }
+    console.error('Error reading email inbox:', error);
+    res.status(500).json({
+      error: 'Failed to read email inbox',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// List recent import jobs, newest first
+router.get('/api/import-jobs', async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    res.json(await storage.getImportJobs(limit));
+  } catch (error) {
+    console.error('Error getting import jobs:', error);
+    res.status(500).json({ error: 'Failed to get import jobs' });
+  }
+});
+
+// An import job with the outcome of every row
+router.get('/api/import-jobs/:id', async (req, res) => {
+  try {
+    const job = await storage.getImportJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+    const rows = await storage.getImportJobRows(job.id);
+    res.json({ job, rows });
+  } catch (error) {
+    console.error('Error getting import job:', error);
+    res.status(500).json({ error: 'Failed to get import job' });
+  }
+});
+
+// Save an import job's failed rows again
+router.post('/api/import-jobs/:id/rerun', async (req, res) => {
+  try {
+    const result = await rerunFailedRows(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+    const imported = result.results.filter(r => r.success).length;
+    res.json({
+      job: result.job,
+      imported,
+      failed: result.results.length - imported,
+      results: result.results.map(({ trackingNumber, success, error }) => ({ trackingNumber, success, error })),
+    });
+  } catch (error) {
+    if (error instanceof ImportJobError) {
+      return res.status(409).json({ error: error.error, message: error.message });
+    }
+    console.error('Error re-running import job:', error);
+    res.status(500).json({ error: 'Failed to re-run import job' });
+  }
+});
+
+// Download an import job's rejected and failed rows as CSV
+router.get('/api/import-jobs/:id/rejected.csv', async (req, res) => {
+  try {
+    const job = await storage.getImportJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+    const csv = await buildRejectedRowsCsv(job);
+    const baseName = (job.fileName || `import-${job.id}`).replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}-rejected.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error('Error building rejected rows CSV:', error);
+    res.status(500).json({ error: 'Failed to build rejected rows CSV' });
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { SCANNING_SESSION_STATUSES } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  ScanningSessionError,
+  addScans,
+  closeScanningSession,
+  getDuplicateScanReport,
+  getScanHistory,
+  getScanningProgress,
+  getScanningSessionDetails,
+  joinScanningSession,
+  removeScan,
+} from '../services/scanningSessions';
+
+const router = Router();
+
+// Receivers give their name once per browser; there are no user accounts
+const nameSchema = z.string().trim().max(100).nullable().optional().transform(value => value || null);
+
+const createSessionSchema = z.object({
+  name: nameSchema,
+  createdBy: nameSchema,
+});
+
+const joinSessionSchema = z.object({
+  participant: nameSchema,
+});
+
+// Each scan is the tracking number and the barcode it was read from (defaults to the number)
+const addScansSchema = z.object({
+  scans: z
+    .array(z.object({
+      trackingNumber: z.string().trim().min(1),
+      rawBarcode: z.string().trim().optional(),
+    }))
+    .min(1)
+    .max(5000)
+    .transform(scans => scans.map(scan => ({ trackingNumber: scan.trackingNumber, rawBarcode: scan.rawBarcode || scan.trackingNumber }))),
+  scannedBy: nameSchema,
+  device: nameSchema,
+});
+
+const scanEventSearchSchema = z.object({
+  trackingNumber: z.string().trim().optional(),
+  sessionId: z.string().trim().optional(),
+  scannedBy: z.string().trim().optional(),
+  device: z.string().trim().optional(),
+  duplicate: z.enum(['true', 'false']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(2000).default(500),
+});
+
+const listSessionsSchema = z.object({
+  status: z.enum([...SCANNING_SESSION_STATUSES, 'all']).default('open'),
+});
+
+function sendError(res: Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof ScanningSessionError) {
+    return res.status(error.status).json({ error: error.error, message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ error: `Failed ${action}` });
+}
+
+// List scanning sessions (open ones by default) with how many numbers each has
+router.get('/api/scanning-sessions', async (req, res) => {
+  try {
+    const { status } = listSessionsSchema.parse(req.query);
+    res.json(await storage.getScanningSessions(status === 'all' ? undefined : status));
+  } catch (error) {
+    sendError(res, error, 'to list scanning sessions');
+  }
+});
+
+// Start a new scanning session; its creator is its first participant
+router.post('/api/scanning-sessions', async (req, res) => {
+  try {
+    const session = await storage.createScanningSession(createSessionSchema.parse(req.body));
+    console.log(`📷 Scanning session ${session.name || session.id} started${session.createdBy ? ` by ${session.createdBy}` : ''}`);
+    res.status(201).json({ ...session, scans: [], duplicates: [] });
+  } catch (error) {
+    sendError(res, error, 'to create scanning session');
+  }
+});
+
+// A session with all of its scans
+router.get('/api/scanning-sessions/:id', async (req, res) => {
+  try {
+    res.json(await getScanningSessionDetails(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'to get scanning session');
+  }
+});
+
+router.post('/api/scanning-sessions/:id/join', async (req, res) => {
+  try {
+    const { participant } = joinSessionSchema.parse(req.body ?? {});
+    res.json(await joinScanningSession(req.params.id, participant));
+  } catch (error) {
+    sendError(res, error, 'to join scanning session');
+  }
+});
+
+router.post('/api/scanning-sessions/:id/close', async (req, res) => {
+  try {
+    res.json(await closeScanningSession(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'to close scanning session');
+  }
+});
+
+// Add scans; `added` leaves out numbers that were already in the session, which come back in `duplicates`
+router.post('/api/scanning-sessions/:id/scans', async (req, res) => {
+  try {
+    const { scans, scannedBy, device } = addScansSchema.parse(req.body);
+    const { added, duplicates } = await addScans(req.params.id, scans, { scannedBy, device });
+    res.json({ added, duplicates, count: added.length });
+  } catch (error) {
+    sendError(res, error, 'to add scans');
+  }
+});
+
+router.delete('/api/scanning-sessions/:id/scans/:trackingNumber', async (req, res) => {
+  try {
+    const removed = await removeScan(req.params.id, req.params.trackingNumber);
+    if (!removed) {
+      return res.status(404).json({ error: 'Tracking number not scanned in this session' });
+    }
+    res.json({ message: 'Scan removed' });
+  } catch (error) {
+    sendError(res, error, 'to remove scan');
+  }
+});
+
+// Numbers scanned more than once in a session, with every scan of them
+router.get('/api/scanning-sessions/:id/duplicates', async (req, res) => {
+  try {
+    res.json(await getDuplicateScanReport(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'to get duplicate scans');
+  }
+});
+
+// Search the scan log, e.g. ?sessionId=...&duplicate=true or ?scannedBy=Maria&from=2026-10-19
+router.get('/api/scan-events', async (req, res) => {
+  try {
+    const { duplicate, ...filters } = scanEventSearchSchema.parse(req.query);
+    res.json(await storage.searchScanEvents({ ...filters, duplicatesOnly: duplicate === 'true' }));
+  } catch (error) {
+    sendError(res, error, 'to search scan events');
+  }
+});
+
+// When a package was scanned in: first and last scan and every scan of it, in any session
+router.get('/api/scan-events/:trackingNumber', async (req, res) => {
+  try {
+    res.json(await getScanHistory(req.params.trackingNumber));
+  } catch (error) {
+    sendError(res, error, 'to get scan history');
+  }
+});
+
+// Scanning progress for ?sessionId=, or for all open sessions together
+router.get('/api/scanning-progress', async (req, res) => {
+  try {
+    const sessionId = typeof req.query.sessionId === 'string' && req.query.sessionId ? req.query.sessionId : undefined;
+    res.json(await getScanningProgress(sessionId));
+  } catch (error) {
+    sendError(res, error, 'to get scanning progress');
+  }
+});
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SHEET_FIELDS, normalizeHeader, type SheetField } from '@shared/sheetMappings';
+import { storage } from '../storage';
+import { googleSheetsService } from '../services/googleSheets';
+import { groupColumns, previewSheetSource, type SheetColumns } from '../services/sheetSources';
+
+const router = Router();
+
+// { trackingNumber: ["Tracking Number", "trackingnumber"], ... } - headers in priority order
+const columnsSchema = z
+  .record(z.enum(SHEET_FIELDS), z.array(z.string()))
+  .transform((columns) => {
+    const normalized: SheetColumns = {};
+    for (const [field, headers] of Object.entries(columns) as Array<[SheetField, string[]]>) {
+      const cleaned = Array.from(new Set(headers.map(normalizeHeader).filter(Boolean)));
+      if (cleaned.length > 0) normalized[field] = cleaned;
+    }
+    return normalized;
+  });
+
+const updateSheetSourceSchema = z.object({
+  name: z.string().trim().min(1),
+  spreadsheetId: z.string().trim().nullable().optional().transform(value => value || null),
+  sheetName: z.string().trim().min(1),
+  enabled: z.boolean(),
+  columns: columnsSchema,
+});
+
+const previewSheetSourceSchema = z.object({
+  spreadsheetId: z.string().trim().nullable().optional(),
+  sheetName: z.string().trim().min(1),
+  columns: columnsSchema,
+});
+
+// List sheet sources with their column mappings
+router.get('/api/sheet-sources', async (req, res) => {
+  try {
+    const [sources, mappings] = await Promise.all([
+      storage.getSheetSources(),
+      storage.getSheetColumnMappings(),
+    ]);
+
+    res.json(sources.map(source => ({
+      ...source,
+      columns: groupColumns(mappings.filter(mapping => mapping.sourceId === source.id)),
+    })));
+  } catch (error) {
+    console.error('Error getting sheet sources:', error);
+    res.status(500).json({ error: 'Failed to get sheet sources' });
+  }
+});
+
+// Update a sheet source and replace its column mappings
+router.put('/api/sheet-sources/:id', async (req, res) => {
+  try {
+    const { columns, enabled, ...updates } = updateSheetSourceSchema.parse(req.body);
+
+    const existing = await storage.getSheetSource(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Sheet source not found' });
+    }
+
+    // Without a tracking number column the sync can't match rows to shipments
+    if (enabled && !columns.trackingNumber?.length) {
+      return res.status(400).json({ error: 'Map at least one tracking number column' });
+    }
+
+    const mappings = (Object.entries(columns) as Array<[SheetField, string[]]>).flatMap(([field, headers]) =>
+      headers.map((header, priority) => ({ field, header, priority }))
+    );
+
+    const source = await storage.updateSheetSource(existing.id, { ...updates, enabled: enabled ? 1 : 0 }, mappings);
+    res.json({ ...source, columns });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error updating sheet source:', error);
+    res.status(500).json({ error: 'Failed to update sheet source' });
+  }
+});
+
+// Read the first 10 rows of a sheet through a mapping before saving it
+router.post('/api/sheet-sources/preview', async (req, res) => {
+  try {
+    const { spreadsheetId, sheetName, columns } = previewSheetSourceSchema.parse(req.body);
+
+    if (!googleSheetsService.isConfigured()) {
+      return res.status(400).json({ error: 'Google Sheets service not configured' });
+    }
+
+    const resolvedSpreadsheetId = spreadsheetId || process.env.GOOGLE_SHEET_ID;
+    if (!resolvedSpreadsheetId) {
+      return res.status(400).json({ error: 'No spreadsheet id - enter one or set GOOGLE_SHEET_ID' });
+    }
+
+    const preview = await previewSheetSource(resolvedSpreadsheetId, sheetName, columns);
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error previewing sheet source:', error);
+    res.status(500).json({
+      error: 'Failed to read sheet',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { fedExService } from '../services/fedex';
+import { resolveCarrier } from '../services/carriers';
+import { applyTrackingInfo } from '../services/trackingUpdates';
+import { withSyncRun } from '../services/syncRuns';
+
+const router = Router();
+
+const subscriptionRequestSchema = z.object({
+  trackingNumbers: z.array(z.string().trim().min(1)).min(1),
+});
+
+// Receive FedEx Track API push notifications
+router.post('/api/webhooks/fedex', async (req, res) => {
+  if (!fedExService.isWebhookConfigured()) {
+    console.warn('⚠️  FedEx webhook received but FEDEX_WEBHOOK_SECRET is not set');
+    return res.status(503).json({ error: 'FedEx webhook not configured' });
+  }
+
+  const signature = req.get('x-fedex-signature') || req.get('fedex-signature');
+  const rawBody = Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.from(JSON.stringify(req.body ?? {}));
+
+  // Unsigned requests are not logged to sync_logs so anyone hitting the URL can't flood it
+  if (!fedExService.verifyWebhookSignature(rawBody, signature)) {
+    console.warn('⚠️  Rejected FedEx webhook with invalid signature');
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    const notifications = await fedExService.parseWebhookPayload(req.body);
+
+    // Each delivery is one sync run so its logs show up together in the Error Log
+    const { updated, skipped } = await withSyncRun('fedex_webhook', 'webhook', async (runId, tally) => {
+      let updated = 0;
+      let skipped = 0;
+
+      for (const trackingInfo of notifications) {
+        const { trackingNumber } = trackingInfo;
+
+        try {
+          const subscription = await storage.getPushSubscription(trackingNumber);
+          if (!subscription || subscription.active !== 1) {
+            console.log(`📭 Ignoring FedEx push for unregistered tracking number ${trackingNumber}`);
+            skipped++;
+            continue;
+          }
+
+          await storage.recordPushNotification(trackingNumber);
+
+          const shipment = await storage.getShipmentByTracking(trackingNumber);
+          if (!shipment) {
+            await storage.createSyncLog({
+              source: 'fedex_webhook',
+              trackingNumber,
+              success: 0,
+              errorMessage: 'Shipment not found for push notification',
+              errorStack: null,
+              sheetData: null,
+              responseData: JSON.stringify(trackingInfo.rawApiResponse),
+              runId,
+            });
+            tally.failed++;
+            skipped++;
+            continue;
+          }
+
+          await applyTrackingInfo(shipment, trackingInfo);
+          await storage.createSyncLog({
+            source: 'fedex_webhook',
+            trackingNumber,
+            success: 1,
+            errorMessage: null,
+            errorStack: null,
+            sheetData: null,
+            responseData: JSON.stringify(trackingInfo.rawApiResponse),
+            runId,
+          });
+
+          console.log(`📬 FedEx push updated ${trackingNumber}: ${trackingInfo.status}`);
+          tally.updated++;
+          updated++;
+        } catch (error) {
+          console.error(`Error applying FedEx push for ${trackingNumber}:`, error);
+          await storage.createSyncLog({
+            source: 'fedex_webhook',
+            trackingNumber,
+            success: 0,
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            errorStack: error instanceof Error ? error.stack || null : null,
+            sheetData: null,
+            responseData: JSON.stringify(trackingInfo.rawApiResponse),
+            runId,
+          });
+          tally.failed++;
+          skipped++;
+        }
+      }
+
+      return { updated, skipped };
+    });
+
+    res.json({ received: notifications.length, updated, skipped });
+  } catch (error) {
+    console.error('Error processing FedEx webhook:', error);
+    await storage.createSyncLog({
+      source: 'fedex_webhook',
+      trackingNumber: null,
+      success: 0,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack || null : null,
+      sheetData: null,
+      responseData: JSON.stringify(req.body),
+    }).catch(() => undefined);
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+// List tracking numbers registered for FedEx push updates
+router.get('/api/webhooks/fedex/subscriptions', async (req, res) => {
+  try {
+    const subscriptions = await storage.getActivePushSubscriptions();
+    res.json(subscriptions);
+  } catch (error) {
+    console.error('Error getting push subscriptions:', error);
+    res.status(500).json({ error: 'Failed to get push subscriptions' });
+  }
+});
+
+// Register tracking numbers for FedEx push updates
+router.post('/api/webhooks/fedex/subscriptions', async (req, res) => {
+  try {
+    const { trackingNumbers } = subscriptionRequestSchema.parse(req.body);
+
+    const registered: string[] = [];
+    const rejected: string[] = [];
+
+    for (const trackingNumber of Array.from(new Set(trackingNumbers))) {
+      const shipment = await storage.getShipmentByTracking(trackingNumber);
+      const carrier = resolveCarrier(trackingNumber, shipment?.carrier);
+
+      // Only FedEx sends push notifications to this endpoint
+      if (carrier !== 'fedex') {
+        rejected.push(trackingNumber);
+        continue;
+      }
+
+      await storage.registerPushSubscription(trackingNumber, carrier);
+      registered.push(trackingNumber);
+    }
+
+    res.json({ registered, rejected });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    console.error('Error registering push subscriptions:', error);
+    res.status(500).json({ error: 'Failed to register push subscriptions' });
+  }
+});
+
+// Unregister a tracking number from FedEx push updates
+router.delete('/api/webhooks/fedex/subscriptions/:trackingNumber', async (req, res) => {
+  try {
+    const removed = await storage.unregisterPushSubscription(req.params.trackingNumber);
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Push subscription not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error unregistering push subscription:', error);
+    res.status(500).json({ error: 'Failed to unregister push subscription' });
+  }
+});
+
+export default router;
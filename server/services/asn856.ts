@@ -0,0 +1,340 @@
+import type { Carrier } from "@shared/carriers";
+import type { InsertShipment } from "@shared/schema";
+import { EdiFormatError, formatX12Date, parseX12, type X12Segment } from "./x12";
+
+/**
+ * EDI 856 Advance Ship Notice. Suppliers describe a shipment as an HL hierarchy:
+ * Shipment > Order > Tare (pallet) > Pack (carton) > Item, where any level below
+ * the shipment may be left out (SOPI, SOTI, ...). Tracking numbers are on the shipment
+ * (REF*CN) or on each tare/pack (MAN*CP, REF*CN); SSCC-18 labels are MAN*GM.
+ */
+
+const HL_LEVELS: Record<string, AsnLevel> = {
+  S: "shipment",
+  O: "order",
+  T: "tare",
+  P: "pack",
+  I: "item",
+};
+
+export type AsnLevel = "shipment" | "order" | "tare" | "pack" | "item";
+
+export interface AsnItem {
+  hlId: string;
+  poNumber: string | null; // from the order this item is under
+  lineNumber: string | null; // LIN01, or SN101
+  partNumbers: Record<string, string>; // LIN qualifier -> ID, e.g. { BP: "buyer part", VP: "vendor part", UP: "UPC" }
+  description: string | null; // PID05
+  quantity: number | null; // SN102 units shipped
+  unit: string | null; // SN103, e.g. "EA"
+}
+
+// A tare or pack: a physical unit that can carry its own tracking number
+export interface AsnPackage {
+  hlId: string;
+  parentHlId: string | null;
+  level: "tare" | "pack";
+  poNumber: string | null;
+  trackingNumber: string | null;
+  sscc: string | null;
+  items: AsnItem[]; // items directly under this package
+}
+
+export interface AsnParty {
+  name: string | null; // N102
+  idCode: string | null; // N104
+}
+
+export interface AsnShipment {
+  hlId: string;
+  transactionControlNumber: string; // ST02 of the 856 it came from
+  shipmentId: string | null; // BSN02
+  shipDate: string | null; // DTM*011, else BSN03
+  estimatedDelivery: string | null; // DTM*017 or DTM*067
+  trackingNumber: string | null; // REF*CN on the shipment level (master / PRO number)
+  billOfLading: string | null; // REF*BM
+  scac: string | null; // TD503
+  routing: string | null; // TD505, e.g. "FEDEX GROUND"
+  packagingCode: string | null; // TD101, e.g. "CTN25"
+  ladingQuantity: number | null; // TD102
+  weight: string | null; // TD107
+  weightUnit: string | null; // TD108, "LB" or "KG"
+  shipFrom: AsnParty | null; // N1*SF
+  shipTo: AsnParty | null; // N1*ST
+  poNumbers: string[];
+  packages: AsnPackage[];
+  items: AsnItem[]; // every item line in the shipment
+}
+
+export interface AsnDocument {
+  senderId: string | null;
+  receiverId: string | null;
+  shipments: AsnShipment[];
+}
+
+interface HlNode {
+  id: string;
+  parentId: string | null;
+  level: AsnLevel | null; // null for levels we don't use
+  segments: X12Segment[];
+}
+
+// Group an 856's segments under the HL they follow. Segments before the first HL (BSN, DTM) go to the header.
+function buildHierarchy(segments: X12Segment[]): { header: X12Segment[]; nodes: HlNode[] } {
+  const header: X12Segment[] = [];
+  const nodes: HlNode[] = [];
+  for (const segment of segments) {
+    if (segment[0] === "HL") {
+      nodes.push({ id: segment[1] || String(nodes.length + 1), parentId: segment[2] || null, level: HL_LEVELS[segment[3]] ?? null, segments: [] });
+    } else if (segment[0] === "CTT") {
+      continue;
+    } else if (nodes.length > 0) {
+      nodes[nodes.length - 1].segments.push(segment);
+    } else {
+      header.push(segment);
+    }
+  }
+  return { header, nodes };
+}
+
+function find(segments: X12Segment[], id: string, qualifier?: string): X12Segment | undefined {
+  return segments.find(segment => segment[0] === id && (qualifier === undefined || segment[1] === qualifier));
+}
+
+function value(segment: X12Segment | undefined, index: number): string | null {
+  return segment?.[index] || null;
+}
+
+function readDate(segments: X12Segment[], ...qualifiers: string[]): string | null {
+  for (const qualifier of qualifiers) {
+    const dtm = find(segments, "DTM", qualifier);
+    const date = dtm && formatX12Date(dtm[2], dtm[3]);
+    if (date) return date;
+  }
+  return null;
+}
+
+function readParty(segments: X12Segment[], entity: string): AsnParty | null {
+  const n1 = find(segments, "N1", entity);
+  return n1 ? { name: value(n1, 2), idCode: value(n1, 4) } : null;
+}
+
+// MAN segments carry up to two marks: MAN01/02 and MAN04/05
+function readMarks(segments: X12Segment[]): Array<{ qualifier: string; mark: string }> {
+  return segments
+    .filter(segment => segment[0] === "MAN")
+    .flatMap(segment => [[segment[1], segment[2]], [segment[4], segment[5]]])
+    .filter(([qualifier, mark]) => qualifier && mark)
+    .map(([qualifier, mark]) => ({ qualifier, mark: mark.replace(/\s+/g, "") }));
+}
+
+function readPackageTrackingNumber(segments: X12Segment[]): string | null {
+  const marks = readMarks(segments);
+  const carrierMark = marks.find(mark => mark.qualifier === "CP");
+  const reference = value(find(segments, "REF", "CN"), 2);
+  return carrierMark?.mark || reference?.replace(/\s+/g, "") || null;
+}
+
+function readItem(node: HlNode, poNumber: string | null): AsnItem {
+  const lin = find(node.segments, "LIN");
+  const sn1 = find(node.segments, "SN1");
+  const partNumbers: Record<string, string> = {};
+  // LIN02/03, LIN04/05, ... are qualifier/ID pairs
+  for (let index = 2; lin && index + 1 < lin.length; index += 2) {
+    if (lin[index] && lin[index + 1]) partNumbers[lin[index]] = lin[index + 1];
+  }
+  const quantity = parseFloat(sn1?.[2] || "");
+  return {
+    hlId: node.id,
+    poNumber,
+    lineNumber: value(lin, 1) || value(sn1, 1),
+    partNumbers,
+    description: value(find(node.segments, "PID"), 5),
+    quantity: Number.isFinite(quantity) ? quantity : null,
+    unit: value(sn1, 3),
+  };
+}
+
+function readShipment(transactionControlNumber: string, header: X12Segment[], shipmentNode: HlNode, nodes: HlNode[]): AsnShipment {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const ancestor = (node: HlNode, level: AsnLevel): HlNode | null => {
+    for (let parent = node.parentId ? byId.get(node.parentId) : undefined; parent; parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+      if (parent.level === level) return parent;
+    }
+    return null;
+  };
+  const inShipment = (node: HlNode) => node === shipmentNode || ancestor(node, "shipment") === shipmentNode;
+  const poNumberOf = (node: HlNode) => {
+    const order = node.level === "order" ? node : ancestor(node, "order");
+    return order ? value(find(order.segments, "PRF"), 1) : null;
+  };
+
+  const bsn = find(header, "BSN");
+  const segments = [...header, ...shipmentNode.segments];
+  const td1 = find(shipmentNode.segments, "TD1");
+  const td5 = find(shipmentNode.segments, "TD5");
+  const ladingQuantity = parseInt(td1?.[2] || "");
+
+  const shipment: AsnShipment = {
+    hlId: shipmentNode.id,
+    transactionControlNumber,
+    shipmentId: value(bsn, 2),
+    shipDate: readDate(segments, "011") || formatX12Date(bsn?.[3], bsn?.[4]),
+    estimatedDelivery: readDate(segments, "017", "067"),
+    trackingNumber: value(find(shipmentNode.segments, "REF", "CN"), 2)?.replace(/\s+/g, "") || null,
+    billOfLading: value(find(shipmentNode.segments, "REF", "BM"), 2),
+    scac: td5?.[2] === "2" ? value(td5, 3) : null,
+    routing: value(td5, 5),
+    packagingCode: value(td1, 1),
+    ladingQuantity: Number.isFinite(ladingQuantity) ? ladingQuantity : null,
+    weight: value(td1, 7),
+    weightUnit: value(td1, 8),
+    shipFrom: readParty(shipmentNode.segments, "SF"),
+    shipTo: readParty(shipmentNode.segments, "ST"),
+    poNumbers: [],
+    packages: [],
+    items: [],
+  };
+
+  const packages = new Map<string, AsnPackage>();
+  for (const node of nodes) {
+    if (!inShipment(node)) continue;
+    const poNumber = poNumberOf(node);
+    if (node.level === "order" && poNumber && !shipment.poNumbers.includes(poNumber)) {
+      shipment.poNumbers.push(poNumber);
+    }
+    if (node.level === "tare" || node.level === "pack") {
+      const pkg: AsnPackage = {
+        hlId: node.id,
+        parentHlId: node.parentId,
+        level: node.level,
+        poNumber,
+        trackingNumber: readPackageTrackingNumber(node.segments),
+        sscc: readMarks(node.segments).find(mark => mark.qualifier === "GM")?.mark || null,
+        items: [],
+      };
+      packages.set(node.id, pkg);
+      shipment.packages.push(pkg);
+    }
+    if (node.level === "item") {
+      const item = readItem(node, poNumber);
+      shipment.items.push(item);
+      const parent = node.parentId ? packages.get(node.parentId) : undefined;
+      parent?.items.push(item);
+    }
+  }
+
+  return shipment;
+}
+
+/**
+ * Parse every 856 transaction set in an X12 file. Other transaction sets are ignored,
+ * but a file with no 856 in it is an error.
+ */
+export function parseAsn856(content: string): AsnDocument {
+  const interchange = parseX12(content);
+  const transactions = interchange.transactions.filter(transaction => transaction.type === "856");
+  if (transactions.length === 0) {
+    const found = Array.from(new Set(interchange.transactions.map(transaction => transaction.type))).join(", ") || "none";
+    throw new EdiFormatError("No 856 Advance Ship Notice", `The file has no 856 transaction sets (found: ${found})`);
+  }
+
+  const shipments: AsnShipment[] = [];
+  for (const transaction of transactions) {
+    const { header, nodes } = buildHierarchy(transaction.segments);
+    const shipmentNodes = nodes.filter(node => node.level === "shipment");
+    if (shipmentNodes.length === 0) {
+      throw new EdiFormatError("No shipment level", `856 ${transaction.controlNumber} has no HL shipment (S) level`);
+    }
+    for (const node of shipmentNodes) {
+      shipments.push(readShipment(transaction.controlNumber, header, node, nodes));
+    }
+  }
+
+  return { senderId: interchange.senderId, receiverId: interchange.receiverId, shipments };
+}
+
+// Standard carrier alpha codes (TD503) of the carriers we track
+const SCAC_CARRIERS: Record<string, Carrier> = {
+  FDE: "fedex",
+  FDEG: "fedex",
+  FDEN: "fedex",
+  FDXG: "fedex",
+  FXFE: "fedex",
+  FXNL: "fedex",
+  UPSN: "ups",
+  UPSS: "ups",
+  UPGF: "ups",
+  USPS: "usps",
+  DHL: "dhl",
+  DHLC: "dhl",
+  DHLG: "dhl",
+};
+
+const PACKAGING_TYPES: Record<string, string> = {
+  BOX: "Box",
+  CTN: "Carton",
+  PLT: "Pallet",
+  PKG: "Package",
+  ENV: "Envelope",
+  CAS: "Case",
+};
+
+export function carrierFromScac(scac: string | null): Carrier | null {
+  return scac ? SCAC_CARRIERS[scac.toUpperCase()] ?? null : null;
+}
+
+function formatWeight(weight: string | null, unit: string | null): string | undefined {
+  if (!weight) return undefined;
+  return `${weight}${unit?.toUpperCase() === "KG" ? "kg" : "lbs"}`;
+}
+
+/**
+ * The package tracking numbers of a shipment, in file order. Packs are the parcels; tares only
+ * count when no pack has a tracking number (pallets shipped as freight).
+ */
+export function packageTrackingNumbers(shipment: AsnShipment): string[] {
+  const withTracking = (level: "tare" | "pack") =>
+    shipment.packages.filter(pkg => pkg.level === level && pkg.trackingNumber).map(pkg => pkg.trackingNumber!);
+  const numbers = withTracking("pack").length > 0 ? withTracking("pack") : withTracking("tare");
+  return Array.from(new Set(numbers));
+}
+
+/**
+ * The shipment an ASN describes, in the shape imports save. The master is the shipment-level
+ * tracking number, else the first package's; every package becomes a child. Null when the ASN
+ * has no tracking number at all.
+ */
+export function toShipment(asn: AsnShipment): (Partial<InsertShipment> & { trackingNumber: string }) | null {
+  const children = packageTrackingNumbers(asn);
+  const trackingNumber = asn.trackingNumber || children[0];
+  if (!trackingNumber) return null;
+
+  const packs = asn.packages.filter(pkg => pkg.level === "pack").length;
+  const tares = asn.packages.filter(pkg => pkg.level === "tare").length;
+  const packageCount = packs || tares || asn.ladingQuantity || 1;
+  const isMultiPiece = children.some(child => child !== trackingNumber);
+
+  return {
+    trackingNumber,
+    carrier: carrierFromScac(asn.scac) ?? undefined,
+    status: "label_created",
+    scheduledDelivery: asn.estimatedDelivery ?? undefined,
+    shipperCompany: asn.shipFrom?.name ?? undefined,
+    recipientCompany: asn.shipTo?.name ?? undefined,
+    masterTrackingNumber: isMultiPiece ? trackingNumber : undefined,
+    childTrackingNumbers: isMultiPiece ? children : undefined,
+    packageCount,
+    packageType: asn.packagingCode ? PACKAGING_TYPES[asn.packagingCode.slice(0, 3).toUpperCase()] : undefined,
+    packageWeight: packageCount === 1 ? formatWeight(asn.weight, asn.weightUnit) : undefined,
+    totalWeight: formatWeight(asn.weight, asn.weightUnit),
+    direction: "Inbound",
+    serviceType: asn.routing ?? undefined,
+  };
+}
+
+export function describeItem(item: AsnItem): string {
+  const part = item.partNumbers.BP || item.partNumbers.VP || item.partNumbers.UP || item.partNumbers.IN
+    || Object.values(item.partNumbers)[0] || item.description || `line ${item.lineNumber ?? item.hlId}`;
+  return item.quantity !== null ? `${part} x ${item.quantity}${item.unit ? ` ${item.unit}` : ""}` : part;
+}
@@ -0,0 +1,130 @@
+import { type Carrier, DEFAULT_CARRIER, CARRIERS, CARRIER_LABELS, detectCarrier, isCarrier } from "@shared/carriers";
+import type { ShipmentStatus } from "@shared/status";
+import { fedExService } from "./fedex";
+
+export interface TrackingEvent {
+  timestamp: string;
+  location: string;
+  status: string;
+  description: string;
+  eventType?: string; // Carrier scan code, e.g. FedEx "AR" (arrived at location)
+  city?: string;
+  stateOrProvince?: string;
+  countryCode?: string;
+}
+
+export interface TrackingInfo {
+  trackingNumber: string;
+  status: ShipmentStatus;
+  statusDescription?: string; // Carrier's actual status text like "On the way"
+  estimatedDelivery?: string;
+  lastEventTime?: string; // Latest tracking event timestamp
+  lastLocation?: string;
+  events: TrackingEvent[];
+  childTrackingNumbers?: string[];
+  rawApiResponse?: any;
+}
+
+/**
+ * A carrier integration the sync and refresh routes can dispatch to
+ */
+export interface CarrierProvider {
+  readonly carrier: Carrier;
+
+  /**
+   * Whether credentials for this carrier's API are present
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Get tracking information for a single tracking number
+   */
+  getTrackingInfo(trackingNumber: string): Promise<TrackingInfo | null>;
+
+  /**
+   * Queue lookups for many tracking numbers at once so the provider can batch them.
+   * Promises must be pre-handled so callers can await them one at a time.
+   */
+  queueTrackingLookups(trackingNumbers: string[]): Map<string, Promise<TrackingInfo | null>>;
+
+  /**
+   * Get child tracking numbers for a multi-piece master tracking number
+   */
+  getAssociatedShipments(masterTrackingNumber: string): Promise<string[]>;
+
+  /**
+   * Map a carrier status code to our canonical status
+   */
+  mapStatus(carrierStatusCode: string): ShipmentStatus;
+}
+
+const providers: Partial<Record<Carrier, CarrierProvider>> = {
+  fedex: fedExService,
+};
+
+/**
+ * Get the provider for a carrier, or undefined if we have no integration for it yet
+ */
+export function getCarrierProvider(carrier: string | null | undefined): CarrierProvider | undefined {
+  return providers[isCarrier(carrier) ? carrier : DEFAULT_CARRIER];
+}
+
+/**
+ * A carrier given as text (e.g. "FedEx" in a sheet column), or undefined if it isn't one we know
+ */
+export function normalizeCarrier(hint?: string | null): Carrier | undefined {
+  const normalizedHint = hint?.trim().toLowerCase();
+  return isCarrier(normalizedHint) ? normalizedHint : undefined;
+}
+
+/**
+ * Work out which carrier a tracking number belongs to.
+ * An explicit hint (e.g. a "carrier" column in the sheet, or the stored carrier after a merge)
+ * wins over format detection, which is only for shipments with no carrier yet.
+ */
+export function resolveCarrier(trackingNumber: string, hint?: string | null): Carrier {
+  return normalizeCarrier(hint) ?? detectCarrier(trackingNumber) ?? DEFAULT_CARRIER;
+}
+
+/**
+ * Queue lookups across carriers, grouping tracking numbers so each provider can batch.
+ * Tracking numbers whose carrier has no configured provider are left out of the result.
+ */
+export function queueTrackingLookupsByCarrier(
+  items: Array<{ trackingNumber: string; carrier: string | null | undefined }>
+): Map<string, Promise<TrackingInfo | null>> {
+  const byCarrier = new Map<CarrierProvider, string[]>();
+
+  for (const item of items) {
+    const provider = getCarrierProvider(item.carrier);
+    if (!provider || !provider.isConfigured()) continue;
+
+    const trackingNumbers = byCarrier.get(provider) || [];
+    trackingNumbers.push(item.trackingNumber);
+    byCarrier.set(provider, trackingNumbers);
+  }
+
+  const lookups = new Map<string, Promise<TrackingInfo | null>>();
+  byCarrier.forEach((trackingNumbers, provider) => {
+    provider.queueTrackingLookups(trackingNumbers).forEach((lookup, trackingNumber) => {
+      lookups.set(trackingNumber, lookup);
+    });
+  });
+
+  return lookups;
+}
+
+/**
+ * Carrier list with integration status, for the UI
+ */
+export function getCarrierStatuses(): Array<{ carrier: Carrier; label: string; supported: boolean; configured: boolean }> {
+  return CARRIERS.map(carrier => {
+    const provider = providers[carrier];
+    return {
+      carrier,
+      label: CARRIER_LABELS[carrier],
+      supported: !!provider,
+      configured: !!provider?.isConfigured(),
+    };
+  });
+}
@@ -0,0 +1,169 @@
+import { hostname } from "os";
+import { inArray } from "drizzle-orm";
+import type { ChangeEvent } from "@shared/changeEvents";
+import { shipments, type Shipment } from "@shared/schema";
+import { db, sql } from "../db";
+
+type ChangeListener = (event: ChangeEvent) => void;
+
+// Events are passed to the other instances over this Postgres NOTIFY channel
+const NOTIFY_CHANNEL = "change_events";
+
+// Postgres caps NOTIFY payloads at 8000 bytes; larger shipment events go out as a reload
+const MAX_NOTIFY_BYTES = 7500;
+
+// Shipment events carry only tracking numbers between instances; the receiver loads the rows
+type InstanceEvent =
+  | Exclude<ChangeEvent, { type: "shipments" }>
+  | { type: "shipments"; updated: string[]; removed: string[]; reload: boolean };
+
+interface ChangeNotification {
+  origin: string;
+  event: InstanceEvent;
+}
+
+// Shipment changes are collected for this long and sent as one event; syncs save them in bursts
+const SHIPMENT_FLUSH_MS = 250;
+
+// More shipments than this in one event and browsers are told to refetch the list instead
+const MAX_SHIPMENTS_PER_EVENT = 200;
+
+/**
+ * Publisher of data change events for the /api/events stream. Storage publishes after each
+ * write; every connected browser gets every event. Once listening across instances, events
+ * are also passed to the other instances over Postgres LISTEN/NOTIFY, so browsers connected
+ * to one instance see writes made by another (scheduler runs, webhooks, scans).
+ */
+export class ChangeEventBus {
+  private listeners = new Set<ChangeListener>();
+  private pendingShipments = new Map<string, Shipment | null>(); // null = removed
+  private reloadShipments = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private origin = `${hostname()}:${process.pid}`;
+  private acrossInstances = false;
+
+  /**
+   * Start passing events to and from the other instances sharing the database
+   */
+  async listenAcrossInstances(): Promise<void> {
+    await sql.listen(NOTIFY_CHANNEL, payload => {
+      this.receive(payload).catch(error => {
+        console.error("Failed to apply change event from another instance:", error);
+      });
+    });
+    this.acrossInstances = true;
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  publish(event: Exclude<ChangeEvent, { type: "shipments" }>): void {
+    this.emit(event);
+    this.notifyInstances(event);
+  }
+
+  /**
+   * Shipments that were saved. Archived (soft-deleted) ones are sent as removed.
+   */
+  shipmentsChanged(rows: Shipment[]): void {
+    for (const row of rows) {
+      this.pendingShipments.set(row.trackingNumber, row.deletedAt ? null : row);
+    }
+    this.scheduleShipmentFlush();
+  }
+
+  shipmentsRemoved(trackingNumbers: string[]): void {
+    for (const trackingNumber of trackingNumbers) {
+      this.pendingShipments.set(trackingNumber, null);
+    }
+    this.scheduleShipmentFlush();
+  }
+
+  // For changes that aren't worth listing, e.g. deleting every shipment
+  allShipmentsChanged(): void {
+    this.reloadShipments = true;
+    this.scheduleShipmentFlush();
+  }
+
+  private scheduleShipmentFlush(): void {
+    // Nobody is connected to tell; a browser that connects later loads everything anyway
+    if (this.listeners.size === 0 && !this.acrossInstances) {
+      this.clearPendingShipments();
+      return;
+    }
+    this.flushTimer ??= setTimeout(() => this.flushShipments(), SHIPMENT_FLUSH_MS);
+  }
+
+  private flushShipments(): void {
+    const pending = Array.from(this.pendingShipments.entries());
+    const reload = this.reloadShipments || pending.length > MAX_SHIPMENTS_PER_EVENT;
+    this.clearPendingShipments();
+
+    const updated = reload ? [] : pending.flatMap(([, row]) => (row ? [row] : []));
+    const removed = reload ? [] : pending.filter(([, row]) => !row).map(([trackingNumber]) => trackingNumber);
+    this.emit({ type: "shipments", updated, removed, reload });
+    this.notifyInstances({ type: "shipments", updated: updated.map(row => row.trackingNumber), removed, reload });
+  }
+
+  private clearPendingShipments(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.pendingShipments.clear();
+    this.reloadShipments = false;
+  }
+
+  private notifyInstances(event: InstanceEvent): void {
+    if (!this.acrossInstances) return;
+
+    let payload = JSON.stringify({ origin: this.origin, event } satisfies ChangeNotification);
+    if (event.type === "shipments" && Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      payload = JSON.stringify({
+        origin: this.origin,
+        event: { type: "shipments", updated: [], removed: [], reload: true },
+      } satisfies ChangeNotification);
+    }
+    sql.notify(NOTIFY_CHANNEL, payload).catch(error => {
+      console.error(`Failed to pass ${event.type} change event to other instances:`, error);
+    });
+  }
+
+  private async receive(payload: string): Promise<void> {
+    const { origin, event } = JSON.parse(payload) as ChangeNotification;
+    // Our own notifications come back to us too; those were already sent locally
+    if (origin === this.origin || this.listeners.size === 0) return;
+
+    if (event.type !== "shipments") {
+      this.emit(event);
+      return;
+    }
+    if (event.reload || event.updated.length === 0) {
+      this.emit({ type: "shipments", updated: [], removed: event.removed, reload: event.reload });
+      return;
+    }
+
+    // Load the saved rows; ones archived or deleted since then are sent as removed
+    const rows = await db.select().from(shipments).where(inArray(shipments.trackingNumber, event.updated));
+    const current = rows.filter(row => !row.deletedAt);
+    const found = new Set(current.map(row => row.trackingNumber));
+    this.emit({
+      type: "shipments",
+      updated: current,
+      removed: [...event.removed, ...event.updated.filter(trackingNumber => !found.has(trackingNumber))],
+      reload: false,
+    });
+  }
+
+  private emit(event: ChangeEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Change event listener failed on ${event.type}:`, error);
+      }
+    }
+  }
+}
+
+export const changeEvents = new ChangeEventBus();
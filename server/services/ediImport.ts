@@ -0,0 +1,92 @@
+import { normalizeHeader } from "@shared/sheetMappings";
+import { describeItem, packageTrackingNumbers, parseAsn856, toShipment, type AsnDocument, type AsnShipment } from "./asn856";
+import {
+  runImportJob,
+  type ImportJobDetails,
+  type ImportJobItem,
+  type ImportJobResult,
+  type RejectedImportRow,
+} from "./importJobs";
+
+// Columns of an EDI import's job rows, one row per package (or per shipment without packages)
+export const ASN_JOB_HEADERS = ["ASN", "HL", "PO Number", "Tracking Number", "SSCC", "Items"];
+
+export interface AsnImportResult extends ImportJobResult {
+  document: AsnDocument;
+}
+
+function jobRowValues(
+  asn: AsnShipment,
+  row: { hlId: string; poNumber: string | null; trackingNumber: string | null; sscc: string | null; items: string[] }
+): Record<string, string> {
+  const [shipmentId, hl, poNumber, trackingNumber, sscc, items] = ASN_JOB_HEADERS.map(normalizeHeader);
+  return {
+    [shipmentId]: asn.shipmentId || "",
+    [hl]: row.hlId,
+    [poNumber]: row.poNumber || "",
+    [trackingNumber]: row.trackingNumber || "",
+    [sscc]: row.sscc || "",
+    [items]: row.items.join("; "),
+  };
+}
+
+// The job rows of one ASN shipment: its packs (or tares when nothing is packed), else the shipment itself
+function sourceRows(asn: AsnShipment) {
+  const packs = asn.packages.filter(pkg => pkg.level === "pack");
+  const packages = packs.length > 0 ? packs : asn.packages;
+  const rows = packages.length > 0
+    ? packages.map(pkg => ({ ...pkg, items: pkg.items.map(describeItem) }))
+    : [{
+        hlId: asn.hlId,
+        poNumber: asn.poNumbers.join(", ") || null,
+        trackingNumber: asn.trackingNumber,
+        sscc: null,
+        items: asn.items.map(describeItem),
+      }];
+
+  return rows.map(row => ({
+    rowNumber: parseInt(row.hlId) || 0,
+    trackingNumber: row.trackingNumber,
+    values: jobRowValues(asn, row),
+  }));
+}
+
+/**
+ * Turn a parsed ASN into import job input: one shipment (master with its packages as children)
+ * per ASN shipment, with one job row per package. ASN shipments without any tracking number
+ * are rejected.
+ */
+export function toAsnImportJobInput(document: AsnDocument): { items: ImportJobItem[]; rejected: RejectedImportRow[] } {
+  const items: ImportJobItem[] = [];
+  const rejected: RejectedImportRow[] = [];
+
+  for (const asn of document.shipments) {
+    const shipment = toShipment(asn);
+    const rows = sourceRows(asn);
+    if (!shipment) {
+      rejected.push(...rows.map(row => ({ ...row, error: "No tracking number in the ASN (REF*CN or MAN*CP)" })));
+      continue;
+    }
+    // Packages without a tracking number of their own travel under the master
+    items.push({ shipment, rows: rows.map(row => ({ ...row, trackingNumber: row.trackingNumber || shipment.trackingNumber })) });
+  }
+
+  return { items, rejected };
+}
+
+/**
+ * Parse an X12 856 file and import its shipments as an import job.
+ * Throws EdiFormatError when the file isn't a readable 856.
+ */
+export async function importAsnFile(
+  content: string,
+  details: Pick<ImportJobDetails, "source" | "fileName" | "importedBy">
+): Promise<AsnImportResult> {
+  const document = parseAsn856(content);
+  const { items, rejected } = toAsnImportJobInput(document);
+  const packages = document.shipments.reduce((sum, asn) => sum + packageTrackingNumbers(asn).length, 0);
+  console.log(`📦 ASN ${details.fileName}: ${document.shipments.length} shipments, ${packages} tracked packages`);
+
+  const result = await runImportJob({ ...details, headers: ASN_JOB_HEADERS }, items, rejected);
+  return { ...result, document };
+}
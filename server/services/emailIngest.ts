@@ -0,0 +1,227 @@
+import { mkdir, readdir, readFile, rename, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { InsertShipment } from "@shared/schema";
+import { normalizeHeader } from "@shared/sheetMappings";
+import { parseNotificationEmail, type FedExNotification } from "./fedexEmail";
+import { moveToSubfolder } from "./hotFolder";
+import { runImportJob, type ImportJobItem, type ImportSourceRow, type RejectedImportRow } from "./importJobs";
+import type { JobProgress } from "./jobs";
+
+// Columns of an email import's job rows, one row per email
+export const EMAIL_JOB_HEADERS = ["File", "From", "Subject", "Sent", "Tracking Number", "Ship Date", "References"];
+
+export interface InboxMessage {
+  id: string; // file name (or UID once there is an IMAP source)
+  read(): Promise<Buffer>;
+  // Called once the message has been read, so it isn't read again; `error` says why it couldn't be
+  done(outcome: "processed" | "failed", error?: string): Promise<void>;
+}
+
+/**
+ * Where notification emails come from. The local folder source is the only one for now;
+ * an IMAP mailbox would list unseen messages and flag them as seen in done().
+ */
+export interface MailSource {
+  name: string;
+  list(): Promise<InboxMessage[]>;
+}
+
+export interface EmailIngestResult {
+  source: string;
+  jobId: string | null; // null when there was nothing to read
+  read: number;
+  imported: number; // shipments created or updated
+  ignored: number; // emails that aren't FedEx shipment notifications
+  failed: number; // emails that couldn't be parsed or saved
+}
+
+/**
+ * Thrown when the inbox can't be read at all (not configured, missing directory).
+ * `error` is the short reason shown to the user.
+ */
+export class EmailInboxConfigurationError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "EmailInboxConfigurationError";
+  }
+}
+
+export function getEmailInboxDir(): string | null {
+  return process.env.EMAIL_INBOX_DIR?.trim() || null;
+}
+
+/**
+ * Messages in a local folder. A maildir (with new/ and cur/) has its new messages read and
+ * then moved to cur/ marked as seen, like a mail client would; any other folder has its .eml
+ * files read and moved to processed/ or failed/.
+ */
+export async function folderMailSource(dir: string): Promise<MailSource> {
+  const isMaildir = await stat(path.join(dir, "new")).then(stats => stats.isDirectory(), () => false);
+
+  if (isMaildir) {
+    return {
+      name: `maildir ${dir}`,
+      async list() {
+        const names = (await readdir(path.join(dir, "new"))).filter(name => !name.startsWith(".")).sort();
+        return names.map(name => ({
+          id: name,
+          read: () => readFile(path.join(dir, "new", name)),
+          async done() {
+            // Maildir info suffix: ":2,S" marks the message as seen
+            const seen = name.includes(":2,") ? name : `${name}:2,S`;
+            await mkdir(path.join(dir, "cur"), { recursive: true });
+            await rename(path.join(dir, "new", name), path.join(dir, "cur", seen));
+          },
+        }));
+      },
+    };
+  }
+
+  return {
+    name: dir,
+    async list() {
+      const entries = await readdir(dir, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isFile() && entry.name.toLowerCase().endsWith(".eml"))
+        .map(entry => entry.name)
+        .sort()
+        .map(name => ({
+          id: name,
+          read: () => readFile(path.join(dir, name)),
+          async done(outcome, error) {
+            const target = await moveToSubfolder(dir, name, outcome);
+            if (error) await writeFile(`${target}.error.txt`, `${error}\n`);
+          },
+        }));
+    },
+  };
+}
+
+function jobRowValues(messageId: string, notification: Partial<FedExNotification>): Record<string, string> {
+  const [file, from, subject, sent, trackingNumber, shipDate, references] = EMAIL_JOB_HEADERS.map(normalizeHeader);
+  return {
+    [file]: messageId,
+    [from]: notification.from || "",
+    [subject]: notification.subject || "",
+    [sent]: notification.sentAt?.toISOString() || "",
+    [trackingNumber]: notification.trackingNumbers?.join(", ") || "",
+    [shipDate]: notification.shipDate || "",
+    [references]: Object.entries(notification.references || {}).map(([label, value]) => `${label}: ${value}`).join("; "),
+  };
+}
+
+/**
+ * A pending FedEx shipment for a notification: the master (or only) tracking number with the
+ * other packages as children
+ */
+export function toPendingShipment(notification: FedExNotification): Partial<InsertShipment> & { trackingNumber: string } {
+  const [trackingNumber, ...others] = notification.trackingNumbers;
+  const children = others.length > 0 ? notification.trackingNumbers : undefined;
+  return {
+    trackingNumber,
+    carrier: "fedex",
+    status: "pending",
+    scheduledDelivery: notification.scheduledDelivery ?? undefined,
+    shipperName: notification.shipperName ?? undefined,
+    shipperCompany: notification.shipperCompany ?? undefined,
+    recipientName: notification.recipientName ?? undefined,
+    recipientCompany: notification.recipientCompany ?? undefined,
+    masterTrackingNumber: children ? trackingNumber : undefined,
+    childTrackingNumbers: children,
+    packageCount: notification.packageCount || Math.max(1, notification.trackingNumbers.length),
+    packageType: notification.packageType ?? undefined,
+    totalWeight: notification.totalWeight ?? undefined,
+    direction: "Inbound",
+    serviceType: notification.serviceType ?? undefined,
+  };
+}
+
+/**
+ * Read the new messages of a mail source and create pending shipments from the FedEx shipment
+ * notifications among them, recorded as one "email" import job with a row per email. Emails
+ * that aren't notifications are recorded as rejected. Shipments that already exist only get
+ * fields they don't have yet (see FILL_ONLY_SOURCES in importJobs.ts).
+ */
+export async function ingestMailSource(source: MailSource, progress: JobProgress): Promise<EmailIngestResult> {
+  const messages = await source.list();
+  const result: EmailIngestResult = { source: source.name, jobId: null, read: messages.length, imported: 0, ignored: 0, failed: 0 };
+  if (messages.length === 0) return result;
+
+  progress.setPhase("Reading emails", messages.length);
+  const notifications: Array<{ rowNumber: number; id: string; notification: FedExNotification }> = [];
+  const rejected: RejectedImportRow[] = [];
+  const unreadable = new Map<InboxMessage, string>();
+
+  for (const [index, message] of messages.entries()) {
+    const rowNumber = index + 1;
+    try {
+      const { subject, from, notification } = await parseNotificationEmail(await message.read());
+      if (!notification) {
+        rejected.push({
+          rowNumber,
+          trackingNumber: null,
+          values: jobRowValues(message.id, { subject, from }),
+          error: "Not a FedEx shipment notification (no FedEx tracking number found)",
+        });
+        continue;
+      }
+
+      notifications.push({ rowNumber, id: message.id, notification });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      unreadable.set(message, reason);
+      rejected.push({ rowNumber, trackingNumber: null, values: jobRowValues(message.id, {}), error: `Could not read email: ${reason}` });
+    } finally {
+      progress.advance();
+    }
+  }
+
+  // Reminder emails repeat a shipment; the most recently sent one wins (file names don't say which
+  // that is) and every email stays a row
+  const sentTime = (notification: FedExNotification) => notification.sentAt?.getTime() ?? 0;
+  notifications.sort((a, b) => sentTime(a.notification) - sentTime(b.notification));
+  const items = new Map<string, ImportJobItem>();
+  for (const { rowNumber, id, notification } of notifications) {
+    const shipment = toPendingShipment(notification);
+    const row: ImportSourceRow = { rowNumber, trackingNumber: shipment.trackingNumber, values: jobRowValues(id, notification) };
+    const existing = items.get(shipment.trackingNumber);
+    items.set(shipment.trackingNumber, { shipment, rows: [...(existing?.rows || []), row] });
+  }
+
+  const { job, results } = await runImportJob(
+    { source: "email", fileName: path.basename(source.name), importedBy: "Email inbox" },
+    Array.from(items.values()),
+    rejected
+  );
+  result.jobId = job.id;
+  result.imported = results.filter(r => r.success).length;
+  result.failed = results.length - result.imported + unreadable.size;
+  result.ignored = rejected.length - unreadable.size;
+
+  // Saving failures stay re-runnable from the import job, so only unreadable emails count as failed here
+  for (const message of messages) {
+    const error = unreadable.get(message);
+    await message.done(error ? "failed" : "processed", error)
+      .catch(err => console.error(`Email inbox: could not move ${message.id}:`, err));
+  }
+
+  console.log(`📧 Email inbox ${source.name}: ${result.read} read, ${result.imported} shipments, ${result.ignored} ignored, ${result.failed} failed`);
+  return result;
+}
+
+/**
+ * Read EMAIL_INBOX_DIR (a maildir or a folder of .eml files) for FedEx shipment notifications.
+ * Run by the scheduler every EMAIL_INGEST_INTERVAL_MINUTES.
+ */
+export async function ingestEmailInbox(progress: JobProgress): Promise<EmailIngestResult> {
+  const dir = getEmailInboxDir();
+  if (!dir) {
+    throw new EmailInboxConfigurationError("No email inbox configured", "Set EMAIL_INBOX_DIR to a maildir or a folder of .eml files");
+  }
+  const isDirectory = await stat(dir).then(stats => stats.isDirectory(), () => false);
+  if (!isDirectory) {
+    throw new EmailInboxConfigurationError("Email inbox not readable", `${dir} is not a directory`);
+  }
+
+  return ingestMailSource(await folderMailSource(dir), progress);
+}
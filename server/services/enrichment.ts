@@ -0,0 +1,219 @@
+import type { Shipment } from "@shared/schema";
+import {
+  DEFAULT_FIELD_PRECEDENCE,
+  ENRICHED_FIELDS,
+  ENRICHMENT_SOURCES,
+  type EnrichedField,
+  type EnrichmentSource,
+  type FieldPrecedence,
+  type FieldSources,
+} from "@shared/enrichment";
+import type { SheetField } from "@shared/sheetMappings";
+import { storage } from "../storage";
+import type { TrackingInfo } from "./carriers";
+import { readField, type SheetColumns } from "./sheetSources";
+
+export type EnrichedValues = Partial<{ [F in EnrichedField]: Shipment[F] }>;
+
+// The values one source has for a shipment
+export interface FieldContribution {
+  source: EnrichmentSource;
+  values: EnrichedValues;
+}
+
+/**
+ * A source of shipment field values. Fields it has nothing for are left out (or empty) and
+ * fall to the next source in that field's precedence.
+ */
+export interface ShipmentEnricher {
+  source: EnrichmentSource;
+  enrich(trackingNumber: string, existing: Shipment | undefined): EnrichedValues;
+}
+
+export interface EnrichmentResult {
+  values: EnrichedValues; // chosen value per field, the stored value where no source won
+  fieldSources: FieldSources;
+  changedFields: EnrichedField[];
+}
+
+// Sheet fields that are shipment fields as they are (tracking number is the key, package count is parsed)
+const SHEET_TEXT_FIELDS = [
+  "carrier",
+  "masterTrackingNumber",
+  "scheduledDelivery",
+  "shipperName",
+  "shipperCompany",
+  "recipientName",
+  "recipientCompany",
+  "packageType",
+  "packageWeight",
+  "totalWeight",
+  "direction",
+  "serviceType",
+] as const satisfies ReadonlyArray<SheetField & EnrichedField>;
+
+/**
+ * Values from one sheet row, read through the sheet source's column mappings
+ */
+export function sheetRowEnricher(
+  source: "output_sheet" | "inbound_sheet",
+  columns: SheetColumns,
+  row: Record<string, any> | undefined
+): ShipmentEnricher {
+  return {
+    source,
+    enrich() {
+      if (!row) return {};
+      const values: EnrichedValues = {};
+      for (const field of SHEET_TEXT_FIELDS) {
+        values[field] = readField(row, columns, field) || undefined;
+      }
+      const packageCount = parseInt(readField(row, columns, "packageCount") || "");
+      values.packageCount = packageCount > 0 ? packageCount : undefined;
+      return values;
+    },
+  };
+}
+
+/**
+ * Status, ETA and children from carrier tracking data. Children are only offered when the
+ * carrier returns real ones (not just the master itself), so imported children are kept.
+ */
+export function carrierEnricher(trackingInfo: TrackingInfo | null | undefined): ShipmentEnricher {
+  return {
+    source: "carrier",
+    enrich(trackingNumber) {
+      if (!trackingInfo) return {};
+      const children = (trackingInfo.childTrackingNumbers || []).filter(child => child !== trackingNumber);
+      return {
+        status: trackingInfo.status || null,
+        statusDescription: trackingInfo.statusDescription || null,
+        // Use latest event time if available, otherwise use estimated delivery
+        scheduledDelivery: trackingInfo.lastEventTime || trackingInfo.estimatedDelivery || null,
+        childTrackingNumbers: children.length > 0 ? children : null,
+      };
+    },
+  };
+}
+
+/**
+ * Values given directly, e.g. a manual entry or an imported shipment
+ */
+export function valuesEnricher(source: EnrichmentSource, shipment: Record<string, any>): ShipmentEnricher {
+  return {
+    source,
+    enrich() {
+      const values: EnrichedValues = {};
+      for (const field of ENRICHED_FIELDS) {
+        if (field in shipment) (values as Record<string, unknown>)[field] = shipment[field];
+      }
+      return values;
+    },
+  };
+}
+
+export function collectContributions(
+  trackingNumber: string,
+  existing: Shipment | undefined,
+  enrichers: ShipmentEnricher[]
+): FieldContribution[] {
+  return enrichers.map(enricher => ({ source: enricher.source, values: enricher.enrich(trackingNumber, existing) }));
+}
+
+/**
+ * Field precedence with the overrides saved on the Settings page applied
+ */
+export async function loadFieldPrecedence(): Promise<FieldPrecedence> {
+  const precedence: FieldPrecedence = { ...DEFAULT_FIELD_PRECEDENCE };
+  for (const row of await storage.getFieldPrecedence()) {
+    try {
+      const sources = (JSON.parse(row.sources) as string[])
+        .filter((source): source is EnrichmentSource => (ENRICHMENT_SOURCES as readonly string[]).includes(source));
+      if ((ENRICHED_FIELDS as readonly string[]).includes(row.field)) precedence[row.field] = sources;
+    } catch (error) {
+      console.warn(`Ignoring invalid field precedence for ${row.field}:`, error);
+    }
+  }
+  return precedence;
+}
+
+export function parseFieldSources(text: string | null | undefined): FieldSources {
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Pick each field's value from the contributions by precedence:
+ * - a locked field keeps its stored value
+ * - otherwise the highest-ranked source with a value wins, except that a stored value set by a
+ *   higher-ranked source that isn't part of this merge is kept (a sync doesn't undo a manual entry
+ *   that ranks above the sheets, and a file import doesn't undo carrier data)
+ * - with no value from any source the stored value stays
+ */
+export function mergeContributions(
+  existing: Shipment | undefined,
+  contributions: FieldContribution[],
+  precedence: FieldPrecedence,
+  now: Date = new Date()
+): EnrichmentResult {
+  const fieldSources = parseFieldSources(existing?.fieldSources);
+  const locked = new Set(existing?.lockedFields || []);
+  const present = new Set(contributions.map(contribution => contribution.source));
+  const values: EnrichedValues = {};
+  const changedFields: EnrichedField[] = [];
+
+  for (const field of ENRICHED_FIELDS) {
+    const stored = existing?.[field];
+    const set = (value: unknown) => ((values as Record<string, unknown>)[field] = value);
+    set(stored ?? undefined);
+    if (locked.has(field)) continue;
+
+    const order = precedence[field] || [];
+    const rank = (source: EnrichmentSource) => (order.includes(source) ? order.indexOf(source) : order.length);
+
+    let best: FieldContribution | null = null;
+    for (const contribution of contributions) {
+      if (isEmpty(contribution.values[field])) continue;
+      if (!best || rank(contribution.source) < rank(best.source)) best = contribution;
+    }
+    if (!best) continue;
+
+    const storedSource = fieldSources[field]?.source;
+    if (storedSource && !isEmpty(stored) && !present.has(storedSource) && rank(storedSource) < rank(best.source)) {
+      continue;
+    }
+
+    const value = best.values[field];
+    if (sameValue(value, stored) && storedSource === best.source) continue;
+
+    set(value);
+    fieldSources[field] = { source: best.source, at: now.toISOString() };
+    if (!sameValue(value, stored)) changedFields.push(field);
+  }
+
+  return { values, fieldSources, changedFields };
+}
+
+/**
+ * Field sources after a manual edit of `fields`. An explicit edit always applies, whatever the
+ * precedence says; lock the fields to keep later syncs from changing them.
+ */
+export function recordManualEdit(existing: Shipment, fields: EnrichedField[], now: Date = new Date()): FieldSources {
+  const fieldSources = parseFieldSources(existing.fieldSources);
+  for (const field of fields) {
+    fieldSources[field] = { source: "manual", at: now.toISOString() };
+  }
+  return fieldSources;
+}
@@ -1,43 +1,117 @@
 import axios, { AxiosError } from "axios";
-
-interface FedExTrackingInfo {
-  trackingNumber: string;
-  status: string;
-  statusDescription?: string; // FedEx's actual status text like "On the way"
-  estimatedDelivery?: string;
-  lastEventTime?: string; // Latest tracking event timestamp
-  lastLocation?: string;
-  events: Array<{
-    timestamp: string;
-    location: string;
-    status: string;
-    description: string;
-  }>;
-  childTrackingNumbers?: string[];
-  rawApiResponse?: any;
-}
-
-interface QueuedRequest {
-  trackingNumber: string;
+import { createHmac, timingSafeEqual } from "crypto";
+import { hostname } from "os";
+import type { FedExQueueItem, FedExQueueStatus } from "@shared/schema";
+import type { ShipmentStatus } from "@shared/status";
+import { storage } from "../storage";
+import type { CarrierProvider, TrackingInfo } from "./carriers";
+import { applyTrackingInfo } from "./trackingUpdates";
+
+type FedExTrackingInfo = TrackingInfo;
+
+// FedEx Track API derivedCode / latestStatusDetail.code values and the canonical status each one means
+const FEDEX_STATUS_CODES: Record<string, ShipmentStatus> = {
+  // Label created, not yet tendered
+  'OC': 'label_created', // Shipment information sent to FedEx
+  'IN': 'label_created', // Initiated
+  'DS': 'label_created', // Vehicle dispatched for pickup
+  'EP': 'label_created', // Enroute to pickup
+  'DR': 'label_created', // Vehicle furnished but not used
+  'RP': 'label_created', // Return label link emailed to return sender
+  'RG': 'label_created', // Return label link expiring soon
+
+  // Picked up
+  'PU': 'picked_up', // Picked up
+  'PX': 'picked_up', // Picked up (see details)
+  'AP': 'picked_up', // At pickup
+
+  // Moving through the FedEx network
+  'IT': 'in_transit', // In transit
+  'IX': 'in_transit', // In transit (see details)
+  'AR': 'in_transit', // Arrived at FedEx location
+  'DP': 'in_transit', // Departed FedEx location
+  'AF': 'in_transit', // At local FedEx facility
+  'OF': 'in_transit', // At FedEx origin facility
+  'FD': 'in_transit', // At FedEx destination
+  'SF': 'in_transit', // At sort facility
+  'LO': 'in_transit', // Left origin
+  'TR': 'in_transit', // Transfer
+  'EA': 'in_transit', // Enroute to airport
+  'EO': 'in_transit', // Enroute to origin airport
+  'AA': 'in_transit', // At airport
+  'PF': 'in_transit', // Plane in flight
+  'PL': 'in_transit', // Plane landed
+  'AC': 'in_transit', // At Canada Post facility
+  'AX': 'in_transit', // At USPS facility
+  'OX': 'in_transit', // Shipment information sent to USPS
+  'CH': 'in_transit', // Location changed
+  'CC': 'in_transit', // Cleared customs
+  'CP': 'in_transit', // Clearance in progress
+  'PM': 'in_transit', // In progress
+  'SP': 'in_transit', // Split status
+  'AO': 'in_transit', // Shipment arriving on-time
+  'RR': 'in_transit', // Delivery option requested
+  'RM': 'in_transit', // Delivery option requested - modified
+  'RC': 'in_transit', // Delivery option requested - cancelled
+
+  // Final mile
+  'OD': 'out_for_delivery', // Out for delivery
+  'ED': 'out_for_delivery', // Enroute to delivery
+  'AD': 'out_for_delivery', // At delivery
+
+  'DL': 'delivered', // Delivered
+
+  // Running late
+  'DY': 'delayed', // Delay
+  'DD': 'delayed', // Delivery delay
+  'PD': 'delayed', // Pickup delay
+  'CD': 'delayed', // Clearance delay
+
+  // Waiting for the recipient
+  'HL': 'on_hold', // Hold at location
+  'HP': 'on_hold', // Ready for recipient pickup
+
+  // Problems
+  'DE': 'exception', // Delivery exception
+  'SE': 'exception', // Shipment exception
+
+  'RS': 'returned', // Return to shipper
+  'RD': 'cancelled', // Return label link cancelled by shipment originator
+  'CA': 'cancelled', // Shipment cancelled
+};
+
+// A caller in this process waiting on a queued lookup
+interface QueueWaiter {
   resolve: (value: FedExTrackingInfo | null) => void;
   reject: (error: any) => void;
-  retryCount: number;
-  addedAt: number;
+  timer: NodeJS.Timeout;
 }
 
-export class FedExService {
+export class FedExService implements CarrierProvider {
+  readonly carrier = "fedex" as const;
+
   private apiKey: string | undefined;
   private apiSecret: string | undefined;
   private accountNumber: string | undefined;
+  private webhookSecret: string | undefined;
   private baseUrl = "https://apis.fedex.com";
 
   // Rate limiting
   private lastRequestTime = 0;
   private minRequestInterval = 2000; // 2 seconds between requests (conservative)
 
-  // Request queue
-  private requestQueue: QueuedRequest[] = [];
+  // Batching - FedEx accepts up to 30 tracking numbers per track request
+  private readonly maxBatchSize = 30;
+
+  // Request queue - persisted in fedex_request_queue, callers wait in memory.
+  // Each process only works on the lookups it queued, so results reach the callers waiting for them.
+  private readonly instance = `${hostname()}:${process.pid}`;
+  private waiters = new Map<string, QueueWaiter[]>();
   private isProcessingQueue = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private readonly doneRetention = 7 * 24 * 60 * 60 * 1000; // keep finished lookups for 7 days
+  private readonly staleAfter = 10 * 60 * 1000; // a lookup untouched this long was left by a process that stopped
+  private readonly waiterTimeout = 15 * 60 * 1000; // callers get the stored result after this long
 
   // Retry configuration
   private readonly maxRetries = 3;
@@ -54,6 +128,7 @@ export class FedExService {
     this.apiKey = process.env.FEDEX_API_KEY;
     this.apiSecret = process.env.FEDEX_SECRET_KEY || process.env.FEDEX_API_SECRET;
     this.accountNumber = process.env.FEDEX_ACCOUNT_NUMBER;
+    this.webhookSecret = process.env.FEDEX_WEBHOOK_SECRET;
 
     if (!this.apiKey || !this.apiSecret) {
       console.warn("⚠️  FedEx API not configured - FEDEX_API_KEY or FEDEX_SECRET_KEY not set");
@@ -72,6 +147,81 @@ export class FedExService {
     return !!(this.apiKey && this.apiSecret);
   }
 
+  /**
+   * Check if the push notification webhook has a signing secret
+   */
+  isWebhookConfigured(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  /**
+   * Verify a push notification's HMAC-SHA256 signature against the raw request body.
+   * Accepts hex or base64 signatures, with or without a "sha256=" prefix.
+   */
+  verifyWebhookSignature(rawBody: Buffer, signature: string | undefined): boolean {
+    if (!this.webhookSecret || !signature) {
+      return false;
+    }
+
+    const provided = signature.trim().replace(/^sha256=/i, "");
+    const digest = createHmac("sha256", this.webhookSecret).update(rawBody).digest();
+
+    for (const encoding of ["hex", "base64"] as const) {
+      const expected = Buffer.from(digest.toString(encoding));
+      const actual = Buffer.from(provided);
+      if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Parse a push notification payload into tracking info, one entry per tracking number.
+   * Notifications carry the same trackResult objects as the Track API, either wrapped in
+   * output.completeTrackResults or as bare results, so they go through the same parsing.
+   */
+  async parseWebhookPayload(payload: any): Promise<FedExTrackingInfo[]> {
+    const items: any[] =
+      payload?.output?.completeTrackResults ||
+      payload?.completeTrackResults ||
+      (Array.isArray(payload) ? payload : [payload]);
+
+    const results: FedExTrackingInfo[] = [];
+
+    for (const item of items) {
+      // Bare trackResult objects get wrapped in the completeTrackResult shape
+      const completeResult = item?.trackResults
+        ? item
+        : item?.trackingNumberInfo
+        ? { trackingNumber: item.trackingNumberInfo.trackingNumber, trackResults: [item] }
+        : null;
+
+      const trackingNumber =
+        completeResult?.trackingNumber ||
+        completeResult?.trackResults?.[0]?.trackingNumberInfo?.trackingNumber;
+
+      if (!completeResult || !trackingNumber) {
+        console.warn("⚠️  FedEx push notification item has no tracking number - skipping");
+        continue;
+      }
+
+      const trackError = completeResult.trackResults?.[0]?.error;
+      if (trackError) {
+        console.warn(`⚠️  FedEx push error for ${trackingNumber}: ${trackError.code} - ${trackError.message}`);
+        continue;
+      }
+
+      const trackingInfo = await this.parseTrackResult(trackingNumber, completeResult);
+      if (trackingInfo) {
+        results.push(trackingInfo);
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Validate tracking number format
    */
@@ -99,21 +249,72 @@ export class FedExService {
       return null;
     }
 
-    return new Promise((resolve, reject) => {
-      // Add to queue
-      this.requestQueue.push({
-        trackingNumber,
-        resolve,
-        reject,
-        retryCount: 0,
-        addedAt: Date.now(),
-      });
+    return this.queueTrackingLookups([trackingNumber]).get(trackingNumber)!;
+  }
 
-      // Start processing queue if not already running
-      if (!this.isProcessingQueue) {
-        this.processQueue();
+  /**
+   * Queue lookups for many tracking numbers at once so the queue can batch them.
+   * Lookups are written to the database in one insert, so they survive a restart.
+   * Returns one promise per tracking number; each promise is pre-handled so callers
+   * can await them one at a time without triggering unhandled rejections.
+   */
+  queueTrackingLookups(trackingNumbers: string[]): Map<string, Promise<FedExTrackingInfo | null>> {
+    const uniqueTrackingNumbers = Array.from(new Set(trackingNumbers));
+    const lookups = new Map<string, Promise<FedExTrackingInfo | null>>();
+
+    if (!this.isConfigured()) {
+      for (const trackingNumber of uniqueTrackingNumbers) {
+        lookups.set(trackingNumber, Promise.resolve(null));
       }
-    });
+      return lookups;
+    }
+
+    for (const trackingNumber of uniqueTrackingNumbers) {
+      const lookup = new Promise<FedExTrackingInfo | null>((resolve, reject) => {
+        const waiter: QueueWaiter = {
+          resolve,
+          reject,
+          timer: setTimeout(() => this.timeOutWaiter(trackingNumber, waiter), this.waiterTimeout),
+        };
+        const waiting = this.waiters.get(trackingNumber) || [];
+        waiting.push(waiter);
+        this.waiters.set(trackingNumber, waiting);
+      });
+      lookup.catch(() => undefined);
+      lookups.set(trackingNumber, lookup);
+    }
+
+    storage.enqueueFedExLookups(uniqueTrackingNumbers, this.instance)
+      .then(() => this.processQueue())
+      .catch(error => {
+        console.error(`❌ Failed to queue ${uniqueTrackingNumbers.length} FedEx lookups:`, error.message);
+        for (const trackingNumber of uniqueTrackingNumbers) {
+          this.settleWaiters(trackingNumber, waiter => waiter.reject(error));
+        }
+      });
+
+    return lookups;
+  }
+
+  /**
+   * Resume the persisted queue after a restart.
+   * Lookups that were in flight when the process stopped are retried;
+   * their results are applied to shipments since the original callers are gone.
+   */
+  async resumeQueue(): Promise<void> {
+    if (!this.isConfigured()) return;
+
+    try {
+      const interrupted = await storage.resetInFlightFedExRequests(this.staleBefore());
+      const pruned = await storage.pruneFedExRequests(new Date(Date.now() - this.doneRetention));
+      const counts = await storage.getFedExQueueCounts();
+
+      console.log(`🔁 Resuming FedEx queue: ${counts.pending} pending (${interrupted} interrupted), ${counts.failed} failed, ${pruned} old entries pruned`);
+
+      this.processQueue();
+    } catch (error: any) {
+      console.error('❌ Failed to resume FedEx queue:', error.message);
+    }
   }
 
   /**
@@ -241,54 +442,162 @@ export class FedExService {
   }
 
   /**
-   * Process queued requests one at a time with rate limiting
+   * Process queued requests in batches of up to 30 tracking numbers with rate limiting
    */
   private async processQueue(): Promise<void> {
     if (this.isProcessingQueue) return;
 
     this.isProcessingQueue = true;
-    console.log(`🔄 Starting queue processing with ${this.requestQueue.length} requests`);
+    console.log('🔄 Starting queue processing');
 
-    while (this.requestQueue.length > 0) {
-      const request = this.requestQueue.shift()!;
+    try {
+      while (true) {
+        // Lookups queued together are inserted together, so one claim picks up the whole batch
+        const batch = await storage.claimFedExRequests(this.maxBatchSize, this.instance, this.staleBefore());
+        if (batch.length === 0) break;
 
-      try {
-        // Apply rate limiting
         await this.rateLimit();
+        await this.processBatch(batch);
+      }
+    } catch (error: any) {
+      console.error('❌ FedEx queue processing failed:', error.message);
+    } finally {
+      this.isProcessingQueue = false;
+    }
+
+    console.log('✅ Queue processing completed');
+    await this.scheduleRetry();
+  }
 
-        // Make the actual API call
-        const result = await this.fetchTrackingInfo(request.trackingNumber);
-        request.resolve(result);
+  /**
+   * Look up one claimed batch and record the outcome of each item
+   */
+  private async processBatch(batch: FedExQueueItem[]): Promise<void> {
+    const trackingNumbers = batch.map(item => item.trackingNumber);
 
-        console.log(`✅ Processed tracking: ${request.trackingNumber}`);
+    try {
+      // Make the actual API call
+      const results = await this.fetchTrackingBatch(trackingNumbers);
+      await storage.completeFedExRequests(batch.map(item => item.id));
 
-      } catch (error: any) {
-        // Handle rate limiting with retry
-        if (this.isRateLimitError(error)) {
-          if (request.retryCount < this.maxRetries) {
-            const delay = this.retryDelays[request.retryCount];
-            console.warn(`⏳ Rate limit hit for ${request.trackingNumber}, retrying in ${delay/1000}s (attempt ${request.retryCount + 1}/${this.maxRetries})`);
-
-            // Re-queue with incremented retry count
-            request.retryCount++;
-
-            // Wait before re-queuing
-            await new Promise(resolve => setTimeout(resolve, delay));
-            this.requestQueue.push(request);
-          } else {
-            console.error(`❌ Max retries exceeded for ${request.trackingNumber}`);
-            request.reject(new Error('Rate limit exceeded after max retries'));
-          }
-        } else {
-          // Non-rate-limit error
-          console.error(`❌ Error processing ${request.trackingNumber}:`, error.message);
-          request.reject(error);
+      for (const trackingNumber of trackingNumbers) {
+        const result = results.get(trackingNumber) ?? null;
+        const hadWaiters = this.settleWaiters(trackingNumber, waiter => waiter.resolve(result));
+
+        // Nobody in this process asked for it (queued by a process that stopped) - apply it directly
+        if (!hadWaiters && result) {
+          await this.applyOrphanResult(trackingNumber, result);
+        }
+      }
+
+      console.log(`✅ Processed batch of ${trackingNumbers.length} tracking numbers`);
+
+    } catch (error: any) {
+      // Handle rate limiting with retry
+      if (this.isRateLimitError(error)) {
+        const exhausted = batch.filter(item => item.attempts > this.maxRetries);
+        const retryable = batch.filter(item => item.attempts <= this.maxRetries);
+
+        await storage.failFedExRequests(exhausted.map(item => item.id), 'Rate limit exceeded after max retries');
+        for (const item of exhausted) {
+          console.error(`❌ Max retries exceeded for ${item.trackingNumber}`);
+          this.settleWaiters(item.trackingNumber, waiter => waiter.reject(new Error('Rate limit exceeded after max retries')));
+        }
+
+        for (const item of retryable) {
+          const delay = this.retryDelays[item.attempts - 1];
+          await storage.rescheduleFedExRequest(item.id, new Date(Date.now() + delay), error.message);
+        }
+
+        if (retryable.length > 0) {
+          const attempts = Math.max(...retryable.map(item => item.attempts));
+          console.warn(`⏳ Rate limit hit for batch of ${retryable.length}, retrying in ${this.retryDelays[attempts - 1]/1000}s (attempt ${attempts}/${this.maxRetries})`);
+        }
+      } else {
+        // Non-rate-limit error
+        console.error(`❌ Error processing batch of ${trackingNumbers.length}:`, error.message);
+        await storage.failFedExRequests(batch.map(item => item.id), error.message);
+        for (const trackingNumber of trackingNumbers) {
+          this.settleWaiters(trackingNumber, waiter => waiter.reject(error));
         }
       }
     }
+  }
 
-    this.isProcessingQueue = false;
-    console.log('✅ Queue processing completed');
+  /**
+   * Resolve or reject every caller waiting on a tracking number.
+   * Returns false if nobody in this process was waiting.
+   */
+  private settleWaiters(trackingNumber: string, settle: (waiter: QueueWaiter) => void): boolean {
+    const waiting = this.waiters.get(trackingNumber);
+    this.waiters.delete(trackingNumber);
+
+    if (!waiting || waiting.length === 0) return false;
+
+    for (const waiter of waiting) {
+      clearTimeout(waiter.timer);
+      settle(waiter);
+    }
+    return true;
+  }
+
+  /**
+   * Give up waiting on a lookup that hasn't finished in time (e.g. the number was already queued
+   * by another process, which applies the result itself) and hand back the shipment's stored result
+   */
+  private timeOutWaiter(trackingNumber: string, waiter: QueueWaiter): void {
+    const waiting = (this.waiters.get(trackingNumber) || []).filter(other => other !== waiter);
+    if (waiting.length > 0) {
+      this.waiters.set(trackingNumber, waiting);
+    } else {
+      this.waiters.delete(trackingNumber);
+    }
+
+    console.warn(`⏱️  FedEx lookup for ${trackingNumber} timed out, using the stored result`);
+    storage.getShipmentByTracking(trackingNumber)
+      .then(shipment => waiter.resolve(shipment?.fedexRawData ? JSON.parse(shipment.fedexRawData) : null))
+      .catch(waiter.reject);
+  }
+
+  private staleBefore(): Date {
+    return new Date(Date.now() - this.staleAfter);
+  }
+
+  /**
+   * Save a result whose caller no longer exists onto the matching shipment
+   */
+  private async applyOrphanResult(trackingNumber: string, trackingInfo: FedExTrackingInfo): Promise<void> {
+    try {
+      const shipment = await storage.getShipmentByTracking(trackingNumber);
+      if (shipment) {
+        await applyTrackingInfo(shipment, trackingInfo);
+        console.log(`📦 Applied resumed lookup for ${trackingNumber}: ${trackingInfo.status}`);
+      }
+    } catch (error: any) {
+      console.error(`Failed to apply resumed lookup for ${trackingNumber}:`, error.message);
+    }
+  }
+
+  /**
+   * Wake the queue up when the next rate-limited retry is due
+   */
+  private async scheduleRetry(): Promise<void> {
+    try {
+      const nextAttemptAt = await storage.getNextFedExAttemptAt(this.instance);
+      if (!nextAttemptAt) return;
+
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+      }
+
+      const delay = Math.max(nextAttemptAt.getTime() - Date.now(), 0);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.processQueue();
+      }, delay);
+    } catch (error: any) {
+      console.error('❌ Failed to schedule FedEx queue retry:', error.message);
+    }
   }
 
   /**
@@ -308,22 +617,21 @@ export class FedExService {
   }
 
   /**
-   * Fetch tracking info from FedEx API with timeout
+   * Fetch tracking info for a batch of tracking numbers from FedEx API with timeout.
+   * Numbers FedEx could not track resolve to null without failing the rest of the batch.
    */
-  private async fetchTrackingInfo(trackingNumber: string): Promise<FedExTrackingInfo | null> {
+  private async fetchTrackingBatch(trackingNumbers: string[]): Promise<Map<string, FedExTrackingInfo | null>> {
     try {
       const token = await this.getAccessToken();
 
       const response = await axios.post(
         `${this.baseUrl}/track/v1/trackingnumbers`,
         {
-          trackingInfo: [
-            {
-              trackingNumberInfo: {
-                trackingNumber,
-              },
+          trackingInfo: trackingNumbers.map(trackingNumber => ({
+            trackingNumberInfo: {
+              trackingNumber,
             },
-          ],
+          })),
           includeDetailedScans: true,
         },
         {
@@ -335,41 +643,86 @@ export class FedExService {
         }
       );
 
-      return this.parseTrackingResponse(trackingNumber, response.data);
+      return await this.parseBatchResponse(trackingNumbers, response.data);
 
     } catch (error: any) {
       if (this.isRateLimitError(error)) {
         throw error; // Let queue handler deal with rate limits
       }
 
+      // A rejected batch shouldn't take every number down with it - retry one at a time
+      if (trackingNumbers.length > 1) {
+        console.warn(`⚠️  Batch of ${trackingNumbers.length} failed (${error.message}), retrying individually`);
+
+        const results = new Map<string, FedExTrackingInfo | null>();
+        for (const trackingNumber of trackingNumbers) {
+          await this.rateLimit();
+          const single = await this.fetchTrackingBatch([trackingNumber]);
+          results.set(trackingNumber, single.get(trackingNumber) ?? null);
+        }
+        return results;
+      }
+
       if (error.code === 'ECONNABORTED') {
-        console.error(`⏱️  Request timeout for ${trackingNumber}`);
-        return null;
+        console.error(`⏱️  Request timeout for ${trackingNumbers[0]}`);
+      } else {
+        console.error(`Error fetching tracking info for ${trackingNumbers[0]}:`, error.message);
       }
 
-      console.error(`Error fetching tracking info for ${trackingNumber}:`, error.message);
-      return null;
+      return new Map([[trackingNumbers[0], null]]);
     }
   }
 
   /**
-   * Parse FedEx API response and extract tracking information
+   * Split a batched FedEx response back into one result per requested tracking number
    */
-  private async parseTrackingResponse(trackingNumber: string, data: any): Promise<FedExTrackingInfo | null> {
-    const trackingResult = data.output?.completeTrackResults?.[0];
-    if (!trackingResult) {
-      console.warn(`No tracking results for ${trackingNumber}`);
-      return null;
+  private async parseBatchResponse(trackingNumbers: string[], data: any): Promise<Map<string, FedExTrackingInfo | null>> {
+    const completeTrackResults: any[] = data.output?.completeTrackResults || [];
+    const results = new Map<string, FedExTrackingInfo | null>();
+
+    for (const trackingNumber of trackingNumbers) {
+      const completeResult = completeTrackResults.find((result: any) =>
+        result.trackingNumber === trackingNumber ||
+        result.trackResults?.[0]?.trackingNumberInfo?.trackingNumber === trackingNumber
+      );
+
+      if (!completeResult) {
+        console.warn(`No tracking results for ${trackingNumber}`);
+        results.set(trackingNumber, null);
+        continue;
+      }
+
+      // Per-number errors (e.g. TRACKING.TRACKINGNUMBER.NOTFOUND) only affect that number
+      const trackError = completeResult.trackResults?.[0]?.error;
+      if (trackError) {
+        console.warn(`⚠️  FedEx error for ${trackingNumber}: ${trackError.code} - ${trackError.message}`);
+        results.set(trackingNumber, null);
+        continue;
+      }
+
+      try {
+        results.set(trackingNumber, await this.parseTrackResult(trackingNumber, completeResult));
+      } catch (error: any) {
+        console.error(`Error parsing tracking info for ${trackingNumber}:`, error.message);
+        results.set(trackingNumber, null);
+      }
     }
 
-    const latestStatus = trackingResult.trackResults?.[0];
+    return results;
+  }
+
+  /**
+   * Parse a single FedEx completeTrackResult and extract tracking information
+   */
+  private async parseTrackResult(trackingNumber: string, completeResult: any): Promise<FedExTrackingInfo | null> {
+    const latestStatus = completeResult.trackResults?.[0];
     if (!latestStatus) {
       console.warn(`No track results for ${trackingNumber}`);
       return null;
     }
 
     // Extract child tracking numbers (for multi-package shipments)
-    let childTrackingNumbers = this.extractChildTrackingNumbers(data);
+    let childTrackingNumbers = this.extractChildTrackingNumbers(completeResult);
 
     // If this looks like a master tracking number with associated shipments, fetch them
     const hasAssociatedShipments = latestStatus.additionalTrackingInfo?.hasAssociatedShipments;
@@ -389,7 +742,8 @@ export class FedExService {
 
     const result: FedExTrackingInfo = {
       trackingNumber,
-      status: this.mapFedExStatus(latestStatus?.latestStatusDetail?.code),
+      // derivedCode is FedEx's normalised status; fall back to the raw scan code
+      status: this.mapStatus(latestStatus?.latestStatusDetail?.derivedCode || latestStatus?.latestStatusDetail?.code),
       statusDescription: latestStatus?.latestStatusDetail?.description, // FedEx's actual status text
       estimatedDelivery: latestStatus?.dateAndTimes?.find((d: any) => d.type === "ESTIMATED_DELIVERY")?.dateTime,
       lastEventTime: lastEventTime, // Most recent tracking event timestamp
@@ -399,9 +753,14 @@ export class FedExService {
         location: this.formatLocation(event.scanLocation),
         status: event.eventDescription,
         description: event.eventDescription,
+        eventType: event.eventType || undefined,
+        city: event.scanLocation?.city || undefined,
+        stateOrProvince: event.scanLocation?.stateOrProvinceCode || undefined,
+        countryCode: event.scanLocation?.countryCode || undefined,
       })),
       childTrackingNumbers,
-      rawApiResponse: data, // Store full response for debugging
+      // Store this number's result for debugging, in the same shape as a single-number response
+      rawApiResponse: { output: { completeTrackResults: [completeResult] } },
     };
 
     console.log(`📦 Parsed ${trackingNumber}: ${result.status}${childTrackingNumbers.length > 0 ? ` (${childTrackingNumbers.length} child packages)` : ''}`);
@@ -413,12 +772,12 @@ export class FedExService {
    * Extract child tracking numbers from API response
    * This eliminates the need for manual entry
    */
-  private extractChildTrackingNumbers(data: any): string[] {
+  private extractChildTrackingNumbers(completeResult: any): string[] {
     const childNumbers: string[] = [];
 
     try {
       // Check for associated shipments in the response
-      const trackResults = data.output?.completeTrackResults?.[0]?.trackResults || [];
+      const trackResults = completeResult.trackResults || [];
 
       for (const result of trackResults) {
         // Look for additional tracking numbers in various response fields
@@ -456,13 +815,10 @@ export class FedExService {
         }
       }
 
-      // Also check if there are multiple trackResults (each could be a child package)
-      const completeTrackResults = data.output?.completeTrackResults || [];
-      for (const completeResult of completeTrackResults) {
-        const trackNum = completeResult.trackingNumber;
-        if (trackNum && !childNumbers.includes(trackNum)) {
-          childNumbers.push(trackNum);
-        }
+      // Also include the number this result was returned for
+      const trackNum = completeResult.trackingNumber;
+      if (trackNum && !childNumbers.includes(trackNum)) {
+        childNumbers.push(trackNum);
       }
     } catch (error) {
       console.warn('Could not extract child tracking numbers:', error);
@@ -543,40 +899,34 @@ export class FedExService {
   }
 
   /**
-   * Map FedEx status codes to our internal status
+   * Map a FedEx derivedCode or status code to our canonical status
    */
-  private mapFedExStatus(fedexStatus: string): string {
-    const statusMap: Record<string, string> = {
-      'IT': 'in_transit',
-      'OD': 'out_for_delivery',
-      'DL': 'delivered',
-      'DE': 'exception',
-      'PU': 'picked_up',
-      'OC': 'picked_up', // On FedEx vehicle for pickup
-      'AR': 'in_transit', // Arrived at FedEx location
-      'DP': 'in_transit', // Departed FedEx location
-      'PX': 'picked_up', // Picked up
-    };
-
-    return statusMap[fedexStatus] || 'pending';
+  mapStatus(fedexStatus: string): ShipmentStatus {
+    return FEDEX_STATUS_CODES[fedexStatus?.toUpperCase()] ?? 'pending';
   }
 
   /**
    * Get queue status for monitoring
    */
-  getQueueStatus(): { queueLength: number; isProcessing: boolean } {
+  async getQueueStatus(): Promise<{ queueLength: number; isProcessing: boolean; counts: Record<FedExQueueStatus, number> }> {
+    const counts = await storage.getFedExQueueCounts();
     return {
-      queueLength: this.requestQueue.length,
+      queueLength: counts.pending + counts.in_flight,
       isProcessing: this.isProcessingQueue,
+      counts,
     };
   }
 
   /**
    * Clear the request queue (for emergency situations)
+   * Pending lookups are marked failed; lookups already in flight finish normally.
    */
-  clearQueue(): void {
+  async clearQueue(): Promise<void> {
     console.warn('⚠️  Clearing FedEx request queue');
-    this.requestQueue = [];
+    const cleared = await storage.clearPendingFedExRequests('Cleared manually');
+    for (const trackingNumber of cleared) {
+      this.settleWaiters(trackingNumber, waiter => waiter.reject(new Error('FedEx request queue cleared')));
+    }
   }
 }
 
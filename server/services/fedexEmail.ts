@@ -0,0 +1,218 @@
+import { convert } from "html-to-text";
+import { simpleParser, type AddressObject } from "mailparser";
+import { detectCarrier } from "@shared/carriers";
+
+/**
+ * What a FedEx shipment notification email ("Your package is on the way", "Shipment
+ * Notification", "... shipped your package") says about a shipment. FedEx has changed these
+ * templates a few times, so fields are found by their label ("Tracking number", "Ship date",
+ * "Purchase order number", ...) whether the value follows on the same line or the next one.
+ */
+export interface FedExNotification {
+  messageId: string | null;
+  from: string | null; // sender address
+  subject: string | null;
+  sentAt: Date | null;
+  trackingNumbers: string[]; // every tracking number in the email, master first when there is one
+  masterTrackingNumber: string | null;
+  shipDate: string | null; // M/D/YYYY
+  scheduledDelivery: string | null; // M/D/YYYY
+  shipperName: string | null;
+  shipperCompany: string | null;
+  recipientName: string | null;
+  recipientCompany: string | null;
+  references: Record<string, string>; // label as in the email -> value, e.g. { "Purchase order number": "4500012345" }
+  packageCount: number | null;
+  totalWeight: string | null;
+  serviceType: string | null;
+  packageType: string | null;
+}
+
+type LabeledField =
+  | "masterTrackingNumber"
+  | "trackingNumber"
+  | "shipDate"
+  | "scheduledDelivery"
+  | "from"
+  | "to"
+  | "reference"
+  | "packageCount"
+  | "weight"
+  | "serviceType"
+  | "packageType";
+
+const LABELS: Array<{ field: LabeledField; pattern: RegExp }> = [
+  { field: "masterTrackingNumber", pattern: /^master tracking (number|no\.?|#)$/i },
+  { field: "trackingNumber", pattern: /^tracking (number|no\.?|#|id)$/i },
+  { field: "shipDate", pattern: /^ship(ped)? date$/i },
+  { field: "scheduledDelivery", pattern: /^(scheduled|estimated) delivery( date)?$/i },
+  { field: "from", pattern: /^(from|shipper|shipper information|ship from)$/i },
+  { field: "to", pattern: /^(to|recipient|recipient information|ship to)$/i },
+  {
+    field: "reference",
+    pattern: /^(reference|reference number|customer reference|purchase order|purchase order number|po number|po #|invoice number|invoice #|department number|shipment id)$/i,
+  },
+  { field: "packageCount", pattern: /^(number of packages|total pieces|pieces)$/i },
+  { field: "weight", pattern: /^(total shipment weight|total weight|weight)$/i },
+  { field: "serviceType", pattern: /^service( type)?$/i },
+  { field: "packageType", pattern: /^(packaging|package|packaging type|package type)$/i },
+];
+
+// FedEx lays its emails out in tables; every cell becomes its own line so labels and values separate
+const HTML_TO_TEXT_OPTIONS = {
+  wordwrap: false as const,
+  selectors: [
+    { selector: "a", options: { ignoreHref: true } },
+    { selector: "img", format: "skip" },
+    ...["table", "tbody", "tr", "td", "th"].map(selector => ({ selector, format: "block" })),
+  ],
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function labelOf(text: string): LabeledField | null {
+  const cleaned = text.trim().replace(/[:\s]+$/, "");
+  return LABELS.find(label => label.pattern.test(cleaned))?.field ?? null;
+}
+
+/**
+ * "Mon, 10/19/2026", "Monday, October 19, 2026 by end of day" or "10/19/26" as M/D/YYYY
+ */
+export function formatEmailDate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3];
+    return `${parseInt(numeric[1])}/${parseInt(numeric[2])}/${year}`;
+  }
+  const named = text.match(/\b([a-z]{3})[a-z]*\.? (\d{1,2}),? (\d{4})\b/i);
+  const month = named ? MONTHS.indexOf(named[1].toLowerCase()) : -1;
+  return named && month >= 0 ? `${month + 1}/${parseInt(named[2])}/${named[3]}` : null;
+}
+
+function fedexTrackingNumbers(text: string): string[] {
+  return (text.match(/\b\d[\d ]{10,26}\d\b/g) || [])
+    .map(candidate => candidate.replace(/\s+/g, ""))
+    .filter(candidate => detectCarrier(candidate) === "fedex");
+}
+
+// A party block: the person or company on the first line, the company on the second unless it's an
+// address. Email addresses are skipped (forwarded notifications keep "From:"/"To:" header lines).
+function readParty(lines: string[]): { name: string | null; company: string | null } {
+  const [first, second] = lines.filter(line => !line.includes("@"));
+  if (!first) return { name: null, company: null };
+  if (second && !/\d/.test(second)) return { name: first, company: second };
+  return { name: null, company: first };
+}
+
+function senderAddress(from: AddressObject | undefined): string | null {
+  return from?.value[0]?.address?.toLowerCase() || null;
+}
+
+/**
+ * Read the labeled fields of a notification's text. Values are either after the label on the
+ * same line ("Ship date: Mon 10/19/2026") or on the following lines (label on a line of its own).
+ */
+function readLabeledFields(text: string) {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\u00A0/g, " ").trim());
+  const fields: Array<{ field: LabeledField; label: string; values: string[] }> = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line) continue;
+
+    const colon = line.indexOf(":");
+    const inlineField = colon > 0 ? labelOf(line.slice(0, colon)) : null;
+    if (inlineField && line.slice(colon + 1).trim()) {
+      fields.push({ field: inlineField, label: line.slice(0, colon).trim(), values: [line.slice(colon + 1).trim()] });
+      continue;
+    }
+
+    const field = labelOf(line);
+    if (!field) continue;
+    // The value block starts at the next non-blank line and runs until a blank line or the next label
+    let next = index + 1;
+    while (next < lines.length && !lines[next]) next++;
+    const values: string[] = [];
+    for (; next < lines.length && lines[next] && !labelOf(lines[next]) && values.length < 3; next++) {
+      values.push(lines[next]);
+    }
+    if (values.length > 0) {
+      fields.push({ field, label: line.replace(/[:\s]+$/, ""), values });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Read a parsed email as a FedEx shipment notification. Null unless it was sent by FedEx or is
+ * about a FedEx shipment, and has at least one FedEx tracking number in it.
+ */
+export function readFedExNotification(
+  mail: { messageId?: string; from?: AddressObject; subject?: string; date?: Date; text?: string }
+): FedExNotification | null {
+  const from = senderAddress(mail.from);
+  const subject = mail.subject?.trim() || null;
+  const text = mail.text || "";
+  const mentionsFedEx = (from?.endsWith("fedex.com") ?? false) || /fedex/i.test(subject || "") || /fedex/i.test(text);
+  if (!mentionsFedEx) return null;
+
+  const fields = readLabeledFields(text);
+  const first = (field: LabeledField) => fields.find(entry => entry.field === field)?.values ?? [];
+
+  const masterTrackingNumber = fedexTrackingNumbers(first("masterTrackingNumber").join(" "))[0] || null;
+  let trackingNumbers = fields
+    .filter(entry => entry.field === "trackingNumber")
+    .flatMap(entry => fedexTrackingNumbers(entry.values[0]));
+  // Older templates only have the number in the subject ("FedEx Shipment 123456789012 ...")
+  if (trackingNumbers.length === 0) trackingNumbers = fedexTrackingNumbers(subject || "");
+  if (masterTrackingNumber) trackingNumbers.unshift(masterTrackingNumber);
+  trackingNumbers = Array.from(new Set(trackingNumbers));
+  if (trackingNumbers.length === 0) return null;
+
+  const shipper = readParty(first("from"));
+  const recipient = readParty(first("to"));
+  // "ACME SUPPLY shipped your package", "Your package from ACME SUPPLY is on the way"
+  const subjectShipper = subject?.match(/^(.+?) (?:has )?shipped your/i)?.[1] || subject?.match(/from (.+?) is on (?:its|the) way/i)?.[1];
+
+  const references: Record<string, string> = {};
+  for (const entry of fields.filter(entry => entry.field === "reference")) {
+    references[entry.label] = entry.values[0];
+  }
+
+  const packageCount = parseInt(first("packageCount")[0] || "");
+
+  return {
+    messageId: mail.messageId || null,
+    from,
+    subject,
+    sentAt: mail.date ?? null,
+    trackingNumbers,
+    masterTrackingNumber: masterTrackingNumber || (trackingNumbers.length > 1 ? trackingNumbers[0] : null),
+    shipDate: formatEmailDate(first("shipDate")[0]),
+    scheduledDelivery: formatEmailDate(first("scheduledDelivery")[0]),
+    shipperName: shipper.name,
+    shipperCompany: shipper.company || subjectShipper?.trim() || null,
+    recipientName: recipient.name,
+    recipientCompany: recipient.company,
+    references,
+    packageCount: packageCount > 0 ? packageCount : null,
+    totalWeight: first("weight")[0] || null,
+    serviceType: first("serviceType")[0] || null,
+    packageType: first("packageType")[0] || null,
+  };
+}
+
+/**
+ * Parse a raw RFC 822 message (.eml or maildir file) and read it as a FedEx notification.
+ * `notification` is null when the email isn't one.
+ */
+export async function parseNotificationEmail(raw: Buffer): Promise<{ subject: string | null; from: string | null; notification: FedExNotification | null }> {
+  const mail = await simpleParser(raw, { skipImageLinks: true });
+  const text = mail.html ? convert(mail.html, HTML_TO_TEXT_OPTIONS) : mail.text;
+  return {
+    subject: mail.subject?.trim() || null,
+    from: senderAddress(mail.from),
+    notification: readFedExNotification({ ...mail, text }),
+  };
+}
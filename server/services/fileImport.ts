@@ -0,0 +1,382 @@
+import { createReadStream } from "fs";
+import { open } from "fs/promises";
+import csv from "csv-parser";
+import ExcelJS from "exceljs";
+import type { ImportProfile } from "@shared/schema";
+import { normalizeHeader } from "@shared/sheetMappings";
+import type { ImportColumns, ImportField } from "@shared/importProfiles";
+import {
+  runImportJob,
+  type ImportJobDetails,
+  type ImportJobItem,
+  type ImportJobResult,
+  type RejectedImportRow,
+} from "./importJobs";
+
+export type UploadFormat = "csv" | "tsv" | "xlsx";
+
+export interface UploadedRow {
+  rowNumber: number; // 1-based record number in the file, the header being row 1
+  values: Record<string, string>; // keyed by normalized header
+}
+
+export interface UploadedRows {
+  format: UploadFormat;
+  headers: string[]; // header text as in the file, filled in once the header row has been read
+  rows: AsyncGenerator<UploadedRow>;
+}
+
+/**
+ * Thrown when an upload can't be read as shipments at all (unknown format, no tracking number column).
+ * `error` is the short reason shown to the user.
+ */
+export class ImportFormatError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+export interface ImportRowReport {
+  rowNumber: number;
+  trackingNumber: string | null;
+  masterTrackingNumber: string | null;
+  errors: string[];
+}
+
+export interface ImportedShipment {
+  trackingNumber: string;
+  status: string;
+  scheduledDelivery?: string;
+  shipperName?: string;
+  shipperCompany?: string;
+  recipientName?: string;
+  recipientCompany?: string;
+  masterTrackingNumber?: string;
+  carrier?: string;
+  packageCount: number;
+  packageType?: string;
+  packageWeight?: string;
+  totalWeight?: string;
+  direction?: string;
+  serviceType?: string;
+  childTrackingNumbers?: string[];
+  rowNumbers: number[]; // file rows this shipment was built from
+}
+
+export interface ImportReport {
+  fileName: string;
+  format: UploadFormat;
+  profileId: string;
+  headers: string[];
+  unmappedHeaders: string[]; // file columns the profile doesn't use
+  missingFields: ImportField[]; // profile fields none of whose headers are in the file
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  rows: ImportRowReport[]; // rows with errors
+  shipments: ImportedShipment[]; // valid rows grouped by master tracking number
+}
+
+/**
+ * Work out the file format from its name, falling back to the first bytes (XLSX files are zip archives)
+ */
+export async function detectUploadFormat(filePath: string, fileName: string): Promise<UploadFormat> {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "xlsx") return "xlsx";
+  if (extension === "xls") {
+    throw new ImportFormatError("Unsupported file type", "Old .xls workbooks can't be read; save the file as .xlsx or CSV");
+  }
+  if (extension === "tsv") return "tsv";
+
+  const file = await open(filePath, "r");
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(4096), 0, 4096, 0);
+    const head = buffer.subarray(0, bytesRead);
+    if (head[0] === 0x50 && head[1] === 0x4b) return "xlsx"; // "PK"
+
+    // Pasted FedEx data is tab-separated; decide on the header line
+    const firstLine = head.toString("utf8").split(/\r?\n/)[0];
+    return firstLine.includes("\t") ? "tsv" : "csv";
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Stream the rows of an uploaded CSV, TSV or XLSX file (first worksheet) keyed by normalized header
+ */
+export async function readUploadedRows(filePath: string, fileName: string): Promise<UploadedRows> {
+  const format = await detectUploadFormat(filePath, fileName);
+  const headers: string[] = [];
+  const rows = format === "xlsx" ? readWorkbookRows(filePath, headers) : readDelimitedRows(filePath, format, headers);
+  return { format, headers, rows };
+}
+
+async function* readDelimitedRows(filePath: string, format: "csv" | "tsv", headers: string[]): AsyncGenerator<UploadedRow> {
+  const parser = createReadStream(filePath).pipe(csv({
+    separator: format === "tsv" ? "\t" : ",",
+    mapHeaders: ({ header }) => {
+      headers.push(header.trim());
+      return normalizeHeader(header);
+    },
+  }));
+
+  let rowNumber = 1;
+  for await (const record of parser) {
+    rowNumber++;
+    yield { rowNumber, values: record };
+  }
+}
+
+async function* readWorkbookRows(filePath: string, headers: string[]): AsyncGenerator<UploadedRow> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    hyperlinks: "ignore",
+    styles: "ignore",
+  });
+
+  let firstSheet = true;
+  for await (const worksheet of workbook) {
+    // Only the first worksheet holds shipments; later ones still have to be read through
+    const isShipmentSheet = firstSheet;
+    firstSheet = false;
+
+    let keys: string[] | null = null;
+    for await (const row of worksheet) {
+      if (!isShipmentSheet) continue;
+
+      // row.values is 1-based: index 0 is always empty
+      const cells = (row.values as ExcelJS.CellValue[]).slice(1).map(cellText);
+      if (!keys) {
+        headers.push(...cells.map(cell => cell.trim()));
+        keys = cells.map(normalizeHeader);
+        continue;
+      }
+
+      const values: Record<string, string> = {};
+      keys.forEach((key, index) => {
+        if (key) values[key] = cells[index] ?? "";
+      });
+      yield { rowNumber: row.number, values };
+    }
+  }
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    return value.toLocaleDateString("en-US", { timeZone: "UTC" });
+  }
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map(part => part.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("error" in value) return "";
+  }
+  return String(value);
+}
+
+function readColumn(values: Record<string, string>, columns: ImportColumns, field: ImportField): string | undefined {
+  for (const header of columns[field] || []) {
+    const value = values[header]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Map an upload through an import profile and validate every row. Rows sharing a master tracking number
+ * become one shipment whose children are the rows' tracking numbers. Nothing is written.
+ * When `rowValues` is given it collects every data row's values by row number, for the import job.
+ */
+export async function buildImportReport(
+  upload: UploadedRows,
+  fileName: string,
+  profile: ImportProfile,
+  rowValues?: Map<number, Record<string, string>>
+): Promise<ImportReport> {
+  const columns: ImportColumns = JSON.parse(profile.columns);
+  const read = (values: Record<string, string>, field: ImportField) => readColumn(values, columns, field);
+  const withUnit = (weight: string | undefined) =>
+    weight && profile.weightUnit && /^\d+(\.\d+)?$/.test(weight) ? `${weight}${profile.weightUnit}` : weight;
+
+  const validRows: Array<{ rowNumber: number; shipment: Omit<ImportedShipment, "rowNumbers" | "childTrackingNumbers"> }> = [];
+  const rowReports: ImportRowReport[] = [];
+  const seenTrackingNumbers = new Map<string, number>();
+  let checkedHeaders = false;
+  let totalRows = 0;
+
+  for await (const row of upload.rows) {
+    if (!checkedHeaders) {
+      checkedHeaders = true;
+      assertTrackingNumberColumn(upload.headers, columns);
+    }
+
+    // Blank lines and repeated header rows (pasted from several pages) aren't data
+    if (Object.values(row.values).every(value => !value?.trim())) continue;
+    const trackingNumber = read(row.values, "trackingNumber")?.replace(/\s+/g, "") || null;
+    if (trackingNumber && columns.trackingNumber?.includes(normalizeHeader(trackingNumber))) continue;
+
+    totalRows++;
+    rowValues?.set(row.rowNumber, row.values);
+    const masterTrackingNumber = read(row.values, "masterTrackingNumber")?.replace(/\s+/g, "") || null;
+    const errors: string[] = [];
+
+    if (!trackingNumber) {
+      errors.push("Missing tracking number");
+    } else if (seenTrackingNumbers.has(trackingNumber)) {
+      errors.push(`Duplicate of row ${seenTrackingNumbers.get(trackingNumber)}`);
+    }
+
+    const packageCountText = read(row.values, "packageCount");
+    const packageCount = packageCountText ? Number(packageCountText) : 1;
+    if (!Number.isInteger(packageCount) || packageCount <= 0) {
+      errors.push(`Invalid package count "${packageCountText}"`);
+    }
+
+    if (errors.length > 0) {
+      rowReports.push({ rowNumber: row.rowNumber, trackingNumber, masterTrackingNumber, errors });
+      continue;
+    }
+
+    seenTrackingNumbers.set(trackingNumber!, row.rowNumber);
+    validRows.push({
+      rowNumber: row.rowNumber,
+      shipment: {
+        trackingNumber: trackingNumber!,
+        status: read(row.values, "status") || "Pending",
+        scheduledDelivery: read(row.values, "scheduledDelivery"),
+        shipperName: read(row.values, "shipperName"),
+        shipperCompany: read(row.values, "shipperCompany"),
+        recipientName: read(row.values, "recipientName"),
+        recipientCompany: read(row.values, "recipientCompany"),
+        masterTrackingNumber: masterTrackingNumber || undefined,
+        carrier: read(row.values, "carrier"),
+        packageCount,
+        packageType: read(row.values, "packageType"),
+        packageWeight: withUnit(read(row.values, "packageWeight")),
+        totalWeight: withUnit(read(row.values, "totalWeight")),
+        direction: read(row.values, "direction"),
+        serviceType: read(row.values, "serviceType"),
+      },
+    });
+  }
+
+  // An upload with no data rows never reached the header check
+  if (!checkedHeaders) assertTrackingNumberColumn(upload.headers, columns);
+
+  const fileHeaders = new Set(upload.headers.map(normalizeHeader));
+  const mappedHeaders = new Set(Object.values(columns).flat());
+
+  return {
+    fileName,
+    format: upload.format,
+    profileId: profile.id,
+    headers: upload.headers,
+    unmappedHeaders: upload.headers.filter(header => header && !mappedHeaders.has(normalizeHeader(header))),
+    missingFields: (Object.entries(columns) as Array<[ImportField, string[]]>)
+      .filter(([, headers]) => !headers.some(header => fileHeaders.has(header)))
+      .map(([field]) => field),
+    totalRows,
+    validRows: validRows.length,
+    invalidRows: rowReports.length,
+    rows: rowReports,
+    shipments: groupByMaster(validRows),
+  };
+}
+
+function assertTrackingNumberColumn(headers: string[], columns: ImportColumns): void {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  if (!columns.trackingNumber?.some(header => fileHeaders.has(header))) {
+    throw new ImportFormatError(
+      "No tracking number column",
+      `None of the profile's tracking number headers (${(columns.trackingNumber || []).join(", ") || "none"}) are in the file. Columns found: ${headers.join(", ") || "none"}`
+    );
+  }
+}
+
+/**
+ * Rows with a master tracking number become one shipment per master (data from the master's own row,
+ * else the first row) listing every row as a child; other rows are shipments of their own
+ */
+function groupByMaster(
+  rows: Array<{ rowNumber: number; shipment: Omit<ImportedShipment, "rowNumbers" | "childTrackingNumbers"> }>
+): ImportedShipment[] {
+  const groups = new Map<string, typeof rows>();
+  const shipments: ImportedShipment[] = [];
+
+  for (const row of rows) {
+    const master = row.shipment.masterTrackingNumber;
+    if (!master) {
+      shipments.push({ ...row.shipment, rowNumbers: [row.rowNumber] });
+      continue;
+    }
+    if (!groups.has(master)) groups.set(master, []);
+    groups.get(master)!.push(row);
+  }
+
+  groups.forEach((group, masterTrackingNumber) => {
+    const masterRow = group.find(row => row.shipment.trackingNumber === masterTrackingNumber) || group[0];
+    shipments.push({
+      ...masterRow.shipment,
+      trackingNumber: masterTrackingNumber,
+      masterTrackingNumber,
+      childTrackingNumbers: group.map(row => row.shipment.trackingNumber),
+      rowNumbers: group.map(row => row.rowNumber),
+    });
+  });
+
+  return shipments;
+}
+
+/**
+ * Turn a report into import job input: one item per shipment with the rows it came from,
+ * and the rows that failed validation
+ */
+export function toImportJobInput(
+  report: ImportReport,
+  rowValues: Map<number, Record<string, string>>
+): { items: ImportJobItem[]; rejected: RejectedImportRow[] } {
+  const items = report.shipments.map(({ rowNumbers, ...shipment }) => ({
+    shipment,
+    rows: rowNumbers.map((rowNumber, index) => ({
+      rowNumber,
+      // Grouped rows list their children in row order
+      trackingNumber: shipment.childTrackingNumbers?.[index] ?? shipment.trackingNumber,
+      values: rowValues.get(rowNumber) || {},
+    })),
+  }));
+
+  const rejected = report.rows.map(row => ({
+    rowNumber: row.rowNumber,
+    trackingNumber: row.trackingNumber,
+    values: rowValues.get(row.rowNumber) || {},
+    error: row.errors.join("; "),
+  }));
+
+  return { items, rejected };
+}
+
+/**
+ * Read a CSV, TSV or XLSX file through an import profile and import its valid rows as an import job.
+ * Throws ImportFormatError when the file can't be read as shipments.
+ */
+export async function importFile(
+  filePath: string,
+  fileName: string,
+  profile: ImportProfile,
+  details: Pick<ImportJobDetails, "source" | "importedBy">
+): Promise<ImportJobResult & { report: ImportReport }> {
+  const rowValues = new Map<number, Record<string, string>>();
+  const report = await buildImportReport(await readUploadedRows(filePath, fileName), fileName, profile, rowValues);
+  const { items, rejected } = toImportJobInput(report, rowValues);
+  const result = await runImportJob({
+    ...details,
+    fileName,
+    profileId: profile.id,
+    headers: report.headers,
+  }, items, rejected);
+  return { ...result, report };
+}
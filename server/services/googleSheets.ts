@@ -1,8 +1,84 @@
 import { google } from "googleapis";
+import { detectCarrier } from "@shared/carriers";
+
+// values.batchUpdate accepts many ranges per call; keep requests a sensible size
+const BATCH_UPDATE_CHUNK_SIZE = 500;
+
+// Picks a value (tracking number, master tracking number) out of a parsed row
+export type RowKey = (row: any) => string | undefined;
+
+// Used when the caller has no column mapping for the tracking number
+const defaultTrackingNumber: RowKey = row => row.trackingnumber || row["tracking number"];
+
+/**
+ * All rows of a sheet loaded once, indexed by tracking number and by master tracking number
+ */
+export class SheetIndex {
+  private byTracking = new Map<string, any>();
+  private byMaster = new Map<string, any[]>();
+
+  constructor(
+    readonly rows: any[],
+    getTrackingNumber: RowKey = defaultTrackingNumber,
+    getMasterTrackingNumber: RowKey = () => undefined
+  ) {
+    for (const row of rows) {
+      const trackingNumber = getTrackingNumber(row);
+      if (trackingNumber && !this.byTracking.has(trackingNumber)) {
+        this.byTracking.set(trackingNumber, row);
+      }
+
+      const master = getMasterTrackingNumber(row);
+      if (master) {
+        const children = this.byMaster.get(master) || [];
+        children.push(row);
+        this.byMaster.set(master, children);
+      }
+    }
+  }
+
+  /**
+   * The row for a tracking number, falling back to the first row listing it as their master
+   */
+  get(trackingNumber: string): any | null {
+    return this.byTracking.get(trackingNumber) ?? this.byMaster.get(trackingNumber)?.[0] ?? null;
+  }
+
+  getByMaster(masterTrackingNumber: string): any[] {
+    return this.byMaster.get(masterTrackingNumber) || [];
+  }
+
+  get size(): number {
+    return this.rows.length;
+  }
+}
+
+export interface SheetCellUpdate {
+  range: string; // A1 notation including the sheet name, e.g. 'Output'!K12
+  value: string;
+}
+
+/**
+ * Convert a 0-based column index to its sheet letter (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letter = "";
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
 
 export class GoogleSheetsService {
   private sheets;
   private auth;
+  // Writing needs the full spreadsheets scope; only ask for it when write-back is turned on
+  private writeEnabled = process.env.GOOGLE_SHEETS_WRITE_BACK === "true";
+  // Sheets API requests made by this process; callers diff it to count calls for a sync
+  private apiCalls = 0;
 
   constructor() {
     try {
@@ -15,7 +91,11 @@ export class GoogleSheetsService {
       const credentials = JSON.parse(serviceAccountJson);
       this.auth = new google.auth.GoogleAuth({
         credentials,
-        scopes: ["https://www.googleapis.com/auth/spreadsheets.readonly"],
+        scopes: [
+          this.writeEnabled
+            ? "https://www.googleapis.com/auth/spreadsheets"
+            : "https://www.googleapis.com/auth/spreadsheets.readonly",
+        ],
       });
 
       this.sheets = google.sheets({ version: "v4", auth: this.auth });
@@ -24,6 +104,15 @@ export class GoogleSheetsService {
     }
   }
 
+  private async getValues(params: { spreadsheetId: string; range: string }) {
+    this.apiCalls++;
+    return this.sheets!.spreadsheets.values.get(params);
+  }
+
+  getApiCallCount(): number {
+    return this.apiCalls;
+  }
+
   private isValidTrackingNumber(value: string): boolean {
     // FedEx tracking numbers are typically 12-15 digits, may contain some letters
     // Filter out headers like "Tracking Number", "TRACKING", empty strings, etc.
@@ -39,6 +128,11 @@ export class GoogleSheetsService {
     if (headerPatterns.test(trimmed)) {
       return false;
     }
+
+    // Accept anything matching a known carrier format (UPS 1Z..., 22-digit USPS, etc.)
+    if (detectCarrier(trimmed)) {
+      return true;
+    }
     
     // Accept if it's mostly digits (at least 70% digits) and reasonable length
     const digitCount = (trimmed.match(/\d/g) || []).length;
@@ -56,7 +150,7 @@ export class GoogleSheetsService {
     }
 
     try {
-      const response = await this.sheets.spreadsheets.values.get({
+      const response = await this.getValues({
         spreadsheetId,
         range,
       });
@@ -90,7 +184,40 @@ export class GoogleSheetsService {
     return sheetName;
   }
 
-  async readShipmentData(spreadsheetId: string, sheetName: string = "Sheet2"): Promise<any[]> {
+  /**
+   * Map sheet rows to objects keyed by lowercase header (first row). Empty cells are left out,
+   * and each object gets `_row`, its 1-based row number in the sheet.
+   */
+  private parseRows(rows: any[][]): any[] {
+    if (rows.length === 0) return [];
+
+    const headers = rows[0].map((h: string) => h.trim().toLowerCase());
+    const parsed = [];
+    for (let i = 1; i < rows.length; i++) {
+      const row = rows[i];
+      const rowData: any = { _row: i + 1 };
+
+      headers.forEach((header, index) => {
+        const value = row[index]?.toString().trim();
+        if (value) {
+          rowData[header] = value;
+        }
+      });
+
+      parsed.push(rowData);
+    }
+    return parsed;
+  }
+
+  /**
+   * Read rows as objects keyed by lowercase header. Each object also gets `_row`,
+   * the 1-based sheet row it came from, so changes can be written back to it.
+   */
+  async readShipmentData(
+    spreadsheetId: string,
+    sheetName: string = "Sheet2",
+    getTrackingNumber: RowKey = defaultTrackingNumber
+  ): Promise<any[]> {
     if (!this.sheets) {
       throw new Error("Google Sheets service not initialized");
     }
@@ -98,7 +225,7 @@ export class GoogleSheetsService {
     try {
       // Read all data starting from row 1 (headers) to get column mappings
       const range = `${this.escapeSheetName(sheetName)}!A1:Z`;
-      const response = await this.sheets.spreadsheets.values.get({
+      const response = await this.getValues({
         spreadsheetId,
         range,
       });
@@ -109,30 +236,13 @@ export class GoogleSheetsService {
         return [];
       }
 
-      // First row contains headers
-      const headers = rows[0].map((h: string) => h.trim().toLowerCase());
-      console.log(`Found headers: ${headers.join(", ")}`);
-
-      // Map remaining rows to objects
-      const shipments = [];
-      for (let i = 1; i < rows.length; i++) {
-        const row = rows[i];
-        const shipment: any = {};
-        
-        // Map each column to its header
-        headers.forEach((header, index) => {
-          const value = row[index]?.toString().trim();
-          if (value) {
-            shipment[header] = value;
-          }
-        });
-
-        // Only include rows with a tracking number
-        const trackingNum = shipment.trackingnumber || shipment["tracking number"];
-        if (trackingNum && this.isValidTrackingNumber(trackingNum)) {
-          shipments.push(shipment);
-        }
-      }
+      console.log(`Found headers: ${rows[0].map((h: string) => h.trim().toLowerCase()).join(", ")}`);
+
+      // Only include rows with a tracking number
+      const shipments = this.parseRows(rows).filter(shipment => {
+        const trackingNum = getTrackingNumber(shipment);
+        return !!trackingNum && this.isValidTrackingNumber(trackingNum);
+      });
 
       console.log(`Found ${shipments.length} valid shipments out of ${rows.length - 1} rows`);
       return shipments;
@@ -142,56 +252,116 @@ export class GoogleSheetsService {
     }
   }
 
-  async readShipmentDataByTracking(spreadsheetId: string, sheetName: string, trackingNumber: string): Promise<any | null> {
+  /**
+   * Load a whole sheet into an index for repeated lookups - one API call however many rows are looked up
+   */
+  async loadSheetIndex(
+    spreadsheetId: string,
+    sheetName: string,
+    getTrackingNumber: RowKey = defaultTrackingNumber,
+    getMasterTrackingNumber?: RowKey
+  ): Promise<SheetIndex> {
     if (!this.sheets) {
       throw new Error("Google Sheets service not initialized");
     }
 
-    try {
-      // Read all data from the sheet
-      const range = `${this.escapeSheetName(sheetName)}!A1:Z`;
-      const response = await this.sheets.spreadsheets.values.get({
-        spreadsheetId,
-        range,
-      });
+    const range = `${this.escapeSheetName(sheetName)}!A1:Z`;
+    const response = await this.getValues({
+      spreadsheetId,
+      range,
+    });
 
-      const rows = response.data.values;
-      if (!rows || rows.length === 0) {
-        return null;
-      }
+    return new SheetIndex(this.parseRows(response.data.values || []), getTrackingNumber, getMasterTrackingNumber);
+  }
 
-      // First row contains headers
-      const headers = rows[0].map((h: string) => h.trim().toLowerCase());
-
-      // Search for matching tracking number
-      for (let i = 1; i < rows.length; i++) {
-        const row = rows[i];
-        const rowData: any = {};
-        
-        // Map each column to its header
-        headers.forEach((header, index) => {
-          const value = row[index]?.toString().trim();
-          if (value) {
-            rowData[header] = value;
-          }
-        });
-
-        const rowTracking = rowData.trackingnumber || rowData["tracking number"];
-        if (rowTracking === trackingNumber) {
-          return rowData;
-        }
-      }
+  /**
+   * Headers (as written in the sheet) and the first `limit` parsed rows
+   */
+  async readSheetPreview(spreadsheetId: string, sheetName: string, limit: number = 10): Promise<{ headers: string[]; rows: any[] }> {
+    if (!this.sheets) {
+      throw new Error("Google Sheets service not initialized");
+    }
 
-      return null;
+    const response = await this.getValues({
+      spreadsheetId,
+      range: `${this.escapeSheetName(sheetName)}!A1:Z${limit + 1}`,
+    });
+
+    const values = response.data.values || [];
+    return {
+      headers: (values[0] || []).map((h: any) => h?.toString().trim() || ""),
+      rows: this.parseRows(values),
+    };
+  }
+
+  /**
+   * Look up one row by tracking number. Reads the whole sheet - use loadSheetIndex for more than one lookup.
+   */
+  async readShipmentDataByTracking(spreadsheetId: string, sheetName: string, trackingNumber: string): Promise<any | null> {
+    try {
+      const index = await this.loadSheetIndex(spreadsheetId, sheetName);
+      return index.get(trackingNumber);
     } catch (error) {
       console.error(`Error looking up tracking ${trackingNumber} in ${sheetName}:`, error);
       return null;
     }
   }
 
+  /**
+   * Header row of a sheet, trimmed but in its original case
+   */
+  async readHeaderRow(spreadsheetId: string, sheetName: string): Promise<string[]> {
+    if (!this.sheets) {
+      throw new Error("Google Sheets service not initialized");
+    }
+
+    const response = await this.getValues({
+      spreadsheetId,
+      range: `${this.escapeSheetName(sheetName)}!1:1`,
+    });
+
+    return (response.data.values?.[0] || []).map((h: any) => h?.toString().trim() || "");
+  }
+
+  /**
+   * Write single cells with values.batchUpdate, chunked; returns the number of API calls made
+   */
+  async batchUpdateCells(spreadsheetId: string, updates: SheetCellUpdate[]): Promise<number> {
+    if (!this.sheets) {
+      throw new Error("Google Sheets service not initialized");
+    }
+    if (!this.writeEnabled) {
+      throw new Error("Google Sheets write-back is not enabled (set GOOGLE_SHEETS_WRITE_BACK=true)");
+    }
+
+    let calls = 0;
+    for (let i = 0; i < updates.length; i += BATCH_UPDATE_CHUNK_SIZE) {
+      const chunk = updates.slice(i, i + BATCH_UPDATE_CHUNK_SIZE);
+      this.apiCalls++;
+      await this.sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          valueInputOption: "RAW",
+          data: chunk.map(update => ({ range: update.range, values: [[update.value]] })),
+        },
+      });
+      calls++;
+    }
+
+    return calls;
+  }
+
+  sheetRange(sheetName: string, cell: string): string {
+    return `${this.escapeSheetName(sheetName)}!${cell}`;
+  }
+
   isConfigured(): boolean {
     return !!this.sheets;
   }
+
+  isWriteEnabled(): boolean {
+    return !!this.sheets && this.writeEnabled;
+  }
 }
 
 export const googleSheetsService = new GoogleSheetsService();
@@ -0,0 +1,178 @@
+import { mkdir, readdir, readFile, rename, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { ImportJob, ImportProfile } from "@shared/schema";
+import { storage } from "../storage";
+import { importAsnFile } from "./ediImport";
+import { importFile } from "./fileImport";
+import { recordFailedImportJob, type ImportJobDetails } from "./importJobs";
+import type { JobProgress } from "./jobs";
+import type { SchedulerTrigger } from "./scheduler";
+
+const DELIMITED_EXTENSIONS = [".csv", ".tsv", ".xlsx"];
+const EDI_EXTENSIONS = [".edi", ".x12", ".856"];
+
+// Files changed this recently may still be being copied in; they're left for the next check
+const SETTLE_MS = 30 * 1000;
+
+const IMPORTED_BY = "Hot folder";
+
+export interface HotFolderFileResult {
+  fileName: string;
+  outcome: "processed" | "failed";
+  jobId: string | null;
+  imported: number;
+  failed: number;
+  rejected: number;
+  error?: string;
+}
+
+export interface HotFolderResult {
+  folder: string;
+  files: HotFolderFileResult[];
+  processed: number;
+  failed: number;
+  skipped: number; // still being written
+}
+
+/**
+ * Thrown when the hot folder can't be read at all (not configured, missing directory or import profile).
+ * `error` is the short reason shown to the user.
+ */
+export class HotFolderConfigurationError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "HotFolderConfigurationError";
+  }
+}
+
+export function getHotFolderDir(): string | null {
+  return process.env.HOT_FOLDER_DIR?.trim() || null;
+}
+
+// HOT_FOLDER_IMPORT_PROFILE names the import profile (by name or ID) that maps CSV/TSV/XLSX columns
+async function findImportProfile(): Promise<ImportProfile> {
+  const wanted = process.env.HOT_FOLDER_IMPORT_PROFILE?.trim();
+  if (!wanted) {
+    throw new HotFolderConfigurationError(
+      "No hot folder import profile",
+      "Set HOT_FOLDER_IMPORT_PROFILE to the name of the import profile for CSV, TSV and XLSX files"
+    );
+  }
+  const profiles = await storage.getImportProfiles();
+  const profile = profiles.find(profile => profile.id === wanted || profile.name.toLowerCase() === wanted.toLowerCase());
+  if (!profile) {
+    throw new HotFolderConfigurationError(
+      "Hot folder import profile not found",
+      `No import profile named "${wanted}": set HOT_FOLDER_IMPORT_PROFILE to the name or ID of an import profile`
+    );
+  }
+  return profile;
+}
+
+/**
+ * Move a file out of a watched folder into its processed/ or failed/ subfolder. Returns the new path.
+ */
+export async function moveToSubfolder(dir: string, fileName: string, subfolder: "processed" | "failed"): Promise<string> {
+  const targetDir = path.join(dir, subfolder);
+  await mkdir(targetDir, { recursive: true });
+  // Exports and mail clients reuse file names; keep every copy
+  const target = path.join(targetDir, `${new Date().toISOString().replace(/[:.]/g, "-")}_${fileName}`);
+  await rename(path.join(dir, fileName), target);
+  return target;
+}
+
+async function importHotFolderFile(dir: string, fileName: string, profile: ImportProfile | undefined): Promise<ImportJob> {
+  const filePath = path.join(dir, fileName);
+  const details: Pick<ImportJobDetails, "source" | "fileName" | "importedBy"> = {
+    source: "hot_folder",
+    fileName,
+    importedBy: IMPORTED_BY,
+  };
+
+  if (EDI_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) {
+    return (await importAsnFile(await readFile(filePath, "utf8"), details)).job;
+  }
+  if (!profile) {
+    throw new Error("No import profile for hot folder files: set HOT_FOLDER_IMPORT_PROFILE to the name of an import profile");
+  }
+  return (await importFile(filePath, fileName, profile, details)).job;
+}
+
+/**
+ * Import every new CSV, TSV, XLSX and EDI (856) file in HOT_FOLDER_DIR through the import pipeline,
+ * one import job per file. Files move to processed/, or to failed/ with a .error.txt next to them
+ * when nothing in them could be imported. Run by the scheduler every HOT_FOLDER_INTERVAL_MINUTES.
+ */
+export async function ingestHotFolder(progress: JobProgress, trigger: SchedulerTrigger): Promise<HotFolderResult> {
+  const dir = getHotFolderDir();
+  if (!dir) {
+    throw new HotFolderConfigurationError("No hot folder configured", "Set HOT_FOLDER_DIR to the directory to watch");
+  }
+
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    throw new HotFolderConfigurationError("Hot folder not readable", `Could not read ${dir}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const extensions = [...DELIMITED_EXTENSIONS, ...EDI_EXTENSIONS];
+  const candidates = entries
+    .filter(entry => entry.isFile() && !entry.name.startsWith(".") && extensions.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => entry.name)
+    .sort();
+
+  const files: string[] = [];
+  for (const fileName of candidates) {
+    const { mtimeMs } = await stat(path.join(dir, fileName));
+    if (Date.now() - mtimeMs >= SETTLE_MS) files.push(fileName);
+  }
+
+  const result: HotFolderResult = { folder: dir, files: [], processed: 0, failed: 0, skipped: candidates.length - files.length };
+  if (candidates.length === 0) return result;
+
+  // A missing or misspelled profile leaves the files where they are rather than failing every one of them
+  const needsProfile = files.some(fileName => DELIMITED_EXTENSIONS.includes(path.extname(fileName).toLowerCase()));
+  const profile = needsProfile ? await findImportProfile() : undefined;
+  progress.setPhase("Importing files", files.length);
+
+  for (const fileName of files) {
+    let fileResult: HotFolderFileResult;
+    try {
+      const job = await importHotFolderFile(dir, fileName, profile);
+      const error = job.imported === 0 && job.totalRows > 0
+        ? `No rows imported: ${job.failed} failed, ${job.rejected} rejected (import job ${job.id})`
+        : undefined;
+      fileResult = {
+        fileName,
+        outcome: error ? "failed" : "processed",
+        jobId: job.id,
+        imported: job.imported,
+        failed: job.failed,
+        rejected: job.rejected,
+        error,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Hot folder: ${fileName} failed:`, message);
+      const job = await recordFailedImportJob({ source: "hot_folder", fileName, importedBy: IMPORTED_BY }, message)
+        .catch(err => {
+          console.error(`Hot folder: could not record failed import of ${fileName}:`, err);
+          return null;
+        });
+      fileResult = { fileName, outcome: "failed", jobId: job?.id ?? null, imported: 0, failed: 0, rejected: 0, error: message };
+    }
+
+    const target = await moveToSubfolder(dir, fileName, fileResult.outcome);
+    if (fileResult.error) {
+      await writeFile(`${target}.error.txt`, `${fileResult.error}\n`);
+    }
+    result[fileResult.outcome]++;
+    result.files.push(fileResult);
+    progress.addResult(fileResult);
+    progress.advance();
+  }
+
+  console.log(`📂 Hot folder ${dir} (${trigger}): ${result.processed} processed, ${result.failed} failed, ${result.skipped} still being written`);
+  return result;
+}
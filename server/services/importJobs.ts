@@ -0,0 +1,305 @@
+import {
+  insertShipmentSchema,
+  type InsertShipment,
+  type UpsertShipment,
+  type ImportJob,
+  type ImportJobCounts,
+  type ImportJobRow,
+  type InsertImportJobRow,
+  type Shipment,
+} from "@shared/schema";
+import { normalizeStatus } from "@shared/status";
+import type { EnrichmentSource } from "@shared/enrichment";
+import { normalizeHeader } from "@shared/sheetMappings";
+import { storage } from "../storage";
+import { normalizeCarrier, resolveCarrier } from "./carriers";
+import { collectContributions, loadFieldPrecedence, mergeContributions, valuesEnricher } from "./enrichment";
+
+export type ImportSource = "upload" | "bulk" | "bulk_import" | "edi" | "hot_folder" | "email";
+
+export interface ImportJobDetails {
+  source: ImportSource;
+  fileName?: string | null;
+  importedBy?: string | null;
+  profileId?: string | null;
+  headers?: string[]; // file header row, used for the rejected-row CSV
+}
+
+export interface ImportSourceRow {
+  rowNumber: number;
+  trackingNumber: string | null;
+  values: Record<string, unknown>;
+}
+
+// One shipment to save and the source rows it was built from (several for a master with children)
+export interface ImportJobItem {
+  shipment: Record<string, any>;
+  rows: ImportSourceRow[];
+}
+
+// A source row that failed validation and is never saved
+export interface RejectedImportRow extends ImportSourceRow {
+  error: string;
+}
+
+export interface ImportJobResult {
+  job: ImportJob;
+  results: Array<{ trackingNumber: string; success: boolean; shipment?: Shipment; error?: string }>;
+}
+
+/**
+ * Thrown when a job can't be re-run (still running, nothing failed). `error` is the short reason.
+ */
+export class ImportJobError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "ImportJobError";
+  }
+}
+
+/**
+ * How each import source turns a posted shipment into one to save (throws if it can't). Re-running
+ * a failed row goes through the same path it originally took, so rows behave the same the second time.
+ */
+const PREPARERS: Record<ImportSource, (shipment: Record<string, any>) => InsertShipment> = {
+  upload: validateShipment,
+  bulk: validateShipment,
+  edi: validateShipment,
+  hot_folder: validateShipment,
+  email: validateShipment,
+  bulk_import: (shipment) => {
+    if (!shipment.trackingNumber) throw new Error("Missing tracking number");
+    return {
+      ...shipment,
+      carrier: normalizeCarrier(shipment.carrier),
+      status: normalizeStatus(shipment.status),
+      packageCount: shipment.packageCount || 1,
+    } as InsertShipment;
+  },
+};
+
+// Shipment notification emails only fill in fields an existing shipment doesn't have yet: a
+// "pending" status from an email must not undo anything a sheet or the carrier already said
+const FILL_ONLY_SOURCES: readonly ImportSource[] = ["email"];
+
+function enrichmentSourceOf(source: ImportSource): EnrichmentSource {
+  return source === "email" ? "email" : "file_import";
+}
+
+// The carrier is only the one given here; the stored one or format detection fills it in when saving
+function validateShipment(shipment: Record<string, any>): InsertShipment {
+  return insertShipmentSchema.parse({
+    ...shipment,
+    carrier: normalizeCarrier(shipment.carrier),
+  });
+}
+
+/**
+ * Prepare every shipment, then save the ones that passed in a single transaction: either all of
+ * them are saved or all of them fail with the database error. Imported values go through the
+ * field precedence merge as the "file_import" source ("email" for emails). Returns one outcome
+ * per shipment.
+ */
+async function saveShipments<T>(
+  items: T[],
+  payloadOf: (item: T) => Record<string, any> | null,
+  source: ImportSource
+): Promise<Array<{ item: T; shipment?: Shipment; error: string | null }>> {
+  const prepare = PREPARERS[source] || validateShipment;
+  const enrichmentSource = enrichmentSourceOf(source);
+  const fillOnly = FILL_ONLY_SOURCES.includes(source);
+  const outcomes = items.map(item => {
+    try {
+      const payload = payloadOf(item);
+      if (!payload) throw new Error("No shipment data recorded for this row");
+      return { item, prepared: prepare(payload), error: null as string | null };
+    } catch (error) {
+      return { item, prepared: null, error: errorMessage(error) };
+    }
+  });
+
+  const toSave = outcomes.filter(outcome => outcome.prepared);
+  let saved = new Map<string, Shipment>();
+  let saveError: string | null = null;
+  try {
+    const precedence = await loadFieldPrecedence();
+    const existing = new Map((await storage.getShipmentsByTrackingNumbers(toSave.map(outcome => outcome.prepared!.trackingNumber)))
+      .map(shipment => [shipment.trackingNumber, shipment]));
+    const shipments = await storage.upsertShipments(toSave.map(({ prepared }) => {
+      const current = existing.get(prepared!.trackingNumber);
+      const offered = fillOnly && current ? withoutStoredFields(prepared!, current) : prepared!;
+      const contributions = collectContributions(prepared!.trackingNumber, current, [valuesEnricher(enrichmentSource, offered)]);
+      const { values, fieldSources } = mergeContributions(current, contributions, precedence);
+      return {
+        ...prepared!,
+        ...values,
+        carrier: resolveCarrier(prepared!.trackingNumber, values.carrier),
+        fieldSources: JSON.stringify(fieldSources),
+      } as UpsertShipment;
+    }));
+    saved = new Map(shipments.map(shipment => [shipment.trackingNumber, shipment]));
+  } catch (error) {
+    console.error(`❌ Error saving ${toSave.length} imported shipments:`, error);
+    saveError = errorMessage(error);
+  }
+
+  return outcomes.map(({ item, prepared, error }) => prepared
+    ? { item, shipment: saved.get(prepared.trackingNumber), error: saveError }
+    : { item, error });
+}
+
+function withoutStoredFields(shipment: Record<string, any>, existing: Shipment): Record<string, any> {
+  return Object.fromEntries(Object.entries(shipment).filter(([field]) => {
+    const stored = (existing as Record<string, unknown>)[field];
+    return stored === null || stored === undefined || stored === "" || (Array.isArray(stored) && stored.length === 0);
+  }));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+function createJob(details: ImportJobDetails): Promise<ImportJob> {
+  return storage.createImportJob({
+    source: details.source,
+    fileName: details.fileName || null,
+    importedBy: details.importedBy?.trim() || null,
+    profileId: details.profileId || null,
+    headers: details.headers ? JSON.stringify(details.headers) : null,
+  });
+}
+
+/**
+ * Save an import's shipments and record it as an import job with one outcome per source row
+ */
+export async function runImportJob(
+  details: ImportJobDetails,
+  items: ImportJobItem[],
+  rejected: RejectedImportRow[] = []
+): Promise<ImportJobResult> {
+  const job = await createJob(details);
+  const results: ImportJobResult["results"] = [];
+  const jobRows: InsertImportJobRow[] = rejected.map(row => ({
+    rowNumber: row.rowNumber,
+    trackingNumber: row.trackingNumber,
+    outcome: "rejected",
+    error: row.error,
+    values: JSON.stringify(row.values),
+    shipment: null,
+  }));
+  const counts: ImportJobCounts = {
+    totalRows: rejected.length + items.reduce((sum, item) => sum + item.rows.length, 0),
+    imported: 0,
+    failed: 0,
+    rejected: rejected.length,
+  };
+
+  try {
+    for (const { item, shipment, error } of await saveShipments(items, item => item.shipment, details.source)) {
+      const trackingNumber = String(item.shipment.trackingNumber || "unknown");
+      results.push(error ? { trackingNumber, success: false, error } : { trackingNumber, success: true, shipment });
+
+      for (const row of item.rows) {
+        counts[error ? "failed" : "imported"]++;
+        jobRows.push({
+          rowNumber: row.rowNumber,
+          trackingNumber: row.trackingNumber,
+          outcome: error ? "failed" : "imported",
+          error,
+          values: JSON.stringify(row.values),
+          shipment: JSON.stringify(item.shipment),
+        });
+      }
+    }
+
+    await storage.addImportJobRows(job.id, jobRows);
+    const finished = await storage.finishImportJob(job.id, "completed", counts);
+    console.log(`✅ Import job ${job.id} (${details.source}): ${counts.imported} imported, ${counts.failed} failed, ${counts.rejected} rejected`);
+    return { job: finished || job, results };
+  } catch (error) {
+    await storage.finishImportJob(job.id, "failed", counts, errorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Record an import that failed before any row could be read (unreadable file, no import profile),
+ * so it still shows up in the import history with the reason
+ */
+export async function recordFailedImportJob(details: ImportJobDetails, message: string): Promise<ImportJob> {
+  const job = await createJob(details);
+  const counts: ImportJobCounts = { totalRows: 0, imported: 0, failed: 0, rejected: 0 };
+  return (await storage.finishImportJob(job.id, "failed", counts, message)) || job;
+}
+
+/**
+ * Save the failed rows of an import job again and update their outcomes. Rows that came from
+ * the same shipment are saved once.
+ */
+export async function rerunFailedRows(jobId: string): Promise<ImportJobResult | null> {
+  const job = await storage.getImportJob(jobId);
+  if (!job) return null;
+  if (job.status === "running") {
+    throw new ImportJobError("Import still running", "Wait for the import to finish before re-running it");
+  }
+
+  const failedRows = await storage.getImportJobRows(jobId, ["failed"]);
+  if (failedRows.length === 0) {
+    throw new ImportJobError("Nothing to re-run", "This import has no failed rows");
+  }
+
+  const groups = new Map<string, ImportJobRow[]>();
+  for (const row of failedRows) {
+    const key = row.shipment || `row:${row.id}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  const outcomes = await saveShipments(
+    Array.from(groups.values()),
+    rows => (rows[0].shipment ? JSON.parse(rows[0].shipment) : null),
+    job.source as ImportSource
+  );
+
+  const results: ImportJobResult["results"] = [];
+  for (const { item: rows, shipment, error } of outcomes) {
+    const trackingNumber = String(shipment?.trackingNumber || rows[0].trackingNumber || "unknown");
+    await storage.updateImportJobRows(rows.map(row => row.id), error ? "failed" : "imported", error);
+    results.push(error ? { trackingNumber, success: false, error } : { trackingNumber, success: true, shipment });
+  }
+
+  const updated = await storage.recountImportJob(jobId);
+  const imported = results.filter(result => result.success).length;
+  console.log(`🔁 Re-ran import job ${jobId}: ${imported}/${results.length} shipments imported`);
+  return { job: updated || job, results };
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The rejected and failed rows of an import job as CSV in the file's own columns, with the
+ * row number and error added, so they can be fixed and uploaded again
+ */
+export async function buildRejectedRowsCsv(job: ImportJob): Promise<string> {
+  const rows = await storage.getImportJobRows(job.id, ["rejected", "failed"]);
+  const values = rows.map(row => (row.values ? JSON.parse(row.values) : {}) as Record<string, unknown>);
+
+  // Uploads keep their header row; JSON imports use the keys of the posted objects
+  const fileHeaders: string[] | null = job.headers ? JSON.parse(job.headers) : null;
+  const columns = fileHeaders
+    ? fileHeaders.filter(Boolean).map(header => ({ label: header, key: normalizeHeader(header) }))
+    : Array.from(new Set(values.flatMap(value => Object.keys(value)))).map(key => ({ label: key, key }));
+
+  const lines = [["Row", ...columns.map(column => column.label), "Error"].map(csvCell).join(",")];
+  rows.forEach((row, index) => {
+    lines.push([
+      row.rowNumber,
+      ...columns.map(column => values[index][column.key]),
+      row.error,
+    ].map(csvCell).join(","));
+  });
+  return lines.join("\r\n") + "\r\n";
+}
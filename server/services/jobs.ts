@@ -0,0 +1,149 @@
+import { randomUUID } from "crypto";
+
+export type JobStatus = "running" | "succeeded" | "failed";
+
+/**
+ * What long-running work reports while it runs. Each phase has its own processed/total counts.
+ */
+export interface JobProgress {
+  setPhase(phase: string, total?: number): void;
+  advance(count?: number): void;
+  addResult(result: unknown): void;
+}
+
+// For callers that don't need progress (e.g. scripts)
+export const silentProgress: JobProgress = {
+  setPhase: () => undefined,
+  advance: () => undefined,
+  addResult: () => undefined,
+};
+
+export interface JobSnapshot {
+  id: string;
+  type: string;
+  trigger: string;
+  status: JobStatus;
+  phase: string;
+  processed: number;
+  total: number;
+  results: unknown[];
+  result: unknown;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export class Job implements JobProgress {
+  readonly id = randomUUID();
+  status: JobStatus = "running";
+  phase = "starting";
+  processed = 0;
+  total = 0;
+  results: unknown[] = [];
+  result: unknown = null;
+  error: string | null = null;
+  readonly startedAt = new Date();
+  finishedAt: Date | null = null;
+  // Settles once the job has succeeded or failed
+  done: Promise<void> = Promise.resolve();
+
+  constructor(readonly type: string, readonly trigger: string) {}
+
+  setPhase(phase: string, total: number = 0): void {
+    this.phase = phase;
+    this.processed = 0;
+    this.total = total;
+  }
+
+  advance(count: number = 1): void {
+    this.processed += count;
+  }
+
+  addResult(result: unknown): void {
+    this.results.push(result);
+  }
+
+  succeed(result: unknown): void {
+    this.status = "succeeded";
+    this.phase = "complete";
+    this.result = result;
+    this.finishedAt = new Date();
+  }
+
+  fail(error: unknown): void {
+    this.status = "failed";
+    this.error = error instanceof Error ? error.message : String(error);
+    this.finishedAt = new Date();
+  }
+
+  toJSON(): JobSnapshot {
+    return {
+      id: this.id,
+      type: this.type,
+      trigger: this.trigger,
+      status: this.status,
+      phase: this.phase,
+      processed: this.processed,
+      total: this.total,
+      results: this.results,
+      result: this.result,
+      error: this.error,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: this.finishedAt?.toISOString() ?? null,
+    };
+  }
+}
+
+/**
+ * In-memory registry of background jobs so HTTP requests can return straight away
+ * and clients poll /api/jobs/:id. Finished jobs are kept for an hour.
+ */
+export class JobManager {
+  private jobs = new Map<string, Job>();
+  private retentionMs = 60 * 60 * 1000; // 1 hour
+
+  create(type: string, trigger: string): Job {
+    this.prune();
+    const job = new Job(type, trigger);
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * The job of this type that is still running, if any
+   */
+  findRunning(type: string): Job | undefined {
+    return Array.from(this.jobs.values()).find(job => job.type === type && job.status === "running");
+  }
+
+  /**
+   * Start `work` in the background on a new job, recording its result or error on the job
+   */
+  run(type: string, trigger: string, work: (job: Job) => Promise<unknown>): Job {
+    const job = this.create(type, trigger);
+
+    job.done = work(job)
+      .then(result => job.succeed(result))
+      .catch(error => {
+        console.error(`Job ${job.id} (${type}) failed:`, error);
+        job.fail(error);
+      });
+
+    return job;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of Array.from(this.jobs.entries())) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+export const jobManager = new JobManager();
@@ -0,0 +1,122 @@
+import type { Shipment, ShipmentPackage } from "@shared/schema";
+import { isTerminalStatus } from "@shared/status";
+import { storage } from "../storage";
+import { queueTrackingLookupsByCarrier, type TrackingInfo } from "./carriers";
+import { recordTrackingEvents } from "./trackingUpdates";
+
+/**
+ * Child tracking numbers of a multi-piece shipment, without the master itself
+ */
+function getChildTrackingNumbers(shipment: Shipment): string[] {
+  return (shipment.childTrackingNumbers || []).filter(child => child !== shipment.trackingNumber);
+}
+
+/**
+ * Count delivered pieces of a multi-piece shipment.
+ * The master is a piece of its own unless the children already account for every package.
+ */
+export function countDeliveredPackages(shipment: Shipment, packages: ShipmentPackage[]): number {
+  const deliveredChildren = packages.filter(pkg => pkg.status === "delivered").length;
+  const masterIsPiece = packages.length < shipment.packageCount;
+  const deliveredMaster = masterIsPiece && shipment.status === "delivered" ? 1 : 0;
+
+  return Math.min(deliveredChildren + deliveredMaster, shipment.packageCount);
+}
+
+/**
+ * Make the package rows match the shipment's child tracking numbers and
+ * re-derive deliveredPackageCount from them
+ */
+export async function syncShipmentPackages(shipment: Shipment): Promise<ShipmentPackage[]> {
+  const children = getChildTrackingNumbers(shipment);
+  const packages = await storage.syncShipmentPackages(shipment.trackingNumber, shipment.carrier, children);
+
+  if (packages.length > 0) {
+    const deliveredPackageCount = countDeliveredPackages(shipment, packages);
+    if (deliveredPackageCount !== shipment.deliveredPackageCount) {
+      await storage.updateShipment(shipment.id, { deliveredPackageCount });
+    }
+  }
+
+  return packages;
+}
+
+function buildPackageUpdates(pkg: ShipmentPackage, trackingInfo: TrackingInfo): Partial<ShipmentPackage> {
+  const latestEvent = trackingInfo.events?.[0];
+  const deliveredAt = trackingInfo.status === "delivered" && trackingInfo.lastEventTime
+    ? new Date(trackingInfo.lastEventTime)
+    : null;
+
+  return {
+    status: trackingInfo.status || pkg.status,
+    statusDescription: trackingInfo.statusDescription || pkg.statusDescription,
+    lastEventTime: trackingInfo.lastEventTime || pkg.lastEventTime,
+    lastEventDescription: latestEvent?.description || pkg.lastEventDescription,
+    lastLocation: trackingInfo.lastLocation || pkg.lastLocation,
+    deliveredAt: deliveredAt && !isNaN(deliveredAt.getTime()) ? deliveredAt : pkg.deliveredAt,
+  };
+}
+
+/**
+ * Look up every undelivered piece of the given multi-piece shipments with their carrier,
+ * then update each piece and the shipment's derived deliveredPackageCount.
+ * Lookups for all shipments are queued together so they share batches.
+ */
+export async function refreshShipmentPackages(shipments: Shipment[]): Promise<{ refreshed: number; failed: number }> {
+  const multiPiece = shipments.filter(shipment => getChildTrackingNumbers(shipment).length > 0);
+  if (multiPiece.length === 0) return { refreshed: 0, failed: 0 };
+
+  const packagesByShipment = new Map<Shipment, ShipmentPackage[]>();
+  for (const shipment of multiPiece) {
+    packagesByShipment.set(shipment, await storage.syncShipmentPackages(
+      shipment.trackingNumber,
+      shipment.carrier,
+      getChildTrackingNumbers(shipment)
+    ));
+  }
+
+  const activePackages = Array.from(packagesByShipment.values())
+    .flat()
+    .filter(pkg => !isTerminalStatus(pkg.status));
+  const lookups = queueTrackingLookupsByCarrier(activePackages);
+
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const [shipment, packages] of Array.from(packagesByShipment.entries())) {
+    const updatedPackages: ShipmentPackage[] = [];
+
+    for (const pkg of packages) {
+      const lookup = lookups.get(pkg.trackingNumber);
+      if (!lookup) {
+        updatedPackages.push(pkg);
+        continue;
+      }
+
+      try {
+        const trackingInfo = await lookup;
+        if (!trackingInfo) {
+          updatedPackages.push(pkg);
+          continue;
+        }
+
+        await recordTrackingEvents(pkg.trackingNumber, pkg.carrier, trackingInfo);
+        const updated = await storage.updateShipmentPackage(pkg.id, buildPackageUpdates(pkg, trackingInfo));
+        updatedPackages.push(updated || pkg);
+        refreshed++;
+      } catch (error) {
+        console.error(`Failed to refresh package ${pkg.trackingNumber} of ${shipment.trackingNumber}:`, error);
+        updatedPackages.push(pkg);
+        failed++;
+      }
+    }
+
+    const deliveredPackageCount = countDeliveredPackages(shipment, updatedPackages);
+    if (deliveredPackageCount !== shipment.deliveredPackageCount) {
+      await storage.updateShipment(shipment.id, { deliveredPackageCount });
+      console.log(`📦 ${shipment.trackingNumber}: ${deliveredPackageCount}/${shipment.packageCount} packages delivered`);
+    }
+  }
+
+  return { refreshed, failed };
+}
@@ -0,0 +1,202 @@
+import type { ScanEvent, ScanInput, ScanningSession, ScanningSessionScan } from "@shared/schema";
+import { storage, type ScannerDetails } from "../storage";
+
+export interface ScanningSessionDetails extends ScanningSession {
+  scans: ScanningSessionScan[];
+  duplicates: DuplicateScan[];
+}
+
+export interface DuplicateScan {
+  trackingNumber: string;
+  count: number; // times it was scanned in the session
+  events: ScanEvent[]; // every scan of it, first one first
+}
+
+export interface AddScansResult {
+  added: ScanningSessionScan[]; // numbers new to the session
+  duplicates: ScanEvent[]; // scans of numbers that were already in it
+}
+
+// The answer to "when was this package scanned in"
+export interface ScanHistory {
+  trackingNumber: string;
+  firstScannedAt: Date | null;
+  lastScannedAt: Date | null;
+  scanCount: number;
+  events: ScanEvent[];
+}
+
+export interface ScanningProgress {
+  sessionIds: string[]; // sessions the scanned counts come from
+  totalExpected: number;
+  totalScanned: number;
+  percentageScanned: number;
+  pendingPackages: number;
+  scannedNotComplete: number;
+  completedPackages: number;
+  lastUpdate: string;
+}
+
+/**
+ * Thrown when a session can't take the change asked for (unknown, or already closed).
+ * `error` is the short reason shown to the user.
+ */
+export class ScanningSessionError extends Error {
+  constructor(public readonly error: string, message: string, public readonly status: 404 | 409 = 409) {
+    super(message);
+    this.name = "ScanningSessionError";
+  }
+}
+
+async function findSession(id: string): Promise<ScanningSession> {
+  const session = await storage.getScanningSession(id);
+  if (!session) {
+    throw new ScanningSessionError("Scanning session not found", `No scanning session ${id}`, 404);
+  }
+  return session;
+}
+
+async function findOpenSession(id: string): Promise<ScanningSession> {
+  const session = await findSession(id);
+  if (session.status !== "open") throw closedError(session);
+  return session;
+}
+
+function closedError(session: ScanningSession): ScanningSessionError {
+  return new ScanningSessionError("Scanning session closed", `Scanning session "${session.name || session.id}" was closed at ${session.closedAt?.toISOString()}`);
+}
+
+// Storage refuses changes to a session that isn't open; say why
+async function notOpenError(id: string): Promise<ScanningSessionError> {
+  return closedError(await findSession(id));
+}
+
+// Numbers scanned more than once in the session, from its scan log
+async function findDuplicateScans(sessionId: string): Promise<DuplicateScan[]> {
+  const byTrackingNumber = new Map<string, ScanEvent[]>();
+  for (const event of await storage.getDuplicateScanEvents(sessionId)) {
+    const events = byTrackingNumber.get(event.trackingNumber);
+    if (events) events.push(event);
+    else byTrackingNumber.set(event.trackingNumber, [event]);
+  }
+  return Array.from(byTrackingNumber.entries())
+    .map(([trackingNumber, events]) => ({ trackingNumber, count: events.length, events }));
+}
+
+async function withScans(session: ScanningSession): Promise<ScanningSessionDetails> {
+  const [scans, duplicates] = await Promise.all([storage.getScanningSessionScans([session.id]), findDuplicateScans(session.id)]);
+  return { ...session, scans, duplicates };
+}
+
+export async function getScanningSessionDetails(id: string): Promise<ScanningSessionDetails> {
+  return withScans(await findSession(id));
+}
+
+/**
+ * Duplicate scan report for a session: the numbers scanned more than once, with who scanned
+ * them, on which device and when. Scans that were removed from the session don't count.
+ */
+export async function getDuplicateScanReport(id: string): Promise<{ sessionId: string; duplicateScans: number; duplicates: DuplicateScan[] }> {
+  const session = await findSession(id);
+  const duplicates = await findDuplicateScans(session.id);
+  return {
+    sessionId: session.id,
+    duplicateScans: duplicates.reduce((sum, duplicate) => sum + duplicate.count - 1, 0),
+    duplicates,
+  };
+}
+
+/**
+ * Every scan of a tracking number across sessions, including ones taken back out of a session
+ */
+export async function getScanHistory(trackingNumber: string): Promise<ScanHistory> {
+  const events = await storage.searchScanEvents({ trackingNumber, includeRemoved: true, limit: 1000 });
+  const counted = events.filter(event => !event.removedAt);
+  return {
+    trackingNumber,
+    firstScannedAt: counted[0]?.scannedAt ?? null,
+    lastScannedAt: counted[counted.length - 1]?.scannedAt ?? null,
+    scanCount: counted.length,
+    events,
+  };
+}
+
+/**
+ * Join an open session. The receiver's name is added to its participants; returns the session
+ * with every scan in it so far.
+ */
+export async function joinScanningSession(id: string, participant: string | null): Promise<ScanningSessionDetails> {
+  const session = await storage.joinScanningSession(id, participant);
+  if (!session) throw await notOpenError(id);
+  return withScans(session);
+}
+
+export async function closeScanningSession(id: string): Promise<ScanningSession> {
+  await findOpenSession(id);
+  const session = await storage.closeScanningSession(id);
+  // Someone else closed it between the two calls
+  if (!session) throw new ScanningSessionError("Scanning session closed", "The scanning session was closed by someone else");
+  console.log(`🔒 Scanning session ${session.name || session.id} closed`);
+  return session;
+}
+
+/**
+ * Add scans to an open session. Every scan is logged; numbers already in the session (scanned
+ * by anyone, or earlier in the same batch) are logged as duplicates and otherwise left as they were.
+ */
+export async function addScans(sessionId: string, scans: ScanInput[], scanner: ScannerDetails): Promise<AddScansResult> {
+  const cleaned = scans
+    .map(scan => ({ trackingNumber: scan.trackingNumber.trim(), rawBarcode: scan.rawBarcode.trim() || scan.trackingNumber.trim() }))
+    .filter(scan => scan.trackingNumber);
+  const saved = await storage.addScanningSessionScans(sessionId, cleaned, scanner);
+  if (!saved) throw await notOpenError(sessionId);
+  const { added, events } = saved;
+  const duplicates = events.filter(event => event.duplicate === 1);
+  if (duplicates.length > 0) {
+    console.log(`🔁 Scanning session ${sessionId}: ${duplicates.length} duplicate scan(s) by ${scanner.scannedBy || "unknown"}`);
+  }
+  return { added, duplicates };
+}
+
+export async function removeScan(sessionId: string, trackingNumber: string): Promise<boolean> {
+  const removed = await storage.removeScanningSessionScan(sessionId, trackingNumber);
+  if (removed === undefined) throw await notOpenError(sessionId);
+  return removed;
+}
+
+/**
+ * Scanning progress for one session, or for every open session together when no session is
+ * given. A tracking number (master or child) counts as scanned when it is in one of those
+ * sessions or its shipment has been marked complete.
+ */
+export async function getScanningProgress(sessionId?: string): Promise<ScanningProgress> {
+  const sessionIds = sessionId
+    ? [(await findSession(sessionId)).id]
+    : (await storage.getScanningSessions("open")).map(session => session.id);
+  const [shipments, scans] = await Promise.all([storage.getAllShipments(), storage.getScanningSessionScans(sessionIds)]);
+  const scanned = new Set(scans.map(scan => scan.trackingNumber));
+
+  let totalExpected = 0;
+  let totalScanned = 0;
+  for (const shipment of shipments) {
+    // Imports often list the master among its children; count it once
+    const children = (shipment.childTrackingNumbers || []).filter(child => child !== shipment.trackingNumber);
+    const trackingNumbers = Array.from(new Set([shipment.trackingNumber, ...children]));
+    totalExpected += trackingNumbers.length;
+    totalScanned += shipment.manuallyCompleted === 1
+      ? trackingNumbers.length
+      : trackingNumbers.filter(trackingNumber => scanned.has(trackingNumber)).length;
+  }
+
+  const inProgress = shipments.filter(s => s.notScanned === 0 && s.manuallyCompleted === 0);
+  return {
+    sessionIds,
+    totalExpected,
+    totalScanned,
+    percentageScanned: totalExpected > 0 ? Math.round((totalScanned / totalExpected) * 100) : 0,
+    pendingPackages: inProgress.reduce((sum, s) => sum + s.packageCount, 0),
+    scannedNotComplete: inProgress.length,
+    completedPackages: shipments.filter(s => s.manuallyCompleted === 1).reduce((sum, s) => sum + s.packageCount, 0),
+    lastUpdate: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,251 @@
+import { hostname } from "os";
+import { SCHEDULER_JOBS, type SchedulerJob, type SchedulerRun } from "@shared/schema";
+import { sql } from "../db";
+import { storage } from "../storage";
+import { getEmailInboxDir, ingestEmailInbox, type EmailIngestResult } from "./emailIngest";
+import { getHotFolderDir, ingestHotFolder, type HotFolderResult } from "./hotFolder";
+import { jobManager, silentProgress, type Job, type JobProgress } from "./jobs";
+import {
+  refreshActiveShipments,
+  syncFromGoogleSheets,
+  type SheetSyncResult,
+  type ShipmentRefreshResult,
+} from "./shipmentSync";
+
+interface JobResults {
+  sheet_sync: SheetSyncResult;
+  shipment_refresh: ShipmentRefreshResult;
+  hot_folder: HotFolderResult;
+  email_ingest: EmailIngestResult;
+}
+
+interface JobDefinition<J extends SchedulerJob> {
+  label: string;
+  intervalMinutes: number;
+  // Postgres advisory lock key - the same on every instance so only one of them runs the job
+  lockKey: number;
+  run: JobRunner<J>;
+  // What gets stored on the scheduler_runs row (per-row sync results are too big to keep)
+  summarize: (result: JobResults[J]) => unknown;
+}
+
+type JobRunner<J extends SchedulerJob> = (progress: JobProgress, trigger: SchedulerTrigger) => Promise<JobResults[J]>;
+
+type JobDefinitions = { [J in SchedulerJob]: JobDefinition<J> };
+
+export type SchedulerTrigger = "schedule" | "manual";
+
+export interface SchedulerJobStatus {
+  job: SchedulerJob;
+  label: string;
+  enabled: boolean;
+  intervalMinutes: number;
+  running: boolean;
+  jobId: string | null; // background job of the run in progress on this instance, see /api/jobs/:id
+  nextRunAt: string | null;
+  lastRun: SchedulerRun | null;
+}
+
+function readIntervalMinutes(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return fallback;
+
+  const minutes = Number(value);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    console.warn(`⚠️  Ignoring invalid ${name}=${value}, using ${fallback} minutes`);
+    return fallback;
+  }
+  return minutes;
+}
+
+/**
+ * Runs Google Sheets sync, active-shipment refresh, hot-folder imports and email ingestion on the
+ * server at fixed cadences.
+ * Each run holds a Postgres advisory lock, so with several instances (or a manual run
+ * in progress) only one of them does the work; every run is recorded in scheduler_runs.
+ */
+export class SchedulerService {
+  private jobs: JobDefinitions;
+  private timers = new Map<SchedulerJob, NodeJS.Timeout>();
+  private nextRunAt = new Map<SchedulerJob, Date>();
+  private running = new Set<SchedulerJob>();
+  private instance = `${hostname()}:${process.pid}`;
+  private started = false;
+
+  constructor() {
+    this.jobs = {
+      sheet_sync: {
+        label: "Google Sheets sync",
+        intervalMinutes: readIntervalMinutes("SHEET_SYNC_INTERVAL_MINUTES", 15),
+        lockKey: 72_410_001,
+        run: syncFromGoogleSheets,
+        summarize: ({ runId, total, successful, failed, writeBack, sheetsApiCalls }) =>
+          ({ runId, total, successful, failed, writeBack, sheetsApiCalls }),
+      },
+      shipment_refresh: {
+        label: "Carrier tracking refresh",
+        intervalMinutes: readIntervalMinutes("SHIPMENT_REFRESH_INTERVAL_MINUTES", 5),
+        lockKey: 72_410_002,
+        run: refreshActiveShipments,
+        summarize: ({ runId, total, refreshed, skippedPushed, packagesRefreshed, errors }) =>
+          ({ runId, total, refreshed, skippedPushed, packagesRefreshed, errors }),
+      },
+      hot_folder: {
+        label: "Hot folder import",
+        // Only runs when there is a folder to watch
+        intervalMinutes: getHotFolderDir() ? readIntervalMinutes("HOT_FOLDER_INTERVAL_MINUTES", 5) : 0,
+        lockKey: 72_410_003,
+        run: ingestHotFolder,
+        summarize: ({ folder, processed, failed, skipped, files }) =>
+          ({ folder, processed, failed, skipped, jobIds: files.map(file => file.jobId).filter(Boolean) }),
+      },
+      email_ingest: {
+        label: "Shipment email ingestion",
+        intervalMinutes: getEmailInboxDir() ? readIntervalMinutes("EMAIL_INGEST_INTERVAL_MINUTES", 5) : 0,
+        lockKey: 72_410_004,
+        run: ingestEmailInbox,
+        summarize: result => result,
+      },
+    };
+  }
+
+  /**
+   * Schedule every enabled job. The first run is due one interval after the last recorded run
+   * (by any instance), so restarts don't trigger an immediate burst of syncs.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of SCHEDULER_JOBS) {
+      const definition = this.jobs[job];
+      if (definition.intervalMinutes <= 0) {
+        console.log(`⏸️  Scheduler: ${definition.label} disabled`);
+        continue;
+      }
+
+      let dueAt = Date.now();
+      try {
+        const lastRun = await storage.getLatestSchedulerRun(job);
+        if (lastRun) {
+          dueAt = Math.max(dueAt, lastRun.startedAt.getTime() + this.intervalMs(job));
+        }
+      } catch (error) {
+        console.error(`Scheduler: could not read last ${job} run:`, error);
+      }
+
+      this.scheduleAt(job, new Date(dueAt));
+      console.log(`⏰ Scheduler: ${definition.label} every ${definition.intervalMinutes}m, next at ${new Date(dueAt).toISOString()}`);
+    }
+  }
+
+  /**
+   * Run a job now under its advisory lock and record the run.
+   * `run` replaces the job's usual work (e.g. applying a reviewed sync plan instead of a full sync).
+   * Returns null when the job is already running (here or on another instance).
+   * Errors from the job are recorded on the run and rethrown.
+   */
+  async runJob<J extends SchedulerJob>(
+    job: J,
+    trigger: SchedulerTrigger,
+    progress: JobProgress = silentProgress,
+    run?: JobRunner<J>
+  ): Promise<JobResults[J] | null> {
+    const definition = this.jobs[job] as JobDefinition<J>;
+
+    // Session-level advisory locks belong to a connection, so hold one for the whole run
+    const connection = await sql.reserve();
+    try {
+      const [{ locked }] = await connection`select pg_try_advisory_lock(${definition.lockKey}) as locked`;
+      if (!locked) {
+        console.log(`🔒 Scheduler: ${definition.label} already running elsewhere, skipping ${trigger} run`);
+        return null;
+      }
+
+      this.running.add(job);
+      try {
+        const schedulerRun = await storage.startSchedulerRun(job, trigger, this.instance);
+        console.log(`▶️  Scheduler: ${definition.label} started (${trigger})`);
+
+        try {
+          const result = await (run ?? definition.run)(progress, trigger);
+          await storage.finishSchedulerRun(schedulerRun.id, "success", definition.summarize(result));
+          console.log(`✅ Scheduler: ${definition.label} finished`);
+          return result;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          await storage.finishSchedulerRun(schedulerRun.id, "failed", undefined, message)
+            .catch(err => console.error(`Scheduler: could not record failed ${job} run:`, err));
+          console.error(`❌ Scheduler: ${definition.label} failed:`, error);
+          throw error;
+        }
+      } finally {
+        this.running.delete(job);
+        await connection`select pg_advisory_unlock(${definition.lockKey})`;
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a job in the background, reporting progress on a Job the client can poll.
+   * If this job is already running here, that Job is returned instead of starting another.
+   */
+  startJob<J extends SchedulerJob>(job: J, trigger: SchedulerTrigger, run?: JobRunner<J>): Job {
+    const running = jobManager.findRunning(job);
+    if (running) return running;
+
+    const definition = this.jobs[job] as JobDefinition<J>;
+    return jobManager.run(job, trigger, async progress => {
+      const result = await this.runJob(job, trigger, progress, run);
+      if (!result) {
+        throw new Error(`${definition.label} is already running on another server`);
+      }
+      // Per-row results are already on the job; keep just the counts
+      return definition.summarize(result);
+    });
+  }
+
+  /**
+   * Next/last run of every job, for the dashboard
+   */
+  async getStatus(): Promise<SchedulerJobStatus[]> {
+    return Promise.all(SCHEDULER_JOBS.map(async job => {
+      const definition = this.jobs[job];
+      const lastRun = await storage.getLatestSchedulerRun(job);
+
+      return {
+        job,
+        label: definition.label,
+        enabled: definition.intervalMinutes > 0,
+        intervalMinutes: definition.intervalMinutes,
+        running: this.running.has(job),
+        jobId: jobManager.findRunning(job)?.id ?? null,
+        nextRunAt: this.nextRunAt.get(job)?.toISOString() ?? null,
+        lastRun: lastRun ?? null,
+      };
+    }));
+  }
+
+  private intervalMs(job: SchedulerJob): number {
+    return this.jobs[job].intervalMinutes * 60 * 1000;
+  }
+
+  private scheduleAt(job: SchedulerJob, dueAt: Date): void {
+    const existing = this.timers.get(job);
+    if (existing) clearTimeout(existing);
+
+    this.nextRunAt.set(job, dueAt);
+    this.timers.set(job, setTimeout(() => this.runScheduled(job), Math.max(0, dueAt.getTime() - Date.now())));
+  }
+
+  private async runScheduled(job: SchedulerJob): Promise<void> {
+    const startedAt = Date.now();
+    // Failures are logged and recorded on the run; try again next interval
+    await this.startJob(job, "schedule").done;
+    this.scheduleAt(job, new Date(Math.max(Date.now(), startedAt + this.intervalMs(job))));
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,109 @@
+import type { SheetColumnMapping, SheetSource } from "@shared/schema";
+import { normalizeHeader, type SheetField, type SheetSourceRole } from "@shared/sheetMappings";
+import { storage } from "../storage";
+import { googleSheetsService } from "./googleSheets";
+
+export type SheetColumns = Partial<Record<SheetField, string[]>>;
+
+/**
+ * A sheet source ready to read: spreadsheet id resolved and headers grouped by field in priority order
+ */
+export interface ResolvedSheetSource {
+  id: string;
+  name: string;
+  role: SheetSourceRole;
+  spreadsheetId: string;
+  sheetName: string;
+  columns: SheetColumns;
+}
+
+export interface SheetSourcePreview {
+  headers: string[];
+  rows: Array<{ sheetRow: number; values: Partial<Record<SheetField, string>> }>;
+  // Mapped headers that aren't in the sheet - usually a renamed column
+  missingHeaders: Array<{ field: SheetField; header: string }>;
+}
+
+export function groupColumns(mappings: Array<Pick<SheetColumnMapping, "field" | "header" | "priority">>): SheetColumns {
+  const columns: SheetColumns = {};
+  for (const mapping of [...mappings].sort((a, b) => a.priority - b.priority)) {
+    (columns[mapping.field] ??= []).push(mapping.header);
+  }
+  return columns;
+}
+
+/**
+ * First non-empty value of the headers mapped to a field (rows are keyed by lowercase header)
+ */
+export function readField(row: Record<string, any>, columns: SheetColumns, field: SheetField): string | undefined {
+  for (const header of columns[field] || []) {
+    const value = row[header];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function resolveSource(source: SheetSource, mappings: SheetColumnMapping[]): ResolvedSheetSource | null {
+  const spreadsheetId = source.spreadsheetId || process.env.GOOGLE_SHEET_ID;
+  if (!spreadsheetId) return null;
+
+  return {
+    id: source.id,
+    name: source.name,
+    role: source.role,
+    spreadsheetId,
+    sheetName: source.sheetName,
+    columns: groupColumns(mappings.filter(mapping => mapping.sourceId === source.id)),
+  };
+}
+
+/**
+ * Enabled sheet sources by role. Sources with no spreadsheet id (and no GOOGLE_SHEET_ID) are left out.
+ */
+export async function loadSheetSources(): Promise<Partial<Record<SheetSourceRole, ResolvedSheetSource>>> {
+  const [sources, mappings] = await Promise.all([
+    storage.getSheetSources(),
+    storage.getSheetColumnMappings(),
+  ]);
+
+  const resolved: Partial<Record<SheetSourceRole, ResolvedSheetSource>> = {};
+  for (const source of sources) {
+    if (source.enabled !== 1) continue;
+    const resolvedSource = resolveSource(source, mappings);
+    if (resolvedSource) resolved[source.role] = resolvedSource;
+  }
+  return resolved;
+}
+
+/**
+ * Read the first rows of a sheet through a (possibly unsaved) mapping, so a mapping can be checked before saving it
+ */
+export async function previewSheetSource(
+  spreadsheetId: string,
+  sheetName: string,
+  columns: SheetColumns,
+  limit: number = 10
+): Promise<SheetSourcePreview> {
+  const { headers, rows } = await googleSheetsService.readSheetPreview(spreadsheetId, sheetName, limit);
+  const sheetHeaders = new Set(headers.map(normalizeHeader));
+
+  const missingHeaders: SheetSourcePreview["missingHeaders"] = [];
+  for (const [field, fieldHeaders] of Object.entries(columns) as Array<[SheetField, string[]]>) {
+    for (const header of fieldHeaders) {
+      if (!sheetHeaders.has(header)) missingHeaders.push({ field, header });
+    }
+  }
+
+  return {
+    headers,
+    rows: rows.map(row => {
+      const values: Partial<Record<SheetField, string>> = {};
+      for (const field of Object.keys(columns) as SheetField[]) {
+        const value = readField(row, columns, field);
+        if (value !== undefined) values[field] = value;
+      }
+      return { sheetRow: row._row, values };
+    }),
+    missingHeaders,
+  };
+}
@@ -0,0 +1,110 @@
+import type { Shipment } from "@shared/schema";
+import { getStatusLabel } from "@shared/status";
+import { googleSheetsService, columnLetter, type SheetCellUpdate } from "./googleSheets";
+
+export const WRITE_BACK_FIELDS = ["status", "eta", "received", "scanned"] as const;
+export type WriteBackField = typeof WRITE_BACK_FIELDS[number];
+
+// Each field is written to the column named by its env var: a header name ("FedEx Status") or a column letter ("K")
+const COLUMN_ENV_VARS: Record<WriteBackField, string> = {
+  status: "SHEET_STATUS_COLUMN",
+  eta: "SHEET_ETA_COLUMN",
+  received: "SHEET_RECEIVED_COLUMN",
+  scanned: "SHEET_SCANNED_COLUMN",
+};
+
+const FIELD_VALUES: Record<WriteBackField, (shipment: Shipment) => string> = {
+  status: shipment => shipment.statusDescription || getStatusLabel(shipment.status),
+  eta: shipment => shipment.scheduledDelivery || "",
+  received: shipment => shipment.manuallyCompleted === 1 ? "Yes" : "No",
+  scanned: shipment => shipment.notScanned === 1 ? "No" : "Yes",
+};
+
+export interface WriteBackRow {
+  sheetRow: number; // 1-based row in the sheet
+  sheetData: Record<string, any>; // the row as read, keyed by lowercase header
+  shipment: Shipment;
+}
+
+export interface WriteBackResult {
+  cellsUpdated: number;
+  apiCalls: number;
+}
+
+interface ResolvedColumn {
+  field: WriteBackField;
+  letter: string;
+  headerKey: string | null; // lowercase header of the column, to compare with what's in the sheet
+}
+
+/**
+ * Configured write-back columns, or an empty object when write-back is off
+ */
+export function getWriteBackColumns(): Partial<Record<WriteBackField, string>> {
+  if (!googleSheetsService.isWriteEnabled()) return {};
+
+  const columns: Partial<Record<WriteBackField, string>> = {};
+  for (const field of WRITE_BACK_FIELDS) {
+    const column = process.env[COLUMN_ENV_VARS[field]]?.trim();
+    if (column) columns[field] = column;
+  }
+  return columns;
+}
+
+export function isWriteBackEnabled(): boolean {
+  return Object.keys(getWriteBackColumns()).length > 0;
+}
+
+function resolveColumns(columns: Partial<Record<WriteBackField, string>>, headers: string[]): ResolvedColumn[] {
+  const resolved: ResolvedColumn[] = [];
+  const lowerHeaders = headers.map(h => h.toLowerCase());
+
+  for (const [field, column] of Object.entries(columns) as Array<[WriteBackField, string]>) {
+    const headerIndex = lowerHeaders.indexOf(column.toLowerCase());
+    if (headerIndex >= 0) {
+      resolved.push({ field, letter: columnLetter(headerIndex), headerKey: lowerHeaders[headerIndex] });
+    } else if (/^[A-Z]{1,3}$/i.test(column)) {
+      const letter = column.toUpperCase();
+      const index = letter.split("").reduce((n, char) => n * 26 + char.charCodeAt(0) - 64, 0) - 1;
+      resolved.push({ field, letter, headerKey: lowerHeaders[index] || null });
+    } else {
+      console.warn(`⚠️  Sheet write-back: no "${column}" column for ${field} (${COLUMN_ENV_VARS[field]}), skipping it`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Write each shipment's status/ETA/received/scanned into its row of the sheet.
+ * Cells that already hold the value are skipped, and the rest go out in batched values.batchUpdate calls.
+ */
+export async function writeBackShipments(spreadsheetId: string, sheetName: string, rows: WriteBackRow[]): Promise<WriteBackResult> {
+  const columns = getWriteBackColumns();
+  if (Object.keys(columns).length === 0 || rows.length === 0) {
+    return { cellsUpdated: 0, apiCalls: 0 };
+  }
+
+  const resolved = resolveColumns(columns, await googleSheetsService.readHeaderRow(spreadsheetId, sheetName));
+  const updates: SheetCellUpdate[] = [];
+
+  for (const { sheetRow, sheetData, shipment } of rows) {
+    for (const column of resolved) {
+      const value = FIELD_VALUES[column.field](shipment);
+      const current = column.headerKey ? sheetData[column.headerKey] ?? "" : undefined;
+      if (current === value) continue;
+
+      updates.push({ range: googleSheetsService.sheetRange(sheetName, `${column.letter}${sheetRow}`), value });
+    }
+  }
+
+  if (updates.length === 0) {
+    return { cellsUpdated: 0, apiCalls: 1 };
+  }
+
+  const apiCalls = await googleSheetsService.batchUpdateCells(spreadsheetId, updates);
+  console.log(`📝 Wrote ${updates.length} cells back to ${sheetName} in ${apiCalls} request(s)`);
+
+  // +1 for reading the header row
+  return { cellsUpdated: updates.length, apiCalls: apiCalls + 1 };
+}
@@ -0,0 +1,779 @@
+import { insertShipmentSchema, type Shipment, type SyncPlan } from "@shared/schema";
+import { isTerminalStatus, normalizeStatus } from "@shared/status";
+import type { FieldPrecedence } from "@shared/enrichment";
+import type { SheetField } from "@shared/sheetMappings";
+import { storage } from "../storage";
+import { googleSheetsService, SheetIndex } from "./googleSheets";
+import { loadSheetSources, readField, type ResolvedSheetSource } from "./sheetSources";
+import { fedExService } from "./fedex";
+import { getCarrierStatuses, queueTrackingLookupsByCarrier, resolveCarrier } from "./carriers";
+import { buildTrackingUpdates, recordTrackingEvents } from "./trackingUpdates";
+import {
+  carrierEnricher,
+  collectContributions,
+  loadFieldPrecedence,
+  mergeContributions,
+  sheetRowEnricher,
+  type EnrichedValues,
+  type FieldContribution,
+} from "./enrichment";
+import { refreshShipmentPackages } from "./packageTracking";
+import { silentProgress, type JobProgress } from "./jobs";
+import { withSyncRun, type SyncRunTally } from "./syncRuns";
+import { isWriteBackEnabled, writeBackShipments, type WriteBackResult, type WriteBackRow } from "./sheetWriteBack";
+
+// Shipments that received a FedEx push notification this recently are skipped by polling
+const PUSH_FRESHNESS_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Thrown when a sync can't start because its integration isn't configured.
+ * `error` is the short reason shown to the user, `message` says how to fix it.
+ */
+export class SyncConfigurationError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "SyncConfigurationError";
+  }
+}
+
+/**
+ * Thrown when a sync would archive suspiciously many shipments (an empty or truncated sheet read).
+ * Nothing has been written when it's thrown.
+ */
+export class SyncGuardError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "SyncGuardError";
+  }
+}
+
+export interface SheetSyncRowResult {
+  success: boolean;
+  trackingNumber: string;
+  shipment?: Shipment;
+  source?: string;
+  childTrackingNumbers?: string[];
+  sheetData?: Record<string, any>;
+  error?: string;
+  errorStack?: string;
+}
+
+export interface SheetSyncResult {
+  runId: string; // sync_runs row for this sync
+  total: number;
+  successful: number;
+  failed: number;
+  queueStatus: Awaited<ReturnType<typeof fedExService.getQueueStatus>>;
+  writeBack: WriteBackResult | null; // null when write-back is off or failed
+  sheetsApiCalls: number;
+  results: SheetSyncRowResult[];
+}
+
+export interface ShipmentRefreshResult {
+  runId: string; // sync_runs row for this refresh
+  message: string;
+  total: number;
+  refreshed: number;
+  skippedPushed: number;
+  packagesRefreshed: number;
+  errors: number;
+  timestamp: string;
+}
+
+/**
+ * Smart caching: Determine if shipment needs to be refreshed from FedEx API
+ */
+function shouldRefreshShipment(shipment: Shipment | undefined): boolean {
+  if (!shipment) return true; // New shipment, always fetch
+  if (!shipment.lastUpdate) return true; // No last update, always fetch
+
+  const now = Date.now();
+  const lastUpdate = new Date(shipment.lastUpdate).getTime();
+  const hoursSinceUpdate = (now - lastUpdate) / (1000 * 60 * 60);
+
+  // Don't refresh delivered/returned/cancelled or manually completed shipments
+  if (isTerminalStatus(shipment.status) || shipment.manuallyCompleted === 1) {
+    return false;
+  }
+
+  // Refresh out_for_delivery every 30 minutes
+  if (shipment.status === 'out_for_delivery' && hoursSinceUpdate < 0.5) {
+    return false;
+  }
+
+  // Refresh in_transit/picked_up/label_created every 2 hours
+  if (['in_transit', 'picked_up', 'label_created'].includes(shipment.status) && hoursSinceUpdate < 2) {
+    return false;
+  }
+
+  // Refresh pending/exception/delayed/on_hold more frequently (every hour)
+  if (['pending', 'exception', 'delayed', 'on_hold'].includes(shipment.status) && hoursSinceUpdate < 1) {
+    return false;
+  }
+
+  return true; // Refresh if none of the conditions above matched
+}
+
+export interface SheetSyncSources {
+  output: ResolvedSheetSource;
+  details: ResolvedSheetSource | null;
+}
+
+/**
+ * Check the Google Sheets settings before starting a sync; returns the sheet sources to read
+ */
+export async function resolveSheetSyncSources(): Promise<SheetSyncSources> {
+  if (!googleSheetsService.isConfigured()) {
+    throw new SyncConfigurationError(
+      "Google Sheets service not configured",
+      "Please set GOOGLE_SERVICE_ACCOUNT_JSON in your environment variables"
+    );
+  }
+
+  const sources = await loadSheetSources();
+  if (!sources.output) {
+    throw new SyncConfigurationError(
+      "No shipment sheet configured",
+      "Enable an active shipments sheet source on the Settings page and set its spreadsheet id or GOOGLE_SHEET_ID"
+    );
+  }
+  if (!sources.output.columns.trackingNumber?.length) {
+    throw new SyncConfigurationError(
+      "Tracking number column not mapped",
+      `Map the tracking number column of the "${sources.output.sheetName}" sheet on the Settings page`
+    );
+  }
+
+  return { output: sources.output, details: sources.details ?? null };
+}
+
+/**
+ * Sheet values for one row, before carrier data is merged in
+ */
+export interface SheetShipmentFields {
+  carrier: string;
+  scheduledDelivery: string | null; // only used when the carrier has no date
+  shipperName: string | null;
+  shipperCompany: string | null;
+  recipientName: string | null;
+  recipientCompany: string | null;
+  masterTrackingNumber: string | null;
+  packageCount: number;
+  packageType: string | null;
+  packageWeight: string | null;
+  totalWeight: string | null;
+  direction: string | null;
+  serviceType: string | null;
+}
+
+// Fields a sync overwrites from the sheet. Status and ETA come from the carrier when the plan is applied.
+const PLANNED_FIELDS = [
+  "carrier",
+  "shipperName",
+  "shipperCompany",
+  "recipientName",
+  "recipientCompany",
+  "masterTrackingNumber",
+  "packageCount",
+  "packageType",
+  "packageWeight",
+  "totalWeight",
+  "direction",
+  "serviceType",
+] as const satisfies ReadonlyArray<keyof SheetShipmentFields & keyof Shipment>;
+
+export interface PlannedFieldChange {
+  field: typeof PLANNED_FIELDS[number];
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface PlannedShipmentRow {
+  trackingNumber: string;
+  action: "add" | "update" | "unchanged";
+  sheetRow: number | null;
+  fields: SheetShipmentFields;
+  contributions: FieldContribution[]; // the sheet values, merged again with carrier data when applied
+  changes: PlannedFieldChange[]; // empty for "add" and "unchanged"
+  sheetData: Record<string, any>; // the raw row(s), kept for the sync log
+}
+
+export interface PlannedArchive {
+  trackingNumber: string;
+  status: string;
+  shipperCompany: string | null;
+  recipientCompany: string | null;
+  scheduledDelivery: string | null;
+}
+
+/**
+ * Everything a sheet sync would do, worked out from the sheets and the database without writing anything.
+ * Stored as JSON on a sync_plans row so it can be reviewed and then applied as is.
+ */
+export interface SheetSyncPlan {
+  output: { spreadsheetId: string; sheetName: string };
+  rows: PlannedShipmentRow[];
+  archive: PlannedArchive[];
+  archiveGuard: string | null; // why applying this plan would be refused, see checkArchiveGuard
+  sheetsApiCalls: number;
+}
+
+/**
+ * Why a stored plan can't be applied. `error` is the short reason shown to the user.
+ */
+export class SyncPlanError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "SyncPlanError";
+  }
+}
+
+// How long a dry-run plan can be applied for; after that the sheet has likely moved on
+const SYNC_PLAN_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+function readGuardSetting(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return fallback;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    console.warn(`⚠️  Ignoring invalid ${name}=${value}, using ${fallback}`);
+    return fallback;
+  }
+  return number;
+}
+
+/**
+ * Guardrail against a bad sheet read archiving everything: returns why a sync that archives
+ * `archiveCount` of `activeCount` active shipments from `sheetRowCount` sheet rows should be refused, or null.
+ * SYNC_ARCHIVE_MAX_PERCENT (default 50, 100 turns it off) caps the share archived in one sync;
+ * runs archiving SYNC_ARCHIVE_GUARD_MIN (default 5) shipments or fewer are always allowed.
+ */
+function checkArchiveGuard(sheetRowCount: number, activeCount: number, archiveCount: number): string | null {
+  if (sheetRowCount === 0 && activeCount > 0) {
+    return `The sheet returned no rows, so all ${activeCount} active shipments would be archived`;
+  }
+
+  const maxPercent = readGuardSetting("SYNC_ARCHIVE_MAX_PERCENT", 50);
+  const minCount = readGuardSetting("SYNC_ARCHIVE_GUARD_MIN", 5);
+  const percent = activeCount > 0 ? (archiveCount / activeCount) * 100 : 0;
+  if (archiveCount > minCount && percent > maxPercent) {
+    return `${archiveCount} of ${activeCount} active shipments (${Math.round(percent)}%) would be archived, over the ${maxPercent}% limit (SYNC_ARCHIVE_MAX_PERCENT)`;
+  }
+
+  return null;
+}
+
+/**
+ * Sync active shipments from the "Output" sheet, merging ALL INBOUND details and carrier tracking data.
+ * Shipments no longer in the sheet are archived to delivered history. Recorded as one sync run.
+ */
+export async function syncFromGoogleSheets(
+  progress: JobProgress = silentProgress,
+  trigger: string = "manual"
+): Promise<SheetSyncResult> {
+  const sources = await resolveSheetSyncSources();
+
+  return withSyncRun("google_sheets", trigger, async (runId, tally) => {
+    const plan = await buildSheetSyncPlan(sources, progress);
+    tally.sheetsApiCalls = plan.sheetsApiCalls;
+    return applySheetSyncPlan(plan, runId, tally, progress);
+  });
+}
+
+/**
+ * Dry run: work out what a sync would add, change and archive, and store the plan for review.
+ * Nothing else is written and no carrier lookups are made.
+ */
+export async function planSheetSync(): Promise<SyncPlan> {
+  const sources = await resolveSheetSyncSources();
+  const plan = await buildSheetSyncPlan(sources, silentProgress);
+
+  const counts = {
+    added: plan.rows.filter(row => row.action === "add").length,
+    updated: plan.rows.filter(row => row.action === "update").length,
+    unchanged: plan.rows.filter(row => row.action === "unchanged").length,
+    archived: plan.archive.length,
+  };
+  console.log(`📝 Sync plan: ${counts.added} to add, ${counts.updated} to update, ${counts.archived} to archive`);
+
+  return storage.createSyncPlan(counts, plan, new Date(Date.now() + SYNC_PLAN_TTL_MS));
+}
+
+/**
+ * Throws SyncPlanError when a stored plan can no longer be applied: already applied, expired,
+ * or made before the latest sheet sync (whose changes it doesn't know about)
+ */
+export async function assertSyncPlanApplicable(plan: SyncPlan): Promise<void> {
+  if (plan.status !== "pending") {
+    throw new SyncPlanError("Plan already used", `This plan is ${plan.status}; run a new preview`);
+  }
+  if (plan.expiresAt.getTime() < Date.now()) {
+    throw new SyncPlanError("Plan expired", "This plan is too old to apply; run a new preview");
+  }
+
+  const latestSync = await storage.getLatestSyncRun("google_sheets");
+  if (latestSync && latestSync.startedAt > plan.createdAt) {
+    throw new SyncPlanError(
+      "Plan out of date",
+      "Shipments were synced after this plan was made; run a new preview"
+    );
+  }
+}
+
+/**
+ * Apply a stored dry-run plan exactly: only its rows are added/updated and only its shipments archived.
+ * Recorded as one sync run, which is linked from the plan.
+ */
+export async function applySyncPlan(
+  planId: string,
+  progress: JobProgress = silentProgress,
+  trigger: string = "manual"
+): Promise<SheetSyncResult> {
+  const stored = await storage.getSyncPlan(planId);
+  if (!stored) {
+    throw new SyncPlanError("Plan not found", `No sync plan ${planId}`);
+  }
+  await assertSyncPlanApplicable(stored);
+
+  if (!await storage.claimSyncPlan(planId)) {
+    throw new SyncPlanError("Plan already used", "This plan is already being applied");
+  }
+
+  let runId: string | null = null;
+  try {
+    const plan: SheetSyncPlan = JSON.parse(stored.plan);
+    const result = await withSyncRun("google_sheets", trigger, (id, tally) => {
+      runId = id;
+      return applySheetSyncPlan(plan, id, tally, progress);
+    });
+    await storage.finishSyncPlan(planId, "applied", result.runId);
+    return result;
+  } catch (error) {
+    await storage.finishSyncPlan(planId, "failed", runId, error instanceof Error ? error.message : "Unknown error")
+      .catch(err => console.error(`Could not record failed sync plan ${planId}:`, err));
+    throw error;
+  }
+}
+
+function toSheetFields(trackingNumber: string, values: EnrichedValues): SheetShipmentFields {
+  return {
+    // A carrier from the sources (or stored) wins, then format detection
+    carrier: resolveCarrier(trackingNumber, values.carrier),
+    scheduledDelivery: values.scheduledDelivery ?? null,
+    shipperName: values.shipperName ?? null,
+    shipperCompany: values.shipperCompany ?? null,
+    recipientName: values.recipientName ?? null,
+    recipientCompany: values.recipientCompany ?? null,
+    masterTrackingNumber: values.masterTrackingNumber ?? null,
+    packageCount: values.packageCount || 1,
+    packageType: values.packageType ?? null,
+    packageWeight: values.packageWeight ?? null,
+    totalWeight: values.totalWeight ?? null,
+    direction: values.direction ?? null,
+    serviceType: values.serviceType ?? null,
+  };
+}
+
+async function buildSheetSyncPlan(
+  { output, details }: SheetSyncSources,
+  progress: JobProgress
+): Promise<SheetSyncPlan> {
+  const sheetsCallsAtStart = googleSheetsService.getApiCallCount();
+
+  // Fields come from the column mappings of each sheet source (Settings page)
+  const fromOutput = (row: any, field: SheetField) => readField(row, output.columns, field);
+  const fromDetails = (row: any, field: SheetField) => row && details ? readField(row, details.columns, field) : undefined;
+  const rowTrackingNumber = (row: any) => fromOutput(row, "trackingNumber")!;
+
+  // Read shipment data from the active shipments sheet (Output)
+  progress.setPhase("reading_sheet");
+  const sheetData = await googleSheetsService.readShipmentData(output.spreadsheetId, output.sheetName, row => fromOutput(row, "trackingNumber"));
+  console.log(`📊 Found ${sheetData.length} shipments in ${output.sheetName}`);
+
+  // The details sheet (ALL INBOUND, read-only) has shipper/recipient info; load it once for the whole run
+  let inboundIndex = new SheetIndex([]);
+  if (details) {
+    try {
+      inboundIndex = await googleSheetsService.loadSheetIndex(
+        details.spreadsheetId,
+        details.sheetName,
+        row => fromDetails(row, "trackingNumber"),
+        row => fromDetails(row, "masterTrackingNumber")
+      );
+      console.log(`📊 Loaded ${inboundIndex.size} rows from ${details.sheetName}`);
+    } catch (error) {
+      console.warn(`Could not read ${details.sheetName} sheet, syncing without its details:`, error);
+    }
+  }
+
+  const dbShipments = new Map((await storage.getAllShipments()).map(s => [s.trackingNumber, s]));
+  const sheetTrackingNumbers = new Set(sheetData.map(rowTrackingNumber));
+  const precedence = await loadFieldPrecedence();
+
+  const rows: PlannedShipmentRow[] = sheetData.map(row => {
+    const trackingNumber = rowTrackingNumber(row);
+    const existingShipment = dbShipments.get(trackingNumber);
+
+    // Additional data from the details sheet, by tracking number or master tracking number
+    const inboundRow = inboundIndex.get(trackingNumber);
+
+    // Each sheet is an enricher; field precedence (Settings page) and locked fields decide what's kept
+    const contributions = collectContributions(trackingNumber, existingShipment, [
+      sheetRowEnricher("output_sheet", output.columns, row),
+      ...(details ? [sheetRowEnricher("inbound_sheet", details.columns, inboundRow)] : []),
+    ]);
+    const fields = toSheetFields(trackingNumber, mergeContributions(existingShipment, contributions, precedence).values);
+
+    const changes: PlannedFieldChange[] = existingShipment
+      ? PLANNED_FIELDS
+          .filter(field => (existingShipment[field] ?? null) !== fields[field])
+          .map(field => ({ field, from: existingShipment[field] ?? null, to: fields[field] }))
+      : [];
+
+    return {
+      trackingNumber,
+      action: !existingShipment ? "add" : changes.length > 0 ? "update" : "unchanged",
+      sheetRow: row._row ?? null,
+      fields,
+      contributions,
+      changes,
+      sheetData: row,
+    };
+  });
+
+  // Shipments that are no longer in the Output sheet get archived (moved to Delivered History)
+  const archive: PlannedArchive[] = Array.from(dbShipments.values())
+    .filter(shipment => !sheetTrackingNumbers.has(shipment.trackingNumber))
+    .map(shipment => ({
+      trackingNumber: shipment.trackingNumber,
+      status: shipment.status,
+      shipperCompany: shipment.shipperCompany,
+      recipientCompany: shipment.recipientCompany,
+      scheduledDelivery: shipment.scheduledDelivery,
+    }));
+
+  return {
+    output: { spreadsheetId: output.spreadsheetId, sheetName: output.sheetName },
+    rows,
+    archive,
+    archiveGuard: checkArchiveGuard(rows.length, dbShipments.size, archive.length),
+    sheetsApiCalls: googleSheetsService.getApiCallCount() - sheetsCallsAtStart,
+  };
+}
+
+async function applySheetSyncPlan(
+  plan: SheetSyncPlan,
+  runId: string,
+  tally: SyncRunTally,
+  progress: JobProgress
+): Promise<SheetSyncResult> {
+  console.log('🔄 Starting Google Sheets sync...');
+  const sheetsCallsAtStart = googleSheetsService.getApiCallCount();
+
+  // The database may have moved on since the plan was made, so look shipments up again
+  const dbShipments = new Map((await storage.getAllShipments()).map(s => [s.trackingNumber, s]));
+  const precedence: FieldPrecedence = await loadFieldPrecedence();
+
+  // Refuse before writing anything if the sheet read looks empty or truncated
+  const archiveCount = plan.archive.filter(planned => dbShipments.has(planned.trackingNumber)).length;
+  const guardViolation = checkArchiveGuard(plan.rows.length, dbShipments.size, archiveCount);
+  if (guardViolation) {
+    console.warn(`🛑 Sync aborted: ${guardViolation}`);
+    throw new SyncGuardError("Sync aborted to protect active shipments", guardViolation);
+  }
+
+  progress.setPhase("archiving", plan.archive.length);
+  for (const planned of plan.archive) {
+    const shipment = dbShipments.get(planned.trackingNumber);
+    if (!shipment) {
+      // Already gone (deleted by hand since the plan was made)
+      progress.advance();
+      continue;
+    }
+
+    // Check if it's not already in delivered history
+    const existingDelivered = await storage.getDeliveredShipmentByTracking(shipment.trackingNumber);
+    if (!existingDelivered) {
+      // Archive to delivered history
+      await storage.createDeliveredShipment({
+        trackingNumber: shipment.trackingNumber,
+        status: shipment.status,
+        shipperCompany: shipment.shipperCompany || null,
+        recipientCompany: shipment.recipientCompany || null,
+        serviceType: shipment.serviceType || null,
+        packageWeight: shipment.packageWeight || null,
+        packageCount: shipment.packageCount,
+        expectedDelivery: shipment.scheduledDelivery || null,
+        actualDelivery: new Date(),
+        archivedByRunId: runId,
+      });
+      console.log(`📦 Archived shipment ${shipment.trackingNumber} to Delivered History - removed from Output sheet`);
+    }
+
+    // Soft-delete from active shipments, so the run can be restored
+    await storage.softDeleteShipment(shipment.trackingNumber, runId);
+    tally.archived++;
+    progress.advance();
+  }
+
+  // Queue every carrier lookup up front so providers can batch them (FedEx: 30 per request)
+  const trackingLookups = queueTrackingLookupsByCarrier(
+    plan.rows
+      .filter(row => shouldRefreshShipment(dbShipments.get(row.trackingNumber)))
+      .map(row => ({ trackingNumber: row.trackingNumber, carrier: row.fields.carrier }))
+  );
+  tally.fedexCalls = trackingLookups.size;
+  tally.fedexCached = plan.rows.length - trackingLookups.size;
+
+  const results: SheetSyncRowResult[] = [];
+  const writeBackRows: WriteBackRow[] = [];
+  progress.setPhase("processing_rows", plan.rows.length);
+  for (const row of plan.rows) {
+    const { trackingNumber, fields } = row;
+    try {
+      // Check if we should skip the carrier API call (smart caching, or no integration for this carrier)
+      const existingShipment = dbShipments.get(trackingNumber);
+      const shouldRefreshFromFedEx = trackingLookups.has(trackingNumber);
+
+      // Get data from FedEx API as source of truth for status/tracking
+      let fedexData = null;
+      if (shouldRefreshFromFedEx) {
+        console.log(`🔍 Fetching ${fields.carrier} data for ${trackingNumber}`);
+        fedexData = await trackingLookups.get(trackingNumber);
+      } else {
+        console.log(`⚡ Using cached data for ${trackingNumber} (${existingShipment?.status})`);
+        // Parse cached FedEx data
+        if (existingShipment?.fedexRawData) {
+          try {
+            fedexData = JSON.parse(existingShipment.fedexRawData);
+          } catch (e) {
+            console.warn(`Could not parse cached FedEx data for ${trackingNumber}`);
+          }
+        }
+      }
+
+      // Merge sheet + carrier data by field precedence (carrier first for status and ETA by default).
+      // Plans stored before contributions were recorded only have the merged sheet fields.
+      const contributions = [
+        ...(row.contributions ?? [{ source: "output_sheet" as const, values: fields }]),
+        ...collectContributions(trackingNumber, existingShipment, [carrierEnricher(fedexData)]),
+      ];
+      const merged = mergeContributions(existingShipment, contributions, precedence);
+      const shipmentData = {
+        ...merged.values,
+        trackingNumber: trackingNumber,
+        carrier: resolveCarrier(trackingNumber, merged.values.carrier),
+        // Cached data may predate canonical statuses
+        status: normalizeStatus(merged.values.status),
+        packageCount: merged.values.packageCount || 1,
+        googleSheetRow: row.sheetRow,
+        fedexRawData: fedexData ? JSON.stringify(fedexData) : existingShipment?.fedexRawData,
+      };
+
+      const validatedData = insertShipmentSchema.parse(shipmentData);
+      const shipment = await storage.upsertShipment({ ...validatedData, fieldSources: JSON.stringify(merged.fieldSources) });
+
+      // Keep scan history for fresh carrier data (cached data was recorded when it was fetched)
+      if (shouldRefreshFromFedEx && fedexData) {
+        await recordTrackingEvents(trackingNumber, fields.carrier, fedexData);
+      }
+
+      // Log successful sync
+      await storage.createSyncLog({
+        source: "google_sheets",
+        trackingNumber,
+        success: 1,
+        errorMessage: null,
+        errorStack: null,
+        sheetData: JSON.stringify(row.sheetData),
+        responseData: fedexData ? JSON.stringify(fedexData) : null,
+        runId,
+      });
+
+      if (row.sheetRow) {
+        writeBackRows.push({ sheetRow: row.sheetRow, sheetData: row.sheetData, shipment });
+      }
+
+      if (existingShipment) {
+        tally.updated++;
+      } else {
+        tally.added++;
+      }
+
+      results.push({
+        success: true,
+        shipment,
+        trackingNumber,
+        source: shouldRefreshFromFedEx ? "google_sheets_merged_with_fedex" : "google_sheets_with_cached_fedex",
+        childTrackingNumbers: fedexData?.childTrackingNumbers || []
+      });
+    } catch (error) {
+      console.error(`Error processing tracking number ${trackingNumber}:`, error);
+
+      // Log failed sync
+      await storage.createSyncLog({
+        source: "google_sheets",
+        trackingNumber,
+        success: 0,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        errorStack: error instanceof Error ? error.stack : undefined,
+        sheetData: JSON.stringify(row.sheetData),
+        responseData: null,
+        runId,
+      });
+      tally.failed++;
+
+      results.push({
+        success: false,
+        trackingNumber,
+        sheetData: row.sheetData,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorStack: error instanceof Error ? error.stack : undefined
+      });
+    }
+
+    progress.addResult(results[results.length - 1]);
+    progress.advance();
+  }
+
+  // Let the team working in the sheet see carrier status and receiving state
+  let writeBack: WriteBackResult | null = null;
+  if (isWriteBackEnabled()) {
+    progress.setPhase("writing_back", writeBackRows.length);
+    try {
+      writeBack = await writeBackShipments(plan.output.spreadsheetId, plan.output.sheetName, writeBackRows);
+    } catch (error) {
+      console.error("Error writing shipment status back to Google Sheets:", error);
+      await storage.createSyncLog({
+        source: "google_sheets",
+        trackingNumber: null,
+        success: 0,
+        errorMessage: `Write-back failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        errorStack: error instanceof Error ? error.stack || null : null,
+        sheetData: null,
+        responseData: null,
+        runId,
+      });
+    }
+    progress.advance(writeBackRows.length);
+  }
+
+  const successCount = results.filter(r => r.success).length;
+  const queueStatus = await fedExService.getQueueStatus();
+  tally.sheetsApiCalls += googleSheetsService.getApiCallCount() - sheetsCallsAtStart;
+
+  console.log(`✅ Sync complete: ${successCount}/${plan.rows.length} successful (${tally.sheetsApiCalls} Sheets API calls)`);
+
+  return {
+    runId,
+    total: plan.rows.length,
+    successful: successCount,
+    failed: plan.rows.length - successCount,
+    queueStatus,
+    writeBack,
+    sheetsApiCalls: tally.sheetsApiCalls,
+    results
+  };
+}
+
+/**
+ * Refresh every active shipment (and the pieces of multi-piece shipments) from its carrier.
+ * Shipments kept current by FedEx push notifications are skipped. Recorded as one sync run.
+ */
+export async function refreshActiveShipments(
+  progress: JobProgress = silentProgress,
+  trigger: string = "manual"
+): Promise<ShipmentRefreshResult> {
+  if (!getCarrierStatuses().some(c => c.configured)) {
+    throw new SyncConfigurationError(
+      "No carrier API configured",
+      "Please configure FedEx API credentials in your environment variables"
+    );
+  }
+
+  return withSyncRun("fedex", trigger, (runId, tally) => refreshShipments(runId, tally, progress));
+}
+
+async function refreshShipments(runId: string, tally: SyncRunTally, progress: JobProgress): Promise<ShipmentRefreshResult> {
+  const shipments = await storage.getAllShipments();
+
+  // Only refresh shipments that can still change and aren't manually completed
+  const activeShipments = shipments.filter(s =>
+    !isTerminalStatus(s.status) &&
+    s.manuallyCompleted !== 1
+  );
+
+  // Shipments kept current by FedEx push notifications don't need polling
+  const pushedRecently = new Set(
+    (await storage.getActivePushSubscriptions())
+      .filter(sub => sub.lastNotificationAt && Date.now() - sub.lastNotificationAt.getTime() < PUSH_FRESHNESS_MS)
+      .map(sub => sub.trackingNumber)
+  );
+  const pollShipments = activeShipments.filter(s => !pushedRecently.has(s.trackingNumber));
+
+  console.log(`🔄 Auto-refreshing ${pollShipments.length} active shipments from their carriers (${activeShipments.length - pollShipments.length} kept current by push)`);
+
+  let refreshedCount = 0;
+  const errors: string[] = [];
+
+  // Queue all lookups together so each carrier can batch them;
+  // shipments whose carrier has no configured integration are skipped
+  const trackingLookups = queueTrackingLookupsByCarrier(pollShipments);
+  tally.fedexCalls = trackingLookups.size;
+  tally.fedexCached = activeShipments.length - pollShipments.length;
+
+  const precedence = await loadFieldPrecedence();
+  progress.setPhase("refreshing_shipments", trackingLookups.size);
+  for (const shipment of pollShipments) {
+    if (!trackingLookups.has(shipment.trackingNumber)) continue;
+
+    try {
+      const fedexData = await trackingLookups.get(shipment.trackingNumber);
+
+      if (fedexData) {
+        await recordTrackingEvents(shipment.trackingNumber, shipment.carrier, fedexData);
+        // Same merge as webhook pushes: locked fields and higher-ranked sources are kept
+        await storage.updateShipment(shipment.id, buildTrackingUpdates(shipment, fedexData, precedence));
+        refreshedCount++;
+      }
+    } catch (error) {
+      console.error(`Failed to refresh ${shipment.trackingNumber}:`, error);
+      errors.push(shipment.trackingNumber);
+      await storage.createSyncLog({
+        source: "fedex",
+        trackingNumber: shipment.trackingNumber,
+        success: 0,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        errorStack: error instanceof Error ? error.stack || null : null,
+        sheetData: null,
+        responseData: null,
+        runId,
+      });
+    }
+    progress.advance();
+  }
+
+  // Then track the individual pieces of multi-piece shipments, all children batched together
+  const multiPiece = pollShipments.filter(s => s.childTrackingNumbers && s.childTrackingNumbers.length > 0);
+  progress.setPhase("refreshing_packages", multiPiece.length);
+  const packageResults = await refreshShipmentPackages(
+    await storage.getShipmentsByTrackingNumbers(multiPiece.map(s => s.trackingNumber))
+  );
+  progress.advance(multiPiece.length);
+  tally.updated = refreshedCount;
+  tally.failed = errors.length + packageResults.failed;
+
+  console.log(`✅ Refreshed ${refreshedCount}/${pollShipments.length} shipments and ${packageResults.refreshed} packages`);
+
+  return {
+    runId,
+    message: `Refreshed ${refreshedCount} active shipments`,
+    total: activeShipments.length,
+    refreshed: refreshedCount,
+    skippedPushed: activeShipments.length - pollShipments.length,
+    packagesRefreshed: packageResults.refreshed,
+    errors: errors.length,
+    timestamp: new Date().toISOString()
+  };
+}
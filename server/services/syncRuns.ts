@@ -0,0 +1,27 @@
+import type { SyncRunCounts } from "@shared/schema";
+import { storage } from "../storage";
+
+export type SyncRunTally = Required<SyncRunCounts>;
+
+/**
+ * Record `work` as one sync_runs row. The work gets the run id (for its sync_logs)
+ * and a tally to count into; the counts are saved when it finishes, even if it throws.
+ */
+export async function withSyncRun<T>(
+  source: string,
+  trigger: string,
+  work: (runId: string, tally: SyncRunTally) => Promise<T>
+): Promise<T> {
+  const run = await storage.createSyncRun(source, trigger);
+  const tally: SyncRunTally = { added: 0, updated: 0, archived: 0, failed: 0, fedexCalls: 0, fedexCached: 0, sheetsApiCalls: 0 };
+
+  try {
+    const result = await work(run.id, tally);
+    await storage.finishSyncRun(run.id, "success", tally);
+    return result;
+  } catch (error) {
+    await storage.finishSyncRun(run.id, "failed", tally, error instanceof Error ? error.message : "Unknown error")
+      .catch(err => console.error(`Could not record failed sync run ${run.id}:`, err));
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import type { InsertShipmentEvent, Shipment } from "@shared/schema";
+import type { FieldPrecedence } from "@shared/enrichment";
+import { storage } from "../storage";
+import type { TrackingEvent, TrackingInfo } from "./carriers";
+import { carrierEnricher, collectContributions, loadFieldPrecedence, mergeContributions } from "./enrichment";
+
+/**
+ * Build the shipment updates for fresh carrier tracking data, merged by field precedence so
+ * locked fields and values from higher-ranked sources are kept.
+ * Child tracking numbers are only replaced when the carrier returns real children
+ * (not just the master itself), so bulk imported children are preserved.
+ */
+export function buildTrackingUpdates(shipment: Shipment, trackingInfo: TrackingInfo, precedence: FieldPrecedence): Partial<Shipment> {
+  const contributions = collectContributions(shipment.trackingNumber, shipment, [carrierEnricher(trackingInfo)]);
+  const { values, fieldSources } = mergeContributions(shipment, contributions, precedence);
+
+  return {
+    status: values.status || shipment.status,
+    statusDescription: values.statusDescription ?? null,
+    scheduledDelivery: values.scheduledDelivery ?? null,
+    childTrackingNumbers: values.childTrackingNumbers ?? null,
+    fedexRawData: JSON.stringify(trackingInfo),
+    fieldSources: JSON.stringify(fieldSources),
+  };
+}
+
+/**
+ * Convert carrier scan events into shipment_events rows.
+ * The dedupe key must stay in step with the backfill in migrations/0006 (timestamp|description|location).
+ */
+export function toShipmentEvents(trackingNumber: string, carrier: string, events: TrackingEvent[]): InsertShipmentEvent[] {
+  return events.map(event => {
+    const eventTime = event.timestamp ? new Date(event.timestamp) : null;
+
+    return {
+      trackingNumber,
+      carrier,
+      eventTime: eventTime && !isNaN(eventTime.getTime()) ? eventTime : null,
+      eventType: event.eventType || null,
+      description: event.description || null,
+      location: event.location || null,
+      city: event.city || null,
+      stateOrProvince: event.stateOrProvince || null,
+      countryCode: event.countryCode || null,
+      dedupeKey: `${event.timestamp ?? ""}|${event.description ?? ""}|${event.location ?? ""}`,
+    };
+  });
+}
+
+/**
+ * Store any scan events we haven't seen before; returns how many were new
+ */
+export async function recordTrackingEvents(trackingNumber: string, carrier: string, trackingInfo: TrackingInfo): Promise<number> {
+  if (!trackingInfo.events || trackingInfo.events.length === 0) return 0;
+
+  return storage.createShipmentEvents(toShipmentEvents(trackingNumber, carrier, trackingInfo.events));
+}
+
+/**
+ * Apply fresh carrier tracking data to a shipment and return the updated row
+ */
+export async function applyTrackingInfo(shipment: Shipment, trackingInfo: TrackingInfo): Promise<Shipment | undefined> {
+  await recordTrackingEvents(shipment.trackingNumber, shipment.carrier, trackingInfo);
+  return storage.updateShipment(shipment.id, buildTrackingUpdates(shipment, trackingInfo, await loadFieldPrecedence()));
+}
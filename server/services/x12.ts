@@ -0,0 +1,145 @@
+/**
+ * Minimal ANSI X12 reader: splits an interchange into segments using the delimiters declared
+ * in its ISA header and groups them into ST/SE transaction sets. It knows nothing about the
+ * meaning of any transaction set; see asn856.ts for the 856 Advance Ship Notice.
+ */
+
+// A segment's elements with the segment ID at index 0, so segment[1] is element 01 as in the X12 specs
+export type X12Segment = string[];
+
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  segment: string;
+}
+
+export interface X12Transaction {
+  type: string; // ST01, e.g. "856"
+  controlNumber: string; // ST02
+  segments: X12Segment[]; // everything between ST and SE, both excluded
+}
+
+export interface X12Interchange {
+  senderId: string | null; // ISA06
+  receiverId: string | null; // ISA08
+  controlNumber: string | null; // ISA13
+  delimiters: X12Delimiters;
+  transactions: X12Transaction[];
+}
+
+/**
+ * Thrown when a file isn't readable X12 or isn't the transaction set we expect.
+ * `error` is the short reason shown to the user.
+ */
+export class EdiFormatError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = "EdiFormatError";
+  }
+}
+
+// Used for files that start at ST without an envelope (handy for hand-written test files)
+const DEFAULT_DELIMITERS: X12Delimiters = { element: "*", component: ">", segment: "~" };
+
+/**
+ * Read the delimiters from the ISA segment. ISA is fixed-width, but files padded or trimmed by
+ * hand are common, so the component separator and segment terminator are found after the
+ * 16th element separator rather than at fixed offsets.
+ */
+function readDelimiters(text: string): X12Delimiters {
+  if (!text.startsWith("ISA")) return DEFAULT_DELIMITERS;
+
+  const element = text[3];
+  let position = 3;
+  for (let count = 1; count < 16; count++) {
+    position = text.indexOf(element, position + 1);
+    if (position === -1) {
+      throw new EdiFormatError("Invalid ISA header", "The ISA segment has fewer than 16 elements");
+    }
+  }
+  const component = text[position + 1];
+  const segment = text[position + 2];
+  if (!component || !segment) {
+    throw new EdiFormatError("Invalid ISA header", "The ISA segment ends before its segment terminator");
+  }
+  return { element, component, segment };
+}
+
+/**
+ * Split an X12 file into segments and transaction sets
+ */
+export function parseX12(content: string): X12Interchange {
+  const text = content.replace(/^\uFEFF/, "").trimStart();
+  if (!text.startsWith("ISA") && !text.startsWith("ST")) {
+    throw new EdiFormatError("Not an X12 file", "EDI files must start with an ISA or ST segment");
+  }
+
+  const delimiters = readDelimiters(text);
+  const segments = text
+    .split(delimiters.segment)
+    .map(segment => segment.replace(/^[\r\n]+|[\r\n]+$/g, ""))
+    .filter(segment => segment.trim())
+    .map(segment => segment.split(delimiters.element).map(element => element.trim()));
+
+  const interchange: X12Interchange = {
+    senderId: null,
+    receiverId: null,
+    controlNumber: null,
+    delimiters,
+    transactions: [],
+  };
+
+  let current: X12Transaction | null = null;
+  for (const segment of segments) {
+    switch (segment[0]) {
+      case "ISA":
+        interchange.senderId = segment[6] || null;
+        interchange.receiverId = segment[8] || null;
+        interchange.controlNumber = segment[13] || null;
+        break;
+      case "ST":
+        if (current) {
+          throw new EdiFormatError("Unterminated transaction set", `Transaction set ${current.controlNumber} has no SE segment`);
+        }
+        current = { type: segment[1] || "", controlNumber: segment[2] || "", segments: [] };
+        break;
+      case "SE": {
+        if (!current) {
+          throw new EdiFormatError("Unexpected SE segment", "Found an SE segment outside a transaction set");
+        }
+        // SE01 counts ST and SE too
+        const declared = parseInt(segment[1] || "");
+        if (declared && declared !== current.segments.length + 2) {
+          console.warn(`⚠️  X12 transaction ${current.controlNumber}: SE declares ${declared} segments, found ${current.segments.length + 2}`);
+        }
+        interchange.transactions.push(current);
+        current = null;
+        break;
+      }
+      case "GS":
+      case "GE":
+      case "IEA":
+        break;
+      default:
+        current?.segments.push(segment);
+    }
+  }
+
+  if (current) {
+    throw new EdiFormatError("Unterminated transaction set", `Transaction set ${current.controlNumber} has no SE segment`);
+  }
+  return interchange;
+}
+
+/**
+ * An X12 date (CCYYMMDD or YYMMDD) and optional time (HHMM[SS]) as M/D/YYYY[ HH:MM], the way
+ * scheduled delivery dates are written in the sheets. Null if the date can't be read.
+ */
+export function formatX12Date(date: string | undefined, time?: string): string | null {
+  const match = date?.match(/^(\d{2})?(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const [, century = "20", year, month, day] = match;
+  const formatted = `${parseInt(month)}/${parseInt(day)}/${century}${year}`;
+  const clock = time?.match(/^(\d{2})(\d{2})/);
+  return clock ? `${formatted} ${clock[1]}:${clock[2]}` : formatted;
+}
@@ -1,6 +1,8 @@
-import { type Shipment, type InsertShipment, shipments, type SyncLog, type InsertSyncLog, syncLogs, type ScannedSession, type InsertScannedSession, scannedSessions, type DeliveredShipment, type InsertDeliveredShipment, deliveredShipments } from "@shared/schema";
+import { type Shipment, type InsertShipment, type UpsertShipment, shipments, type SyncLog, type InsertSyncLog, syncLogs, type SyncRun, type SyncRunCounts, syncRuns, type ScannedSession, type InsertScannedSession, scannedSessions, type ScanningSession, type ScanningSessionSummary, type ScanningSessionStatus, scanningSessions, type ScanningSessionScan, scanningSessionScans, type ScanEvent, type ScanInput, scanEvents, type DeliveredShipment, type InsertDeliveredShipment, deliveredShipments, type PushSubscription, pushSubscriptions, type FedExQueueItem, type FedExQueueStatus, fedexRequestQueue, type ShipmentEvent, type InsertShipmentEvent, shipmentEvents, type ShipmentPackage, shipmentPackages, type SchedulerJob, type SchedulerRun, schedulerRuns, type SheetSource, sheetSources, type SheetColumnMapping, sheetColumnMappings, type SyncPlan, type SyncPlanCounts, syncPlans, type ImportProfile, type ImportProfileInput, importProfiles, type ImportJob, type ImportJobCounts, importJobs, type ImportJobRow, type InsertImportJobRow, type ImportRowOutcome, importJobRows, type FieldPrecedenceRow, fieldPrecedence } from "@shared/schema";
+import type { EnrichedField, EnrichmentSource } from "@shared/enrichment";
 import { db } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
+import { changeEvents } from "./services/changeEvents";
+import { eq, and, or, asc, desc, getTableColumns, gte, ilike, inArray, notInArray, isNull, isNotNull, lt, lte, sql, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // Shipment operations
@@ -8,39 +10,185 @@ export interface IStorage {
   getShipmentByTracking(trackingNumber: string): Promise<Shipment | undefined>;
   createShipment(shipment: InsertShipment): Promise<Shipment>;
   updateShipment(id: string, shipment: Partial<Shipment>): Promise<Shipment | undefined>;
-  upsertShipment(shipment: InsertShipment): Promise<Shipment>;
+  upsertShipment(shipment: UpsertShipment): Promise<Shipment>;
+  upsertShipments(shipments: UpsertShipment[]): Promise<Shipment[]>;
+  setShipmentLockedFields(trackingNumber: string, fields: EnrichedField[]): Promise<Shipment | undefined>;
   updateChildTrackingNumbers(trackingNumber: string, childTrackingNumbers: string[]): Promise<Shipment>;
   deleteShipment(trackingNumber: string): Promise<boolean>;
   deleteAllShipments(): Promise<void>;
+  softDeleteShipment(trackingNumber: string, runId: string): Promise<boolean>;
+  getShipmentsDeletedByRun(runId: string): Promise<Shipment[]>;
+  restoreShipmentsDeletedByRun(runId: string): Promise<Shipment[]>;
   markShipmentsAsNotScanned(trackingNumbers: string[]): Promise<void>;
   markShipmentsAsScanned(trackingNumbers: string[]): Promise<void>;
+  markShipmentsAsCompleted(trackingNumbers: string[]): Promise<void>;
 
   // Sync log operations
   getAllSyncLogs(limit?: number): Promise<SyncLog[]>;
   createSyncLog(log: InsertSyncLog): Promise<SyncLog>;
   getSyncLogsByTracking(trackingNumber: string): Promise<SyncLog[]>;
+  getSyncLogsByRun(runId: string): Promise<SyncLog[]>;
+
+  // Sync run operations
+  createSyncRun(source: string, trigger: string): Promise<SyncRun>;
+  finishSyncRun(id: string, status: 'success' | 'failed', counts: SyncRunCounts, errorMessage?: string): Promise<SyncRun | undefined>;
+  getSyncRuns(limit?: number): Promise<SyncRun[]>;
+  getSyncRun(id: string): Promise<SyncRun | undefined>;
+  getLatestSyncRun(source: string): Promise<SyncRun | undefined>;
+
+  // Sync plan (dry-run) operations
+  createSyncPlan(counts: SyncPlanCounts, plan: unknown, expiresAt: Date): Promise<SyncPlan>;
+  getSyncPlan(id: string): Promise<SyncPlan | undefined>;
+  claimSyncPlan(id: string): Promise<SyncPlan | undefined>;
+  finishSyncPlan(id: string, status: 'applied' | 'failed', runId: string | null, errorMessage?: string): Promise<SyncPlan | undefined>;
 
   // Scanned session operations
   getAllScannedSessions(): Promise<ScannedSession[]>;
   createScannedSession(session: InsertScannedSession): Promise<ScannedSession>;
   deleteScannedSession(id: string): Promise<boolean>;
 
+  // Live scanning session operations
+  createScanningSession(session: Pick<ScanningSession, 'name' | 'createdBy'>): Promise<ScanningSession>;
+  getScanningSessions(status?: ScanningSessionStatus): Promise<ScanningSessionSummary[]>;
+  getScanningSession(id: string): Promise<ScanningSession | undefined>;
+  joinScanningSession(id: string, participant: string | null): Promise<ScanningSession | undefined>;
+  closeScanningSession(id: string): Promise<ScanningSession | undefined>;
+  addScanningSessionScans(sessionId: string, scans: ScanInput[], scanner: ScannerDetails): Promise<{ added: ScanningSessionScan[]; events: ScanEvent[] } | undefined>;
+  removeScanningSessionScan(sessionId: string, trackingNumber: string): Promise<boolean | undefined>;
+  getScanningSessionScans(sessionIds: string[]): Promise<ScanningSessionScan[]>;
+
+  // Scan event log operations
+  searchScanEvents(filters: ScanEventFilters): Promise<ScanEvent[]>;
+  getDuplicateScanEvents(sessionId: string): Promise<ScanEvent[]>;
+
   // Delivered shipments operations
   getAllDeliveredShipments(): Promise<DeliveredShipment[]>;
   createDeliveredShipment(shipment: InsertDeliveredShipment): Promise<DeliveredShipment>;
   getDeliveredShipmentByTracking(trackingNumber: string): Promise<DeliveredShipment | undefined>;
+
+  // Push subscription operations
+  getActivePushSubscriptions(): Promise<PushSubscription[]>;
+  getPushSubscription(trackingNumber: string): Promise<PushSubscription | undefined>;
+  registerPushSubscription(trackingNumber: string, carrier: string): Promise<PushSubscription>;
+  unregisterPushSubscription(trackingNumber: string): Promise<boolean>;
+  recordPushNotification(trackingNumber: string): Promise<void>;
+
+  // FedEx request queue operations
+  enqueueFedExLookups(trackingNumbers: string[], instance: string): Promise<void>;
+  claimFedExRequests(limit: number, instance: string, staleBefore: Date): Promise<FedExQueueItem[]>;
+  completeFedExRequests(ids: string[]): Promise<void>;
+  rescheduleFedExRequest(id: string, nextAttemptAt: Date, error: string): Promise<void>;
+  failFedExRequests(ids: string[], error: string): Promise<void>;
+  resetInFlightFedExRequests(staleBefore: Date): Promise<number>;
+  getNextFedExAttemptAt(instance: string): Promise<Date | null>;
+  getFedExQueueCounts(): Promise<Record<FedExQueueStatus, number>>;
+  getFedExQueueItems(statuses: FedExQueueStatus[], limit?: number): Promise<FedExQueueItem[]>;
+  clearPendingFedExRequests(reason: string): Promise<string[]>;
+  pruneFedExRequests(completedBefore: Date): Promise<number>;
+
+  // Shipment event operations
+  createShipmentEvents(events: InsertShipmentEvent[]): Promise<number>;
+  getShipmentEvents(trackingNumber: string): Promise<ShipmentEvent[]>;
+  searchShipmentEvents(filters: ShipmentEventFilters): Promise<ShipmentEvent[]>;
+
+  // Shipment package (multi-piece child) operations
+  getShipmentPackages(shipmentTrackingNumber: string): Promise<ShipmentPackage[]>;
+  syncShipmentPackages(shipmentTrackingNumber: string, carrier: string, childTrackingNumbers: string[]): Promise<ShipmentPackage[]>;
+  updateShipmentPackage(id: string, updates: Partial<Omit<ShipmentPackage, 'id' | 'lastUpdate'>>): Promise<ShipmentPackage | undefined>;
+
+  // Scheduler run operations
+  startSchedulerRun(job: SchedulerJob, trigger: string, instance: string): Promise<SchedulerRun>;
+  finishSchedulerRun(id: string, status: 'success' | 'failed', summary: unknown, errorMessage?: string): Promise<SchedulerRun | undefined>;
+  getLatestSchedulerRun(job: SchedulerJob): Promise<SchedulerRun | undefined>;
+  getRecentSchedulerRuns(limit?: number): Promise<SchedulerRun[]>;
+
+  // Sheet source operations
+  getSheetSources(): Promise<SheetSource[]>;
+  getSheetSource(id: string): Promise<SheetSource | undefined>;
+  getSheetColumnMappings(sourceId?: string): Promise<SheetColumnMapping[]>;
+  updateSheetSource(
+    id: string,
+    updates: Partial<Pick<SheetSource, 'name' | 'spreadsheetId' | 'sheetName' | 'enabled'>>,
+    mappings: Array<Pick<SheetColumnMapping, 'field' | 'header' | 'priority'>>
+  ): Promise<SheetSource | undefined>;
+
+  // Import profile operations
+  getImportProfiles(): Promise<ImportProfile[]>;
+  getImportProfile(id: string): Promise<ImportProfile | undefined>;
+  createImportProfile(profile: ImportProfileInput): Promise<ImportProfile>;
+  updateImportProfile(id: string, profile: ImportProfileInput): Promise<ImportProfile | undefined>;
+  deleteImportProfile(id: string): Promise<boolean>;
+
+  // Import job operations
+  createImportJob(job: Pick<ImportJob, 'source'> & Partial<Pick<ImportJob, 'fileName' | 'importedBy' | 'profileId' | 'headers'>>): Promise<ImportJob>;
+  finishImportJob(id: string, status: 'completed' | 'failed', counts: ImportJobCounts, errorMessage?: string): Promise<ImportJob | undefined>;
+  recountImportJob(id: string): Promise<ImportJob | undefined>;
+  getImportJobs(limit?: number): Promise<ImportJob[]>;
+  getImportJob(id: string): Promise<ImportJob | undefined>;
+  addImportJobRows(jobId: string, rows: InsertImportJobRow[]): Promise<void>;
+  getImportJobRows(jobId: string, outcomes?: ImportRowOutcome[]): Promise<ImportJobRow[]>;
+  updateImportJobRows(ids: string[], outcome: ImportRowOutcome, error: string | null): Promise<void>;
+
+  // Field precedence operations
+  getFieldPrecedence(): Promise<FieldPrecedenceRow[]>;
+  setFieldPrecedence(field: EnrichedField, sources: EnrichmentSource[]): Promise<FieldPrecedenceRow>;
+  deleteFieldPrecedence(field: EnrichedField): Promise<boolean>;
+}
+
+export interface ShipmentEventFilters {
+  trackingNumber?: string;
+  eventType?: string;
+  city?: string;
+  stateOrProvince?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Who sent a batch of scans: the receiver's name and the browser's own ID
+export interface ScannerDetails {
+  scannedBy: string | null;
+  device: string | null;
+}
+
+export interface ScanEventFilters {
+  trackingNumber?: string;
+  sessionId?: string;
+  scannedBy?: string;
+  device?: string;
+  duplicatesOnly?: boolean;
+  includeRemoved?: boolean;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Shipment columns with a database default: a row that leaves one out would be inserted - and
+// upserted over an existing row - as that default, so bulk upserts only set the ones a row provides
+const DEFAULTED_SHIPMENT_COLUMNS = ['carrier', 'notScanned', 'manuallyCompleted', 'deliveredPackageCount'] as const;
+
+// Never changed by an upsert: identity, and the soft-delete columns owned by sync archiving
+const UPSERT_SKIPPED_COLUMNS = new Set(['id', 'trackingNumber', 'lastUpdate', 'deletedAt', 'deletedByRunId']);
+
+// Rows per INSERT statement, well under Postgres' 65535 bind parameter limit
+const UPSERT_CHUNK_SIZE = 500;
+
+function withoutNulls<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null && value !== undefined)) as Partial<T>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // Shipments archived by a sync are soft-deleted (deleted_at set) and left out of every read
+
   async getAllShipments(): Promise<Shipment[]> {
-    return await db.select().from(shipments).orderBy(desc(shipments.lastUpdate));
+    return await db.select().from(shipments).where(isNull(shipments.deletedAt)).orderBy(desc(shipments.lastUpdate));
   }
 
   async getShipmentByTracking(trackingNumber: string): Promise<Shipment | undefined> {
     const results = await db
       .select()
       .from(shipments)
-      .where(eq(shipments.trackingNumber, trackingNumber))
+      .where(and(eq(shipments.trackingNumber, trackingNumber), isNull(shipments.deletedAt)))
       .limit(1);
     return results[0];
   }
@@ -51,15 +199,21 @@ export class DatabaseStorage implements IStorage {
     const results = await db
       .select()
       .from(shipments)
-      .where(sql`${shipments.trackingNumber} = ANY(${trackingNumbers})`);
+      .where(and(inArray(shipments.trackingNumber, trackingNumbers), isNull(shipments.deletedAt)));
     return results;
   }
 
   async createShipment(insertShipment: InsertShipment): Promise<Shipment> {
+    // A shipment that's back after being archived starts over; its soft-deleted row would block the unique tracking number
+    await db
+      .delete(shipments)
+      .where(and(eq(shipments.trackingNumber, insertShipment.trackingNumber), isNotNull(shipments.deletedAt)));
+
     const [shipment] = await db
       .insert(shipments)
       .values(insertShipment)
       .returning();
+    changeEvents.shipmentsChanged([shipment]);
     return shipment;
   }
 
@@ -69,26 +223,78 @@ export class DatabaseStorage implements IStorage {
       .set({ ...updates, lastUpdate: new Date() })
       .where(eq(shipments.id, id))
       .returning();
+    if (updated) changeEvents.shipmentsChanged([updated]);
     return updated;
   }
 
-  async upsertShipment(insertShipment: InsertShipment): Promise<Shipment> {
-    const existing = await this.getShipmentByTracking(insertShipment.trackingNumber);
-    
-    if (existing) {
-      // Only update fields that are provided (not null)
-      const updates: Partial<Omit<Shipment, 'id' | 'lastUpdate'>> = {};
-      Object.keys(insertShipment).forEach((key) => {
-        const value = (insertShipment as any)[key];
-        if (value !== null && value !== undefined) {
-          (updates as any)[key] = value;
-        }
-      });
-      const updated = await this.updateShipment(existing.id, updates);
-      return updated!;
+  async upsertShipment(insertShipment: UpsertShipment): Promise<Shipment> {
+    const [shipment] = await this.upsertShipments([insertShipment]);
+    return shipment;
+  }
+
+  /**
+   * Create or update shipments by tracking number with INSERT ... ON CONFLICT, all in one transaction.
+   * Fields that are null or missing keep the stored value, as with a single upsert.
+   */
+  async upsertShipments(insertShipments: UpsertShipment[]): Promise<Shipment[]> {
+    if (insertShipments.length === 0) return [];
+
+    // One statement can't touch a row twice, so repeated tracking numbers are merged first (later values win)
+    const merged = new Map<string, UpsertShipment>();
+    for (const shipment of insertShipments) {
+      const earlier = merged.get(shipment.trackingNumber);
+      merged.set(shipment.trackingNumber, earlier ? { ...earlier, ...withoutNulls(shipment) } : shipment);
     }
-    
-    return this.createShipment(insertShipment);
+
+    const groups = new Map<string, UpsertShipment[]>();
+    for (const shipment of Array.from(merged.values())) {
+      const key = DEFAULTED_SHIPMENT_COLUMNS.filter(column => shipment[column] !== null && shipment[column] !== undefined).join(',');
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(shipment);
+    }
+
+    const trackingNumbers = Array.from(merged.keys());
+    const columns = getTableColumns(shipments);
+
+    const upserted = await db.transaction(async (tx) => {
+      // A shipment that's back after being archived starts over; its soft-deleted row would block the unique tracking number
+      await tx
+        .delete(shipments)
+        .where(and(inArray(shipments.trackingNumber, trackingNumbers), isNotNull(shipments.deletedAt)));
+
+      const saved: Shipment[] = [];
+      for (const [key, rows] of Array.from(groups.entries())) {
+        const provided = new Set(key ? key.split(',') : []);
+        const set: Record<string, SQL | Date> = { lastUpdate: new Date() };
+        for (const [name, column] of Object.entries(columns)) {
+          if (UPSERT_SKIPPED_COLUMNS.has(name)) continue;
+          if ((DEFAULTED_SHIPMENT_COLUMNS as readonly string[]).includes(name) && !provided.has(name)) continue;
+          set[name] = sql`coalesce(excluded.${sql.identifier(column.name)}, ${column})`;
+        }
+
+        for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+          saved.push(...await tx
+            .insert(shipments)
+            .values(rows.slice(i, i + UPSERT_CHUNK_SIZE))
+            .onConflictDoUpdate({ target: shipments.trackingNumber, set })
+            .returning());
+        }
+      }
+
+      return saved;
+    });
+    changeEvents.shipmentsChanged(upserted);
+    return upserted;
+  }
+
+  async setShipmentLockedFields(trackingNumber: string, fields: EnrichedField[]): Promise<Shipment | undefined> {
+    const [updated] = await db
+      .update(shipments)
+      .set({ lockedFields: fields.length > 0 ? fields : null })
+      .where(and(eq(shipments.trackingNumber, trackingNumber), isNull(shipments.deletedAt)))
+      .returning();
+    if (updated) changeEvents.shipmentsChanged([updated]);
+    return updated;
   }
 
   async updateChildTrackingNumbers(trackingNumber: string, childTrackingNumbers: string[]): Promise<Shipment> {
@@ -108,9 +314,13 @@ export class DatabaseStorage implements IStorage {
         childTrackingNumbers: mergedChildren,
         lastUpdate: new Date()
       })
-      .where(eq(shipments.trackingNumber, trackingNumber))
+      .where(and(eq(shipments.trackingNumber, trackingNumber), isNull(shipments.deletedAt)))
       .returning();
+    if (!updated) {
+      throw new Error(`Shipment with tracking number ${trackingNumber} not found`);
+    }
 
+    changeEvents.shipmentsChanged([updated]);
     return updated;
   }
 
@@ -119,35 +329,80 @@ export class DatabaseStorage implements IStorage {
     if (!shipment) return false;
     
     await db.delete(shipments).where(eq(shipments.id, shipment.id));
+    changeEvents.shipmentsRemoved([trackingNumber]);
     return true;
   }
 
   async deleteAllShipments(): Promise<void> {
     await db.delete(shipments);
+    changeEvents.allShipmentsChanged();
+  }
+
+  async softDeleteShipment(trackingNumber: string, runId: string): Promise<boolean> {
+    const deleted = await db
+      .update(shipments)
+      .set({ deletedAt: new Date(), deletedByRunId: runId })
+      .where(and(eq(shipments.trackingNumber, trackingNumber), isNull(shipments.deletedAt)))
+      .returning({ id: shipments.id });
+    if (deleted.length > 0) changeEvents.shipmentsRemoved([trackingNumber]);
+    return deleted.length > 0;
+  }
+
+  async getShipmentsDeletedByRun(runId: string): Promise<Shipment[]> {
+    return await db
+      .select()
+      .from(shipments)
+      .where(and(eq(shipments.deletedByRunId, runId), isNotNull(shipments.deletedAt)))
+      .orderBy(asc(shipments.trackingNumber));
+  }
+
+  async restoreShipmentsDeletedByRun(runId: string): Promise<Shipment[]> {
+    // Undo the run's archiving as a whole: shipments come back and their delivered history entries go
+    const restored = await db.transaction(async (tx) => {
+      const restored = await tx
+        .update(shipments)
+        .set({ deletedAt: null, deletedByRunId: null })
+        .where(and(eq(shipments.deletedByRunId, runId), isNotNull(shipments.deletedAt)))
+        .returning();
+
+      if (restored.length > 0) {
+        await tx.delete(deliveredShipments).where(and(
+          eq(deliveredShipments.archivedByRunId, runId),
+          inArray(deliveredShipments.trackingNumber, restored.map(shipment => shipment.trackingNumber))
+        ));
+      }
+
+      return restored;
+    });
+    changeEvents.shipmentsChanged(restored);
+    return restored;
   }
 
   async markShipmentsAsNotScanned(trackingNumbers: string[]): Promise<void> {
-    for (const trackingNumber of trackingNumbers) {
-      await db.update(shipments)
-        .set({ notScanned: 1 })
-        .where(eq(shipments.trackingNumber, trackingNumber));
-    }
+    if (trackingNumbers.length === 0) return;
+    const updated = await db.update(shipments)
+      .set({ notScanned: 1 })
+      .where(and(inArray(shipments.trackingNumber, trackingNumbers), isNull(shipments.deletedAt)))
+      .returning();
+    changeEvents.shipmentsChanged(updated);
   }
 
   async markShipmentsAsScanned(trackingNumbers: string[]): Promise<void> {
-    for (const trackingNumber of trackingNumbers) {
-      await db.update(shipments)
-        .set({ notScanned: 0 })
-        .where(eq(shipments.trackingNumber, trackingNumber));
-    }
+    if (trackingNumbers.length === 0) return;
+    const updated = await db.update(shipments)
+      .set({ notScanned: 0 })
+      .where(and(inArray(shipments.trackingNumber, trackingNumbers), isNull(shipments.deletedAt)))
+      .returning();
+    changeEvents.shipmentsChanged(updated);
   }
 
   async markShipmentsAsCompleted(trackingNumbers: string[]): Promise<void> {
-    for (const trackingNumber of trackingNumbers) {
-      await db.update(shipments)
-        .set({ manuallyCompleted: 1, notScanned: 0 })
-        .where(eq(shipments.trackingNumber, trackingNumber));
-    }
+    if (trackingNumbers.length === 0) return;
+    const updated = await db.update(shipments)
+      .set({ manuallyCompleted: 1, notScanned: 0 })
+      .where(and(inArray(shipments.trackingNumber, trackingNumbers), isNull(shipments.deletedAt)))
+      .returning();
+    changeEvents.shipmentsChanged(updated);
   }
 
   async getAllSyncLogs(limit: number = 100): Promise<SyncLog[]> {
@@ -170,6 +425,84 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(syncLogs.timestamp));
   }
 
+  async getSyncLogsByRun(runId: string): Promise<SyncLog[]> {
+    return await db
+      .select()
+      .from(syncLogs)
+      .where(eq(syncLogs.runId, runId))
+      .orderBy(asc(syncLogs.timestamp));
+  }
+
+  async createSyncRun(source: string, trigger: string): Promise<SyncRun> {
+    const [run] = await db
+      .insert(syncRuns)
+      .values({ source, trigger, status: 'running' })
+      .returning();
+    changeEvents.publish({ type: 'sync_runs', runId: run.id });
+    return run;
+  }
+
+  async finishSyncRun(id: string, status: 'success' | 'failed', counts: SyncRunCounts, errorMessage?: string): Promise<SyncRun | undefined> {
+    const [run] = await db
+      .update(syncRuns)
+      .set({ ...counts, status, finishedAt: new Date(), errorMessage: errorMessage || null })
+      .where(eq(syncRuns.id, id))
+      .returning();
+    changeEvents.publish({ type: 'sync_runs', runId: id });
+    return run;
+  }
+
+  async getSyncRuns(limit: number = 50): Promise<SyncRun[]> {
+    return await db.select().from(syncRuns).orderBy(desc(syncRuns.startedAt)).limit(limit);
+  }
+
+  async getSyncRun(id: string): Promise<SyncRun | undefined> {
+    const [run] = await db.select().from(syncRuns).where(eq(syncRuns.id, id));
+    return run;
+  }
+
+  async getLatestSyncRun(source: string): Promise<SyncRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(syncRuns)
+      .where(eq(syncRuns.source, source))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  async createSyncPlan(counts: SyncPlanCounts, plan: unknown, expiresAt: Date): Promise<SyncPlan> {
+    const [created] = await db
+      .insert(syncPlans)
+      .values({ ...counts, plan: JSON.stringify(plan), expiresAt, status: 'pending' })
+      .returning();
+    return created;
+  }
+
+  async getSyncPlan(id: string): Promise<SyncPlan | undefined> {
+    const [plan] = await db.select().from(syncPlans).where(eq(syncPlans.id, id));
+    return plan;
+  }
+
+  async claimSyncPlan(id: string): Promise<SyncPlan | undefined> {
+    // Only a pending plan can be claimed, so two apply requests can't both run it
+    const [plan] = await db
+      .update(syncPlans)
+      .set({ status: 'applying' })
+      .where(and(eq(syncPlans.id, id), eq(syncPlans.status, 'pending')))
+      .returning();
+    return plan;
+  }
+
+  async finishSyncPlan(id: string, status: 'applied' | 'failed', runId: string | null, errorMessage?: string): Promise<SyncPlan | undefined> {
+    const [plan] = await db
+      .update(syncPlans)
+      .set({ status, runId, appliedAt: status === 'applied' ? new Date() : null, errorMessage: errorMessage || null })
+      .where(eq(syncPlans.id, id))
+      .returning();
+    return plan;
+  }
+
   async getAllScannedSessions(): Promise<ScannedSession[]> {
     return await db.select().from(scannedSessions).orderBy(desc(scannedSessions.timestamp));
   }
@@ -179,14 +512,145 @@ export class DatabaseStorage implements IStorage {
       .insert(scannedSessions)
       .values(insertSession)
       .returning();
+    changeEvents.publish({ type: 'saved_sessions' });
     return session;
   }
 
   async deleteScannedSession(id: string): Promise<boolean> {
     const result = await db.delete(scannedSessions).where(eq(scannedSessions.id, id));
+    changeEvents.publish({ type: 'saved_sessions' });
     return true;
   }
 
+  async createScanningSession(session: Pick<ScanningSession, 'name' | 'createdBy'>): Promise<ScanningSession> {
+    const [created] = await db
+      .insert(scanningSessions)
+      .values({ ...session, participants: session.createdBy ? [session.createdBy] : [] })
+      .returning();
+    changeEvents.publish({ type: 'sessions', sessionId: created.id });
+    return created;
+  }
+
+  async getScanningSessions(status?: ScanningSessionStatus): Promise<ScanningSessionSummary[]> {
+    const scanCount = db
+      .select({ sessionId: scanningSessionScans.sessionId, count: sql<number>`count(*)::int`.as('count') })
+      .from(scanningSessionScans)
+      .groupBy(scanningSessionScans.sessionId)
+      .as('scan_count');
+
+    const rows = await db
+      .select({ session: scanningSessions, scanCount: scanCount.count })
+      .from(scanningSessions)
+      .leftJoin(scanCount, eq(scanCount.sessionId, scanningSessions.id))
+      .where(status ? eq(scanningSessions.status, status) : undefined)
+      .orderBy(desc(scanningSessions.createdAt));
+    return rows.map(row => ({ ...row.session, scanCount: row.scanCount ?? 0 }));
+  }
+
+  async getScanningSession(id: string): Promise<ScanningSession | undefined> {
+    const [session] = await db.select().from(scanningSessions).where(eq(scanningSessions.id, id));
+    return session;
+  }
+
+  // Only open sessions can be joined; undefined when the session is unknown or closed
+  async joinScanningSession(id: string, participant: string | null): Promise<ScanningSession | undefined> {
+    const isOpen = and(eq(scanningSessions.id, id), eq(scanningSessions.status, 'open'));
+    if (!participant) {
+      const [session] = await db.select().from(scanningSessions).where(isOpen);
+      return session;
+    }
+    const [session] = await db
+      .update(scanningSessions)
+      .set({
+        participants: sql`case when ${participant} = any(${scanningSessions.participants}) then ${scanningSessions.participants} else array_append(${scanningSessions.participants}, ${participant}) end`,
+      })
+      .where(isOpen)
+      .returning();
+    if (session) changeEvents.publish({ type: 'sessions', sessionId: id });
+    return session;
+  }
+
+  async closeScanningSession(id: string): Promise<ScanningSession | undefined> {
+    const [session] = await db
+      .update(scanningSessions)
+      .set({ status: 'closed', closedAt: new Date() })
+      .where(and(eq(scanningSessions.id, id), eq(scanningSessions.status, 'open')))
+      .returning();
+    if (session) changeEvents.publish({ type: 'sessions', sessionId: id });
+    return session;
+  }
+
+  // Undefined when the session is unknown or closed; nothing is written then
+  async addScanningSessionScans(sessionId: string, scans: ScanInput[], scanner: ScannerDetails): Promise<{ added: ScanningSessionScan[]; events: ScanEvent[] } | undefined> {
+    const result = await db.transaction(async (tx) => {
+      // The row lock makes closing the session wait for these scans, or these scans see it closed
+      const [open] = await tx
+        .select({ id: scanningSessions.id })
+        .from(scanningSessions)
+        .where(and(eq(scanningSessions.id, sessionId), eq(scanningSessions.status, 'open')))
+        .for('update');
+      if (!open) return undefined;
+      if (scans.length === 0) return { added: [], events: [] };
+
+      // A number another receiver already scanned into the session keeps its first scan; the
+      // unique index decides which of two receivers scanning the same box at once was first
+      const trackingNumbers = Array.from(new Set(scans.map(scan => scan.trackingNumber)));
+      const added = await tx
+        .insert(scanningSessionScans)
+        .values(trackingNumbers.map(trackingNumber => ({ sessionId, trackingNumber, scannedBy: scanner.scannedBy })))
+        .onConflictDoNothing()
+        .returning();
+
+      // Only the first read of a newly added number is not a duplicate
+      const firstReads = new Set(added.map(scan => scan.trackingNumber));
+      const events = await tx
+        .insert(scanEvents)
+        .values(scans.map(scan => {
+          const duplicate = !firstReads.delete(scan.trackingNumber);
+          return { ...scan, sessionId, ...scanner, duplicate: duplicate ? 1 : 0 };
+        }))
+        .returning();
+
+      return { added, events };
+    });
+    if (result) changeEvents.publish({ type: 'scans', sessionId });
+    return result;
+  }
+
+  // Undefined when the session is unknown or closed, otherwise whether the number was in it
+  async removeScanningSessionScan(sessionId: string, trackingNumber: string): Promise<boolean | undefined> {
+    const removed = await db.transaction(async (tx) => {
+      const [open] = await tx
+        .select({ id: scanningSessions.id })
+        .from(scanningSessions)
+        .where(and(eq(scanningSessions.id, sessionId), eq(scanningSessions.status, 'open')))
+        .for('update');
+      if (!open) return undefined;
+
+      const deleted = await tx
+        .delete(scanningSessionScans)
+        .where(and(eq(scanningSessionScans.sessionId, sessionId), eq(scanningSessionScans.trackingNumber, trackingNumber)))
+        .returning({ id: scanningSessionScans.id });
+      // The scans stay in the log, marked as taken back
+      await tx
+        .update(scanEvents)
+        .set({ removedAt: new Date() })
+        .where(and(eq(scanEvents.sessionId, sessionId), eq(scanEvents.trackingNumber, trackingNumber), isNull(scanEvents.removedAt)));
+      return deleted.length > 0;
+    });
+    if (removed) changeEvents.publish({ type: 'scans', sessionId });
+    return removed;
+  }
+
+  async getScanningSessionScans(sessionIds: string[]): Promise<ScanningSessionScan[]> {
+    if (sessionIds.length === 0) return [];
+    return await db
+      .select()
+      .from(scanningSessionScans)
+      .where(inArray(scanningSessionScans.sessionId, sessionIds))
+      .orderBy(asc(scanningSessionScans.scannedAt));
+  }
+
   async getAllDeliveredShipments(): Promise<DeliveredShipment[]> {
     return await db.select().from(deliveredShipments).orderBy(desc(deliveredShipments.deliveredAt));
   }
@@ -207,6 +671,501 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     return result[0];
   }
+
+  async getActivePushSubscriptions(): Promise<PushSubscription[]> {
+    return await db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.active, 1))
+      .orderBy(desc(pushSubscriptions.registeredAt));
+  }
+
+  async getPushSubscription(trackingNumber: string): Promise<PushSubscription | undefined> {
+    const result = await db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.trackingNumber, trackingNumber))
+      .limit(1);
+    return result[0];
+  }
+
+  async registerPushSubscription(trackingNumber: string, carrier: string): Promise<PushSubscription> {
+    // Re-registering a previously unregistered number reactivates it
+    const [subscription] = await db
+      .insert(pushSubscriptions)
+      .values({ trackingNumber, carrier })
+      .onConflictDoUpdate({
+        target: pushSubscriptions.trackingNumber,
+        set: { active: 1, carrier, registeredAt: new Date(), unregisteredAt: null },
+      })
+      .returning();
+    return subscription;
+  }
+
+  async unregisterPushSubscription(trackingNumber: string): Promise<boolean> {
+    const result = await db
+      .update(pushSubscriptions)
+      .set({ active: 0, unregisteredAt: new Date() })
+      .where(and(eq(pushSubscriptions.trackingNumber, trackingNumber), eq(pushSubscriptions.active, 1)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async recordPushNotification(trackingNumber: string): Promise<void> {
+    await db
+      .update(pushSubscriptions)
+      .set({ lastNotificationAt: new Date() })
+      .where(eq(pushSubscriptions.trackingNumber, trackingNumber));
+  }
+
+  async enqueueFedExLookups(trackingNumbers: string[], instance: string): Promise<void> {
+    if (trackingNumbers.length === 0) return;
+
+    // Numbers already pending or in flight hit the partial unique index and are skipped
+    await db
+      .insert(fedexRequestQueue)
+      .values(trackingNumbers.map(trackingNumber => ({ trackingNumber, instance })))
+      .onConflictDoNothing();
+  }
+
+  async claimFedExRequests(limit: number, instance: string, staleBefore: Date): Promise<FedExQueueItem[]> {
+    // A process only claims its own lookups, since their callers wait in its memory, plus ones
+    // left pending or in flight since staleBefore by a process that stopped. SKIP LOCKED so two
+    // processes never claim the same lookup.
+    const due = db
+      .select({ id: fedexRequestQueue.id })
+      .from(fedexRequestQueue)
+      .where(or(
+        and(
+          eq(fedexRequestQueue.status, "pending"),
+          lte(fedexRequestQueue.nextAttemptAt, new Date()),
+          or(eq(fedexRequestQueue.instance, instance), isNull(fedexRequestQueue.instance))
+        ),
+        and(
+          inArray(fedexRequestQueue.status, ["pending", "in_flight"]),
+          lt(fedexRequestQueue.updatedAt, staleBefore)
+        )
+      ))
+      .orderBy(asc(fedexRequestQueue.createdAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(fedexRequestQueue)
+      .set({
+        status: "in_flight",
+        instance,
+        attempts: sql`${fedexRequestQueue.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(fedexRequestQueue.id, due))
+      .returning();
+  }
+
+  async completeFedExRequests(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const now = new Date();
+    await db
+      .update(fedexRequestQueue)
+      .set({ status: "done", lastError: null, updatedAt: now, completedAt: now })
+      .where(inArray(fedexRequestQueue.id, ids));
+  }
+
+  async rescheduleFedExRequest(id: string, nextAttemptAt: Date, error: string): Promise<void> {
+    await db
+      .update(fedexRequestQueue)
+      .set({ status: "pending", nextAttemptAt, lastError: error, updatedAt: new Date() })
+      .where(eq(fedexRequestQueue.id, id));
+  }
+
+  async failFedExRequests(ids: string[], error: string): Promise<void> {
+    if (ids.length === 0) return;
+
+    const now = new Date();
+    await db
+      .update(fedexRequestQueue)
+      .set({ status: "failed", lastError: error, updatedAt: now, completedAt: now })
+      .where(inArray(fedexRequestQueue.id, ids));
+  }
+
+  async resetInFlightFedExRequests(staleBefore: Date): Promise<number> {
+    // Lookups another running process has in flight are left alone
+    const reset = await db
+      .update(fedexRequestQueue)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(and(eq(fedexRequestQueue.status, "in_flight"), lt(fedexRequestQueue.updatedAt, staleBefore)))
+      .returning({ id: fedexRequestQueue.id });
+    return reset.length;
+  }
+
+  async getNextFedExAttemptAt(instance: string): Promise<Date | null> {
+    const [next] = await db
+      .select({ nextAttemptAt: fedexRequestQueue.nextAttemptAt })
+      .from(fedexRequestQueue)
+      .where(and(eq(fedexRequestQueue.status, "pending"), eq(fedexRequestQueue.instance, instance)))
+      .orderBy(asc(fedexRequestQueue.nextAttemptAt))
+      .limit(1);
+    return next?.nextAttemptAt ?? null;
+  }
+
+  async getFedExQueueCounts(): Promise<Record<FedExQueueStatus, number>> {
+    const rows = await db
+      .select({ status: fedexRequestQueue.status, count: sql<number>`count(*)::int` })
+      .from(fedexRequestQueue)
+      .groupBy(fedexRequestQueue.status);
+
+    const counts: Record<FedExQueueStatus, number> = { pending: 0, in_flight: 0, failed: 0, done: 0 };
+    for (const row of rows) {
+      counts[row.status as FedExQueueStatus] = row.count;
+    }
+    return counts;
+  }
+
+  async getFedExQueueItems(statuses: FedExQueueStatus[], limit: number = 100): Promise<FedExQueueItem[]> {
+    if (statuses.length === 0) return [];
+
+    return await db
+      .select()
+      .from(fedexRequestQueue)
+      .where(inArray(fedexRequestQueue.status, statuses))
+      .orderBy(desc(fedexRequestQueue.updatedAt))
+      .limit(limit);
+  }
+
+  async clearPendingFedExRequests(reason: string): Promise<string[]> {
+    const now = new Date();
+    const cleared = await db
+      .update(fedexRequestQueue)
+      .set({ status: "failed", lastError: reason, updatedAt: now, completedAt: now })
+      .where(eq(fedexRequestQueue.status, "pending"))
+      .returning({ trackingNumber: fedexRequestQueue.trackingNumber });
+    return cleared.map(row => row.trackingNumber);
+  }
+
+  async pruneFedExRequests(completedBefore: Date): Promise<number> {
+    const pruned = await db
+      .delete(fedexRequestQueue)
+      .where(and(eq(fedexRequestQueue.status, "done"), lt(fedexRequestQueue.completedAt, completedBefore)))
+      .returning({ id: fedexRequestQueue.id });
+    return pruned.length;
+  }
+
+  async createShipmentEvents(events: InsertShipmentEvent[]): Promise<number> {
+    if (events.length === 0) return 0;
+
+    // Events we already have hit the dedupe index and are skipped
+    const inserted = await db
+      .insert(shipmentEvents)
+      .values(events)
+      .onConflictDoNothing()
+      .returning({ id: shipmentEvents.id });
+    return inserted.length;
+  }
+
+  async getShipmentEvents(trackingNumber: string): Promise<ShipmentEvent[]> {
+    return await db
+      .select()
+      .from(shipmentEvents)
+      .where(eq(shipmentEvents.trackingNumber, trackingNumber))
+      .orderBy(sql`${shipmentEvents.eventTime} desc nulls last`, desc(shipmentEvents.recordedAt));
+  }
+
+  async searchShipmentEvents(filters: ShipmentEventFilters): Promise<ShipmentEvent[]> {
+    const conditions: SQL[] = [];
+    if (filters.trackingNumber) conditions.push(eq(shipmentEvents.trackingNumber, filters.trackingNumber));
+    if (filters.eventType) conditions.push(eq(shipmentEvents.eventType, filters.eventType.toUpperCase()));
+    if (filters.city) conditions.push(ilike(shipmentEvents.city, filters.city));
+    if (filters.stateOrProvince) conditions.push(ilike(shipmentEvents.stateOrProvince, filters.stateOrProvince));
+    if (filters.from) conditions.push(gte(shipmentEvents.eventTime, filters.from));
+    if (filters.to) conditions.push(lt(shipmentEvents.eventTime, filters.to));
+
+    return await db
+      .select()
+      .from(shipmentEvents)
+      .where(and(...conditions))
+      .orderBy(sql`${shipmentEvents.eventTime} desc nulls last`)
+      .limit(filters.limit ?? 500);
+  }
+
+  async searchScanEvents(filters: ScanEventFilters): Promise<ScanEvent[]> {
+    const conditions: SQL[] = [];
+    if (filters.trackingNumber) conditions.push(eq(scanEvents.trackingNumber, filters.trackingNumber));
+    if (filters.sessionId) conditions.push(eq(scanEvents.sessionId, filters.sessionId));
+    if (filters.scannedBy) conditions.push(ilike(scanEvents.scannedBy, filters.scannedBy));
+    if (filters.device) conditions.push(eq(scanEvents.device, filters.device));
+    if (filters.duplicatesOnly) conditions.push(eq(scanEvents.duplicate, 1));
+    if (!filters.includeRemoved) conditions.push(isNull(scanEvents.removedAt));
+    if (filters.from) conditions.push(gte(scanEvents.scannedAt, filters.from));
+    if (filters.to) conditions.push(lt(scanEvents.scannedAt, filters.to));
+
+    return await db
+      .select()
+      .from(scanEvents)
+      .where(and(...conditions))
+      .orderBy(asc(scanEvents.scannedAt))
+      .limit(filters.limit ?? 500);
+  }
+
+  // Every scan of the numbers scanned more than once in a session, leaving out removed scans
+  async getDuplicateScanEvents(sessionId: string): Promise<ScanEvent[]> {
+    const counted = and(eq(scanEvents.sessionId, sessionId), isNull(scanEvents.removedAt));
+    const repeated = db
+      .select({ trackingNumber: scanEvents.trackingNumber })
+      .from(scanEvents)
+      .where(counted)
+      .groupBy(scanEvents.trackingNumber)
+      .having(sql`count(*) > 1`);
+
+    return await db
+      .select()
+      .from(scanEvents)
+      .where(and(counted, inArray(scanEvents.trackingNumber, repeated)))
+      .orderBy(asc(scanEvents.trackingNumber), asc(scanEvents.scannedAt));
+  }
+
+  async getShipmentPackages(shipmentTrackingNumber: string): Promise<ShipmentPackage[]> {
+    return await db
+      .select()
+      .from(shipmentPackages)
+      .where(eq(shipmentPackages.shipmentTrackingNumber, shipmentTrackingNumber))
+      .orderBy(asc(shipmentPackages.trackingNumber));
+  }
+
+  async syncShipmentPackages(shipmentTrackingNumber: string, carrier: string, childTrackingNumbers: string[]): Promise<ShipmentPackage[]> {
+    const children = Array.from(new Set(childTrackingNumbers));
+
+    // Drop pieces no longer listed as children, add new ones; existing rows keep their tracking state
+    await db
+      .delete(shipmentPackages)
+      .where(and(
+        eq(shipmentPackages.shipmentTrackingNumber, shipmentTrackingNumber),
+        children.length > 0 ? notInArray(shipmentPackages.trackingNumber, children) : undefined
+      ));
+
+    if (children.length > 0) {
+      await db
+        .insert(shipmentPackages)
+        .values(children.map(trackingNumber => ({ shipmentTrackingNumber, trackingNumber, carrier })))
+        .onConflictDoNothing();
+    }
+
+    return this.getShipmentPackages(shipmentTrackingNumber);
+  }
+
+  async updateShipmentPackage(id: string, updates: Partial<Omit<ShipmentPackage, 'id' | 'lastUpdate'>>): Promise<ShipmentPackage | undefined> {
+    const [updated] = await db
+      .update(shipmentPackages)
+      .set({ ...updates, lastUpdate: new Date() })
+      .where(eq(shipmentPackages.id, id))
+      .returning();
+    return updated;
+  }
+
+  async startSchedulerRun(job: SchedulerJob, trigger: string, instance: string): Promise<SchedulerRun> {
+    const [run] = await db
+      .insert(schedulerRuns)
+      .values({ job, trigger, instance, status: 'running' })
+      .returning();
+    changeEvents.publish({ type: 'scheduler', job });
+    return run;
+  }
+
+  async finishSchedulerRun(id: string, status: 'success' | 'failed', summary: unknown, errorMessage?: string): Promise<SchedulerRun | undefined> {
+    const [run] = await db
+      .update(schedulerRuns)
+      .set({
+        status,
+        finishedAt: new Date(),
+        summary: summary === undefined ? null : JSON.stringify(summary),
+        errorMessage: errorMessage || null,
+      })
+      .where(eq(schedulerRuns.id, id))
+      .returning();
+    if (run) changeEvents.publish({ type: 'scheduler', job: run.job });
+    return run;
+  }
+
+  async getLatestSchedulerRun(job: SchedulerJob): Promise<SchedulerRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(schedulerRuns)
+      .where(eq(schedulerRuns.job, job))
+      .orderBy(desc(schedulerRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  async getRecentSchedulerRuns(limit: number = 20): Promise<SchedulerRun[]> {
+    return await db
+      .select()
+      .from(schedulerRuns)
+      .orderBy(desc(schedulerRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getSheetSources(): Promise<SheetSource[]> {
+    return await db.select().from(sheetSources).orderBy(asc(sheetSources.role));
+  }
+
+  async getSheetSource(id: string): Promise<SheetSource | undefined> {
+    const [source] = await db.select().from(sheetSources).where(eq(sheetSources.id, id));
+    return source;
+  }
+
+  async getSheetColumnMappings(sourceId?: string): Promise<SheetColumnMapping[]> {
+    return await db
+      .select()
+      .from(sheetColumnMappings)
+      .where(sourceId ? eq(sheetColumnMappings.sourceId, sourceId) : undefined)
+      .orderBy(asc(sheetColumnMappings.field), asc(sheetColumnMappings.priority));
+  }
+
+  async updateSheetSource(
+    id: string,
+    updates: Partial<Pick<SheetSource, 'name' | 'spreadsheetId' | 'sheetName' | 'enabled'>>,
+    mappings: Array<Pick<SheetColumnMapping, 'field' | 'header' | 'priority'>>
+  ): Promise<SheetSource | undefined> {
+    // Replace the source's mappings as a whole so a half-saved edit can't leave a field unmapped
+    return await db.transaction(async (tx) => {
+      const [source] = await tx
+        .update(sheetSources)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(sheetSources.id, id))
+        .returning();
+      if (!source) return undefined;
+
+      await tx.delete(sheetColumnMappings).where(eq(sheetColumnMappings.sourceId, id));
+      if (mappings.length > 0) {
+        await tx.insert(sheetColumnMappings).values(mappings.map(mapping => ({ ...mapping, sourceId: id })));
+      }
+
+      return source;
+    });
+  }
+
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return await db.select().from(importProfiles).orderBy(asc(importProfiles.name));
+  }
+
+  async getImportProfile(id: string): Promise<ImportProfile | undefined> {
+    const [profile] = await db.select().from(importProfiles).where(eq(importProfiles.id, id));
+    return profile;
+  }
+
+  async createImportProfile(profile: ImportProfileInput): Promise<ImportProfile> {
+    const [created] = await db
+      .insert(importProfiles)
+      .values({ ...profile, columns: JSON.stringify(profile.columns) })
+      .returning();
+    return created;
+  }
+
+  async updateImportProfile(id: string, profile: ImportProfileInput): Promise<ImportProfile | undefined> {
+    const [updated] = await db
+      .update(importProfiles)
+      .set({ ...profile, columns: JSON.stringify(profile.columns), updatedAt: new Date() })
+      .where(eq(importProfiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteImportProfile(id: string): Promise<boolean> {
+    const deleted = await db.delete(importProfiles).where(eq(importProfiles.id, id)).returning({ id: importProfiles.id });
+    return deleted.length > 0;
+  }
+
+  async createImportJob(job: Pick<ImportJob, 'source'> & Partial<Pick<ImportJob, 'fileName' | 'importedBy' | 'profileId' | 'headers'>>): Promise<ImportJob> {
+    const [created] = await db
+      .insert(importJobs)
+      .values({ ...job, status: 'running' })
+      .returning();
+    changeEvents.publish({ type: 'import_jobs', jobId: created.id });
+    return created;
+  }
+
+  async finishImportJob(id: string, status: 'completed' | 'failed', counts: ImportJobCounts, errorMessage?: string): Promise<ImportJob | undefined> {
+    const [job] = await db
+      .update(importJobs)
+      .set({ ...counts, status, finishedAt: new Date(), errorMessage: errorMessage || null })
+      .where(eq(importJobs.id, id))
+      .returning();
+    changeEvents.publish({ type: 'import_jobs', jobId: id });
+    return job;
+  }
+
+  async recountImportJob(id: string): Promise<ImportJob | undefined> {
+    const counts = await db
+      .select({ outcome: importJobRows.outcome, count: sql<number>`count(*)::int` })
+      .from(importJobRows)
+      .where(eq(importJobRows.jobId, id))
+      .groupBy(importJobRows.outcome);
+
+    const countOf = (outcome: ImportRowOutcome) => counts.find(row => row.outcome === outcome)?.count ?? 0;
+    const [job] = await db
+      .update(importJobs)
+      .set({ imported: countOf('imported'), failed: countOf('failed'), rejected: countOf('rejected') })
+      .where(eq(importJobs.id, id))
+      .returning();
+    changeEvents.publish({ type: 'import_jobs', jobId: id });
+    return job;
+  }
+
+  async getImportJobs(limit: number = 50): Promise<ImportJob[]> {
+    return await db.select().from(importJobs).orderBy(desc(importJobs.createdAt)).limit(limit);
+  }
+
+  async getImportJob(id: string): Promise<ImportJob | undefined> {
+    const [job] = await db.select().from(importJobs).where(eq(importJobs.id, id));
+    return job;
+  }
+
+  async addImportJobRows(jobId: string, rows: InsertImportJobRow[]): Promise<void> {
+    // Large files would go over Postgres' bind parameter limit in one insert
+    for (let i = 0; i < rows.length; i += 500) {
+      await db.insert(importJobRows).values(rows.slice(i, i + 500).map(row => ({ ...row, jobId })));
+    }
+  }
+
+  async getImportJobRows(jobId: string, outcomes?: ImportRowOutcome[]): Promise<ImportJobRow[]> {
+    return await db
+      .select()
+      .from(importJobRows)
+      .where(and(
+        eq(importJobRows.jobId, jobId),
+        outcomes ? inArray(importJobRows.outcome, outcomes) : undefined
+      ))
+      .orderBy(asc(importJobRows.rowNumber));
+  }
+
+  async updateImportJobRows(ids: string[], outcome: ImportRowOutcome, error: string | null): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(importJobRows)
+      .set({ outcome, error, updatedAt: new Date() })
+      .where(inArray(importJobRows.id, ids));
+  }
+
+  async getFieldPrecedence(): Promise<FieldPrecedenceRow[]> {
+    return await db.select().from(fieldPrecedence);
+  }
+
+  async setFieldPrecedence(field: EnrichedField, sources: EnrichmentSource[]): Promise<FieldPrecedenceRow> {
+    const [row] = await db
+      .insert(fieldPrecedence)
+      .values({ field, sources: JSON.stringify(sources) })
+      .onConflictDoUpdate({
+        target: fieldPrecedence.field,
+        set: { sources: JSON.stringify(sources), updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteFieldPrecedence(field: EnrichedField): Promise<boolean> {
+    const deleted = await db.delete(fieldPrecedence).where(eq(fieldPrecedence.field, field)).returning();
+    return deleted.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,80 @@
+export const CARRIERS = ["fedex", "ups", "usps", "dhl"] as const;
+
+export type Carrier = typeof CARRIERS[number];
+
+// Everything tracked before multi-carrier support was FedEx
+export const DEFAULT_CARRIER: Carrier = "fedex";
+
+export const CARRIER_LABELS: Record<Carrier, string> = {
+  fedex: "FedEx",
+  ups: "UPS",
+  usps: "USPS",
+  dhl: "DHL",
+};
+
+// DHL Express waybills end in a check digit: the first nine digits mod 7
+function hasDhlCheckDigit(trackingNumber: string): boolean {
+  return parseInt(trackingNumber.slice(0, 9), 10) % 7 === parseInt(trackingNumber[9], 10);
+}
+
+// Ordered most specific first - several carriers use all-digit numbers,
+// so the distinctive prefixes/lengths have to win before the generic ones.
+// Formats overlap (FedEx SmartPost barcodes are USPS IMpb numbers), so a stored or given
+// carrier always wins over detection.
+const CARRIER_PATTERNS: Array<{ carrier: Carrier; pattern: RegExp; check?: (trackingNumber: string) => boolean }> = [
+  // UPS: 1Z + 16 alphanumerics, or T + 10 digits (freight)
+  { carrier: "ups", pattern: /^1Z[0-9A-Z]{16}$/ },
+  { carrier: "ups", pattern: /^T\d{10}$/ },
+  // USPS: 22-digit IMpb (92/93/94/95 prefixes), 20-digit certified, S10 international
+  { carrier: "usps", pattern: /^(92|93|94|95)\d{20}$/ },
+  { carrier: "usps", pattern: /^(70|23|03)\d{18}$/ },
+  { carrier: "usps", pattern: /^[A-Z]{2}\d{9}US$/ },
+  // DHL: eCommerce JJD/JVGL/GM prefixes, 10-digit express waybills
+  { carrier: "dhl", pattern: /^JJD\d{18}$/ },
+  { carrier: "dhl", pattern: /^JVGL\d{8,}$/ },
+  { carrier: "dhl", pattern: /^GM\d{16,18}$/ },
+  { carrier: "dhl", pattern: /^\d{10}$/, check: hasDhlCheckDigit },
+  // FedEx: 12 (Express), 15 (Ground), 20 (Ground 96 barcode), 22 (SmartPost)
+  { carrier: "fedex", pattern: /^\d{12}$/ },
+  { carrier: "fedex", pattern: /^\d{15}$/ },
+  { carrier: "fedex", pattern: /^96\d{18}$/ },
+  { carrier: "fedex", pattern: /^\d{22}$/ },
+];
+
+/**
+ * Detect the carrier from the tracking number format.
+ * Returns null when the format doesn't match any known carrier.
+ */
+export function detectCarrier(trackingNumber: string): Carrier | null {
+  const normalized = trackingNumber.replace(/\s+/g, "").toUpperCase();
+
+  for (const { carrier, pattern, check } of CARRIER_PATTERNS) {
+    if (pattern.test(normalized) && (!check || check(normalized))) {
+      return carrier;
+    }
+  }
+
+  return null;
+}
+
+export function isCarrier(value: unknown): value is Carrier {
+  return typeof value === "string" && (CARRIERS as readonly string[]).includes(value);
+}
+
+/**
+ * Public tracking page for a tracking number on the carrier's website
+ */
+export function getCarrierTrackingUrl(carrier: string | null | undefined, trackingNumber: string): string {
+  const encoded = encodeURIComponent(trackingNumber);
+
+  switch (carrier) {
+    case "ups":
+      return `https://www.ups.com/track?tracknum=${encoded}`;
+    case "usps":
+      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encoded}`;
+    case "dhl":
+      return `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${encoded}`;
+    default:
+      return `https://www.fedex.com/fedextrack/?trknbr=${encoded}`;
+  }
+}
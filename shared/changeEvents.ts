@@ -0,0 +1,15 @@
+import type { SchedulerJob, Shipment } from "./schema";
+
+/**
+ * What the server pushes to browsers over GET /api/events (Server-Sent Events) when data
+ * changes, so they can update their cached queries instead of polling.
+ */
+export type ChangeEvent =
+  // Shipments saved or removed. `reload` means too many changed at once to send: refetch the list.
+  | { type: "shipments"; updated: Shipment[]; removed: string[]; reload: boolean }
+  | { type: "sessions"; sessionId: string } // a scanning session was started, joined or closed
+  | { type: "scans"; sessionId: string } // scans were added to or removed from a scanning session
+  | { type: "saved_sessions" } // a scanned session snapshot was saved or deleted
+  | { type: "sync_runs"; runId: string }
+  | { type: "scheduler"; job: SchedulerJob }
+  | { type: "import_jobs"; jobId: string };
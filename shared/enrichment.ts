@@ -0,0 +1,88 @@
+import { SHEET_FIELD_LABELS } from "./sheetMappings";
+
+/**
+ * Where shipment field values come from. Each source is an enricher that offers values for a
+ * shipment; per field, the precedence list decides whose value is kept.
+ */
+export const ENRICHMENT_SOURCES = ["manual", "output_sheet", "inbound_sheet", "carrier", "file_import", "email"] as const;
+
+export type EnrichmentSource = typeof ENRICHMENT_SOURCES[number];
+
+export const ENRICHMENT_SOURCE_LABELS: Record<EnrichmentSource, string> = {
+  manual: "Manual entry",
+  output_sheet: "Output sheet",
+  inbound_sheet: "ALL INBOUND sheet",
+  carrier: "Carrier tracking",
+  file_import: "File import",
+  email: "FedEx email",
+};
+
+// Shipment fields whose value is chosen by source precedence and can be locked
+export const ENRICHED_FIELDS = [
+  "status",
+  "statusDescription",
+  "scheduledDelivery",
+  "carrier",
+  "masterTrackingNumber",
+  "childTrackingNumbers",
+  "shipperName",
+  "shipperCompany",
+  "recipientName",
+  "recipientCompany",
+  "packageCount",
+  "packageType",
+  "packageWeight",
+  "totalWeight",
+  "direction",
+  "serviceType",
+] as const;
+
+export type EnrichedField = typeof ENRICHED_FIELDS[number];
+
+export const ENRICHED_FIELD_LABELS: Record<EnrichedField, string> = {
+  status: "Status",
+  statusDescription: "Status Description",
+  childTrackingNumbers: "Child Tracking Numbers",
+  scheduledDelivery: SHEET_FIELD_LABELS.scheduledDelivery,
+  carrier: SHEET_FIELD_LABELS.carrier,
+  masterTrackingNumber: SHEET_FIELD_LABELS.masterTrackingNumber,
+  shipperName: SHEET_FIELD_LABELS.shipperName,
+  shipperCompany: SHEET_FIELD_LABELS.shipperCompany,
+  recipientName: SHEET_FIELD_LABELS.recipientName,
+  recipientCompany: SHEET_FIELD_LABELS.recipientCompany,
+  packageCount: SHEET_FIELD_LABELS.packageCount,
+  packageType: SHEET_FIELD_LABELS.packageType,
+  packageWeight: SHEET_FIELD_LABELS.packageWeight,
+  totalWeight: SHEET_FIELD_LABELS.totalWeight,
+  direction: SHEET_FIELD_LABELS.direction,
+  serviceType: SHEET_FIELD_LABELS.serviceType,
+};
+
+// Sources per field, highest precedence first. Sources left out rank below the listed ones.
+export type FieldPrecedence = Record<EnrichedField, EnrichmentSource[]>;
+
+const CARRIER_FIRST: EnrichmentSource[] = ["carrier", "manual", "file_import", "email"];
+const SHEET_FIRST: EnrichmentSource[] = ["output_sheet", "inbound_sheet", "manual", "file_import", "email"];
+
+// Matches how syncs merged data before precedence was configurable
+export const DEFAULT_FIELD_PRECEDENCE: FieldPrecedence = {
+  status: CARRIER_FIRST,
+  statusDescription: CARRIER_FIRST,
+  childTrackingNumbers: CARRIER_FIRST,
+  scheduledDelivery: ["carrier", "inbound_sheet", "output_sheet", "manual", "file_import", "email"],
+  carrier: ["output_sheet", "manual", "file_import", "inbound_sheet", "email"],
+  masterTrackingNumber: SHEET_FIRST,
+  shipperName: SHEET_FIRST,
+  shipperCompany: SHEET_FIRST,
+  recipientName: SHEET_FIRST,
+  recipientCompany: SHEET_FIRST,
+  packageCount: SHEET_FIRST,
+  packageType: SHEET_FIRST,
+  packageWeight: SHEET_FIRST,
+  totalWeight: SHEET_FIRST,
+  direction: SHEET_FIRST,
+  serviceType: SHEET_FIRST,
+};
+
+// shipments.field_sources: which source last set each field, and when (ISO time)
+export type FieldSources = Partial<Record<EnrichedField, { source: EnrichmentSource; at: string }>>;
@@ -0,0 +1,17 @@
+import { SHEET_FIELDS, SHEET_FIELD_LABELS } from "./sheetMappings";
+
+/**
+ * Shipment fields an uploaded file can fill. Same as the sheet fields plus the status column
+ * that FedEx exports carry; an import profile maps header names to them.
+ */
+export const IMPORT_FIELDS = ["status", ...SHEET_FIELDS] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  status: "Status",
+  ...SHEET_FIELD_LABELS,
+};
+
+// Headers per field in priority order, lowercase (see normalizeHeader)
+export type ImportColumns = Partial<Record<ImportField, string[]>>;
@@ -1,7 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { type ShipmentStatus, normalizeStatus } from "./status";
+import type { SheetField, SheetSourceRole } from "./sheetMappings";
+import type { ImportColumns } from "./importProfiles";
+import type { EnrichedField } from "./enrichment";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -20,7 +24,8 @@ export type User = typeof users.$inferSelect;
 export const shipments = pgTable("shipments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   trackingNumber: text("tracking_number").notNull(),
-  status: text("status").notNull(),
+  carrier: text("carrier").notNull().default("fedex"), // "fedex" | "ups" | "usps" | "dhl", see shared/carriers.ts
+  status: text("status").$type<ShipmentStatus>().notNull(), // canonical status, see shared/status.ts
   statusDescription: text("status_description"), // FedEx's actual status text like "On the way"
   scheduledDelivery: text("scheduled_delivery"),
   shipperName: text("shipper_name"),
@@ -41,37 +46,47 @@ export const shipments = pgTable("shipments", {
   notScanned: integer("not_scanned").notNull().default(0), // 0 = scanned, 1 = not scanned
   manuallyCompleted: integer("manually_completed").notNull().default(0), // 0 = not complete, 1 = complete
   deliveredPackageCount: integer("delivered_package_count").notNull().default(0), // number of packages actually delivered (for partial deliveries)
+  deletedAt: timestamp("deleted_at"), // set when a sync archived it (soft delete) - hidden everywhere until restored
+  deletedByRunId: varchar("deleted_by_run_id"), // sync_runs row that archived it
+  lockedFields: text("locked_fields").array().$type<EnrichedField[]>(), // fields no source may change, see shared/enrichment.ts
+  fieldSources: text("field_sources"), // JSON FieldSources: which source last set each field
 }, (table) => ({
   trackingNumberIdx: uniqueIndex("tracking_number_idx").on(table.trackingNumber),
+  deletedByRunIdx: index("shipments_deleted_by_run_id_idx").on(table.deletedByRunId),
 }));
 
-export const insertShipmentSchema = createInsertSchema(shipments).omit({
+export const insertShipmentSchema = createInsertSchema(shipments, {
+  // Accept carrier codes, legacy labels and sheet text; store the canonical status
+  status: z.string().transform(normalizeStatus),
+}).omit({
   id: true,
   lastUpdate: true,
+  deletedAt: true,
+  deletedByRunId: true,
+  lockedFields: true,
+  fieldSources: true,
 });
 
 export type InsertShipment = z.infer<typeof insertShipmentSchema>;
 export type Shipment = typeof shipments.$inferSelect;
 
-export type ShipmentStatus = 
-  | "Label created"
-  | "On the way"
-  | "Out for delivery"
-  | "Delivered"
-  | "Exception"
-  | "Pending";
+// What storage upserts: an insert plus the field sources worked out by the enrichment merge
+export type UpsertShipment = InsertShipment & { fieldSources?: string | null };
 
 export const syncLogs = pgTable("sync_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
-  source: text("source").notNull(), // "google_sheets" or "fedex"
+  source: text("source").notNull(), // "google_sheets", "fedex" or "fedex_webhook"
   trackingNumber: text("tracking_number"),
   success: integer("success").notNull(), // 1 for success, 0 for failure (using integer as boolean)
   errorMessage: text("error_message"),
   errorStack: text("error_stack"),
   sheetData: text("sheet_data"), // JSON string of the raw sheet data
   responseData: text("response_data"), // JSON string of the API response
-});
+  runId: varchar("run_id"), // sync_runs.id of the sync that wrote this log, null for one-off lookups
+}, (table) => ({
+  runIdIdx: index("sync_logs_run_id_idx").on(table.runId),
+}));
 
 export const insertSyncLogSchema = createInsertSchema(syncLogs).omit({
   id: true,
@@ -81,6 +96,28 @@ export const insertSyncLogSchema = createInsertSchema(syncLogs).omit({
 export type InsertSyncLog = z.infer<typeof insertSyncLogSchema>;
 export type SyncLog = typeof syncLogs.$inferSelect;
 
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull(), // "google_sheets", "fedex" or "fedex_webhook", as in sync_logs
+  trigger: text("trigger").notNull(), // "schedule", "manual" or "webhook"
+  status: text("status").notNull().default("running"), // "running" | "success" | "failed"
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  added: integer("added").notNull().default(0), // shipments created
+  updated: integer("updated").notNull().default(0), // existing shipments updated
+  archived: integer("archived").notNull().default(0), // shipments moved to delivered history
+  failed: integer("failed").notNull().default(0), // rows/shipments that errored
+  fedexCalls: integer("fedex_calls").notNull().default(0), // carrier lookups made
+  fedexCached: integer("fedex_cached").notNull().default(0), // shipments served from cached tracking data instead
+  sheetsApiCalls: integer("sheets_api_calls").notNull().default(0), // Google Sheets API requests made
+  errorMessage: text("error_message"), // why the whole run failed, if it did
+}, (table) => ({
+  startedAtIdx: index("sync_runs_started_at_idx").on(table.startedAt),
+}));
+
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type SyncRunCounts = Partial<Pick<SyncRun, "added" | "updated" | "archived" | "failed" | "fedexCalls" | "fedexCached" | "sheetsApiCalls">>;
+
 export const scannedSessions = pgTable("scanned_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
@@ -96,10 +133,60 @@ export const insertScannedSessionSchema = createInsertSchema(scannedSessions).om
 export type InsertScannedSession = z.infer<typeof insertScannedSessionSchema>;
 export type ScannedSession = typeof scannedSessions.$inferSelect;
 
+export const SCANNING_SESSION_STATUSES = ["open", "closed"] as const;
+export type ScanningSessionStatus = typeof SCANNING_SESSION_STATUSES[number];
+
+// A live scanning session that one or more receivers scan into at the same time
+export const scanningSessions = pgTable("scanning_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name"),
+  status: text("status").$type<ScanningSessionStatus>().notNull().default("open"),
+  createdBy: text("created_by"), // name given by the receiver - there are no user accounts
+  participants: text("participants").array().notNull().default(sql`'{}'::text[]`), // names of everyone who joined
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  closedAt: timestamp("closed_at"),
+}, (table) => ({
+  statusIdx: index("scanning_sessions_status_idx").on(table.status),
+}));
+
+export type ScanningSession = typeof scanningSessions.$inferSelect;
+export type ScanningSessionSummary = ScanningSession & { scanCount: number };
+
+export const scanningSessionScans = pgTable("scanning_session_scans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(), // scanning_sessions.id
+  trackingNumber: text("tracking_number").notNull(),
+  scannedBy: text("scanned_by"),
+  scannedAt: timestamp("scanned_at").notNull().defaultNow(),
+}, (table) => ({
+  sessionTrackingNumberIdx: uniqueIndex("scanning_session_scans_session_tracking_number_idx").on(table.sessionId, table.trackingNumber),
+}));
+
+export type ScanningSessionScan = typeof scanningSessionScans.$inferSelect;
+
+// Every barcode read into a scanning session, kept even when it was a repeat or was taken back out
+export const scanEvents = pgTable("scan_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackingNumber: text("tracking_number").notNull(),
+  rawBarcode: text("raw_barcode").notNull(), // as read, before the tracking number was extracted from it
+  sessionId: varchar("session_id").notNull(), // scanning_sessions.id
+  scannedBy: text("scanned_by"),
+  device: text("device"), // ID the scanning browser generated for itself
+  duplicate: integer("duplicate").notNull().default(0), // 1 when the number was already scanned in the session
+  removedAt: timestamp("removed_at"), // set when the number was removed from the session again
+  scannedAt: timestamp("scanned_at").notNull().defaultNow(),
+}, (table) => ({
+  trackingNumberIdx: index("scan_events_tracking_number_idx").on(table.trackingNumber, table.scannedAt),
+  sessionIdx: index("scan_events_session_id_idx").on(table.sessionId, table.scannedAt),
+}));
+
+export type ScanEvent = typeof scanEvents.$inferSelect;
+export type ScanInput = Pick<ScanEvent, "trackingNumber" | "rawBarcode">;
+
 export const deliveredShipments = pgTable("delivered_shipments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   trackingNumber: text("tracking_number").notNull(),
-  status: text("status").notNull(),
+  status: text("status").$type<ShipmentStatus>().notNull(),
   shipperCompany: text("shipper_company"),
   recipientCompany: text("recipient_company"),
   serviceType: text("service_type"),
@@ -108,14 +195,245 @@ export const deliveredShipments = pgTable("delivered_shipments", {
   expectedDelivery: text("expected_delivery"),
   actualDelivery: timestamp("actual_delivery").notNull().defaultNow(),
   deliveredAt: timestamp("delivered_at").notNull().defaultNow(),
+  archivedByRunId: varchar("archived_by_run_id"), // sync_runs row that archived it, removed again if that run is restored
 }, (table) => ({
   trackingNumberIdx: uniqueIndex("delivered_tracking_number_idx").on(table.trackingNumber),
 }));
 
-export const insertDeliveredShipmentSchema = createInsertSchema(deliveredShipments).omit({
+export const insertDeliveredShipmentSchema = createInsertSchema(deliveredShipments, {
+  status: z.string().transform(normalizeStatus),
+}).omit({
   id: true,
   deliveredAt: true,
 });
 
 export type InsertDeliveredShipment = z.infer<typeof insertDeliveredShipmentSchema>;
 export type DeliveredShipment = typeof deliveredShipments.$inferSelect;
+
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackingNumber: text("tracking_number").notNull(),
+  carrier: text("carrier").notNull().default("fedex"),
+  active: integer("active").notNull().default(1), // 1 = receiving push updates, 0 = unregistered
+  registeredAt: timestamp("registered_at").notNull().defaultNow(),
+  unregisteredAt: timestamp("unregistered_at"),
+  lastNotificationAt: timestamp("last_notification_at"), // last webhook delivery for this tracking number
+}, (table) => ({
+  trackingNumberIdx: uniqueIndex("push_subscription_tracking_number_idx").on(table.trackingNumber),
+}));
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  registeredAt: true,
+  unregisteredAt: true,
+  lastNotificationAt: true,
+});
+
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+
+export const FEDEX_QUEUE_STATUSES = ["pending", "in_flight", "failed", "done"] as const;
+export type FedExQueueStatus = typeof FEDEX_QUEUE_STATUSES[number];
+
+export const fedexRequestQueue = pgTable("fedex_request_queue", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackingNumber: text("tracking_number").notNull(),
+  status: text("status").notNull().default("pending"), // "pending" | "in_flight" | "failed" | "done"
+  instance: text("instance"), // process that queued the lookup; its callers wait in that process's memory
+  attempts: integer("attempts").notNull().default(0), // number of FedEx requests made for this lookup
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(), // not picked up before this time (rate limit backoff)
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  // Only one active lookup per tracking number; finished rows are kept for history
+  activeTrackingNumberIdx: uniqueIndex("fedex_queue_active_tracking_number_idx")
+    .on(table.trackingNumber)
+    .where(sql`status in ('pending', 'in_flight')`),
+  statusNextAttemptIdx: index("fedex_queue_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export type FedExQueueItem = typeof fedexRequestQueue.$inferSelect;
+
+export const shipmentEvents = pgTable("shipment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trackingNumber: text("tracking_number").notNull(),
+  carrier: text("carrier").notNull().default("fedex"),
+  eventTime: timestamp("event_time"), // parsed carrier timestamp, null if unparseable
+  eventType: text("event_type"), // carrier scan code like "AR" (arrived) or "DL" (delivered)
+  description: text("description"),
+  location: text("location"), // formatted "City, ST, CC"
+  city: text("city"),
+  stateOrProvince: text("state_or_province"),
+  countryCode: text("country_code"),
+  dedupeKey: text("dedupe_key").notNull(), // carrier timestamp|description|location
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+}, (table) => ({
+  // The same scan comes back on every refresh; only the first copy is stored
+  dedupeIdx: uniqueIndex("shipment_event_dedupe_idx").on(table.trackingNumber, table.dedupeKey),
+  eventTimeIdx: index("shipment_event_time_idx").on(table.eventTime),
+  cityIdx: index("shipment_event_city_idx").on(table.city),
+}));
+
+export const insertShipmentEventSchema = createInsertSchema(shipmentEvents).omit({
+  id: true,
+  recordedAt: true,
+});
+
+export type InsertShipmentEvent = z.infer<typeof insertShipmentEventSchema>;
+export type ShipmentEvent = typeof shipmentEvents.$inferSelect;
+
+export const shipmentPackages = pgTable("shipment_packages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentTrackingNumber: text("shipment_tracking_number").notNull(), // master shipment this piece belongs to
+  trackingNumber: text("tracking_number").notNull(), // child tracking number of this piece
+  carrier: text("carrier").notNull().default("fedex"),
+  status: text("status").$type<ShipmentStatus>().notNull().default("pending"),
+  statusDescription: text("status_description"),
+  lastEventTime: text("last_event_time"), // carrier timestamp of the latest scan
+  lastEventDescription: text("last_event_description"),
+  lastLocation: text("last_location"),
+  deliveredAt: timestamp("delivered_at"),
+  lastUpdate: timestamp("last_update").notNull().defaultNow(),
+}, (table) => ({
+  shipmentPackageIdx: uniqueIndex("shipment_package_idx").on(table.shipmentTrackingNumber, table.trackingNumber),
+}));
+
+export type ShipmentPackage = typeof shipmentPackages.$inferSelect;
+
+export const SCHEDULER_JOBS = ["sheet_sync", "shipment_refresh", "hot_folder", "email_ingest"] as const;
+export type SchedulerJob = typeof SCHEDULER_JOBS[number];
+
+export const schedulerRuns = pgTable("scheduler_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  job: text("job").$type<SchedulerJob>().notNull(),
+  trigger: text("trigger").notNull(), // "schedule" or "manual"
+  status: text("status").notNull().default("running"), // "running" | "success" | "failed"
+  instance: text("instance"), // hostname:pid of the server that held the lock
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  summary: text("summary"), // JSON string of the job result counts
+  errorMessage: text("error_message"),
+}, (table) => ({
+  jobStartedAtIdx: index("scheduler_runs_job_started_at_idx").on(table.job, table.startedAt),
+}));
+
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
+
+export const sheetSources = pgTable("sheet_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  role: text("role").$type<SheetSourceRole>().notNull(), // see shared/sheetMappings.ts
+  spreadsheetId: text("spreadsheet_id"), // null = use GOOGLE_SHEET_ID
+  sheetName: text("sheet_name").notNull(), // tab name, e.g. "Output"
+  enabled: integer("enabled").notNull().default(1), // 1 = used by sync, 0 = ignored
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  // The sync reads one sheet per role
+  roleIdx: uniqueIndex("sheet_sources_role_idx").on(table.role),
+}));
+
+export type SheetSource = typeof sheetSources.$inferSelect;
+
+export const sheetColumnMappings = pgTable("sheet_column_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceId: varchar("source_id").notNull(), // sheet_sources.id
+  field: text("field").$type<SheetField>().notNull(), // shipment field, see SHEET_FIELDS
+  header: text("header").notNull(), // lowercase sheet header
+  priority: integer("priority").notNull().default(0), // lower is tried first when a field has several headers
+}, (table) => ({
+  sourceFieldHeaderIdx: uniqueIndex("sheet_column_mappings_source_field_header_idx").on(table.sourceId, table.field, table.header),
+}));
+
+export type SheetColumnMapping = typeof sheetColumnMappings.$inferSelect;
+
+// Overrides of DEFAULT_FIELD_PRECEDENCE (shared/enrichment.ts); fields without a row use the default
+export const fieldPrecedence = pgTable("field_precedence", {
+  field: text("field").$type<EnrichedField>().primaryKey(),
+  sources: text("sources").notNull(), // JSON EnrichmentSource[], highest precedence first
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type FieldPrecedenceRow = typeof fieldPrecedence.$inferSelect;
+
+export const SYNC_PLAN_STATUSES = ["pending", "applying", "applied", "failed"] as const;
+export type SyncPlanStatus = typeof SYNC_PLAN_STATUSES[number];
+
+export const syncPlans = pgTable("sync_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: text("status").$type<SyncPlanStatus>().notNull().default("pending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(), // a plan this old no longer reflects the sheet
+  appliedAt: timestamp("applied_at"),
+  runId: varchar("run_id"), // sync_runs row that applied the plan
+  added: integer("added").notNull().default(0), // rows that would create a shipment
+  updated: integer("updated").notNull().default(0), // shipments with changed sheet fields
+  unchanged: integer("unchanged").notNull().default(0), // shipments whose sheet fields match
+  archived: integer("archived").notNull().default(0), // shipments that would move to delivered history
+  plan: text("plan").notNull(), // JSON string of the full plan, see SheetSyncPlan in server/services/shipmentSync.ts
+  errorMessage: text("error_message"),
+}, (table) => ({
+  createdAtIdx: index("sync_plans_created_at_idx").on(table.createdAt),
+}));
+
+export type SyncPlan = typeof syncPlans.$inferSelect;
+export type SyncPlanCounts = Pick<SyncPlan, "added" | "updated" | "unchanged" | "archived">;
+
+export const importProfiles = pgTable("import_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  columns: text("columns").notNull(), // JSON ImportColumns: field -> lowercase headers in priority order
+  weightUnit: text("weight_unit"), // appended to bare numeric weights, e.g. "LB" for "Pkg Wt (Lbs)" columns
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  nameIdx: uniqueIndex("import_profiles_name_idx").on(table.name),
+}));
+
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type ImportProfileInput = Pick<ImportProfile, "name" | "weightUnit"> & { columns: ImportColumns };
+
+export const IMPORT_ROW_OUTCOMES = ["imported", "failed", "rejected"] as const;
+// imported = saved; failed = valid but saving it errored (can be re-run); rejected = failed validation
+export type ImportRowOutcome = typeof IMPORT_ROW_OUTCOMES[number];
+
+export const importJobs = pgTable("import_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull(), // "upload", "bulk" (/api/shipments/bulk), "bulk_import" (/api/shipments/bulk-import), "edi" (856 ASN upload), "hot_folder" or "email"
+  fileName: text("file_name"), // uploaded file name, null for JSON imports
+  importedBy: text("imported_by"), // name given with the import - there are no user accounts
+  profileId: varchar("profile_id"), // import_profiles row used for an upload
+  headers: text("headers"), // JSON string array of the file's header row, for rejected-row CSV downloads
+  status: text("status").notNull().default("running"), // "running" | "completed" | "failed"
+  totalRows: integer("total_rows").notNull().default(0),
+  imported: integer("imported").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  rejected: integer("rejected").notNull().default(0),
+  errorMessage: text("error_message"), // why the whole import failed, if it did
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  createdAtIdx: index("import_jobs_created_at_idx").on(table.createdAt),
+}));
+
+export type ImportJob = typeof importJobs.$inferSelect;
+export type ImportJobCounts = Pick<ImportJob, "totalRows" | "imported" | "failed" | "rejected">;
+
+export const importJobRows = pgTable("import_job_rows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull(), // import_jobs.id
+  rowNumber: integer("row_number").notNull(), // file row (header = 1), 1-based position in a JSON import, or HL number in an ASN
+  trackingNumber: text("tracking_number"),
+  outcome: text("outcome").$type<ImportRowOutcome>().notNull(),
+  error: text("error"),
+  values: text("values"), // JSON string of the row as read (file columns by normalized header, or the posted object)
+  shipment: text("shipment"), // JSON string of the shipment saved from this row, used to re-run failed rows
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  jobRowIdx: index("import_job_rows_job_id_row_number_idx").on(table.jobId, table.rowNumber),
+}));
+
+export type ImportJobRow = typeof importJobRows.$inferSelect;
+export type InsertImportJobRow = Omit<typeof importJobRows.$inferInsert, "id" | "jobId" | "updatedAt">;
@@ -0,0 +1,56 @@
+/**
+ * Shipment fields that can be read from a Google Sheet. Each sheet source maps one or more
+ * header names to a field; the first header with a value in the row wins.
+ */
+export const SHEET_FIELDS = [
+  "trackingNumber",
+  "carrier",
+  "masterTrackingNumber",
+  "scheduledDelivery",
+  "shipperName",
+  "shipperCompany",
+  "recipientName",
+  "recipientCompany",
+  "packageCount",
+  "packageType",
+  "packageWeight",
+  "totalWeight",
+  "direction",
+  "serviceType",
+] as const;
+
+export type SheetField = typeof SHEET_FIELDS[number];
+
+export const SHEET_FIELD_LABELS: Record<SheetField, string> = {
+  trackingNumber: "Tracking Number",
+  carrier: "Carrier",
+  masterTrackingNumber: "Master Tracking Number",
+  scheduledDelivery: "Scheduled Delivery",
+  shipperName: "Shipper Name",
+  shipperCompany: "Shipper Company",
+  recipientName: "Recipient Name",
+  recipientCompany: "Recipient Company",
+  packageCount: "Package Count",
+  packageType: "Package Type",
+  packageWeight: "Package Weight",
+  totalWeight: "Total Weight",
+  direction: "Direction",
+  serviceType: "Service Type",
+};
+
+/**
+ * output: the list of active shipments - rows missing from it are archived.
+ * details: looked up by tracking/master tracking number for extra fields (e.g. ALL INBOUND).
+ */
+export const SHEET_SOURCE_ROLES = ["output", "details"] as const;
+export type SheetSourceRole = typeof SHEET_SOURCE_ROLES[number];
+
+export const SHEET_SOURCE_ROLE_LABELS: Record<SheetSourceRole, string> = {
+  output: "Active shipments",
+  details: "Shipment details lookup",
+};
+
+// Sheet headers are matched case-insensitively, ignoring surrounding spaces
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
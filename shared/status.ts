@@ -0,0 +1,85 @@
+/**
+ * Canonical shipment statuses. Every status stored in the database is one of these;
+ * carrier codes and free-text statuses from sheets/imports go through normalizeStatus.
+ */
+export const SHIPMENT_STATUSES = [
+  "pending",
+  "label_created",
+  "picked_up",
+  "in_transit",
+  "out_for_delivery",
+  "delayed",
+  "on_hold",
+  "exception",
+  "delivered",
+  "returned",
+  "cancelled",
+] as const;
+
+export type ShipmentStatus = typeof SHIPMENT_STATUSES[number];
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: "Pending",
+  label_created: "Label Created",
+  picked_up: "Picked Up",
+  in_transit: "In Transit",
+  out_for_delivery: "Out for Delivery",
+  delayed: "Delayed",
+  on_hold: "Held for Pickup",
+  exception: "Exception",
+  delivered: "Delivered",
+  returned: "Returned to Shipper",
+  cancelled: "Cancelled",
+};
+
+// Statuses that will not change again - no point polling the carrier for these
+export const TERMINAL_STATUSES: readonly ShipmentStatus[] = ["delivered", "returned", "cancelled"];
+
+// Free-text statuses we've seen from FedEx descriptions, sheets and older versions of this app
+const STATUS_ALIASES: Record<string, ShipmentStatus> = {
+  "label created": "label_created",
+  "shipment information sent to fedex": "label_created",
+  "we have your package": "picked_up",
+  "picked up": "picked_up",
+  "on the way": "in_transit",
+  "in transit": "in_transit",
+  "delivery updated": "in_transit",
+  "out for delivery": "out_for_delivery",
+  "running late": "delayed",
+  "delay": "delayed",
+  "ready for pickup": "on_hold",
+  "hold at location": "on_hold",
+  "on hold": "on_hold",
+  "delivery exception": "exception",
+  "shipment exception": "exception",
+  "return to shipper": "returned",
+  "returned to shipper": "returned",
+  "canceled": "cancelled",
+};
+
+export function isShipmentStatus(value: unknown): value is ShipmentStatus {
+  return typeof value === "string" && (SHIPMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function isTerminalStatus(status: string | null | undefined): boolean {
+  return TERMINAL_STATUSES.includes(normalizeStatus(status));
+}
+
+/**
+ * Map any status string (canonical, legacy label like "On the way", or sheet text) to a canonical status.
+ * Unrecognised values become "pending"; the migration keeps the original text in statusDescription.
+ */
+export function normalizeStatus(value: string | null | undefined): ShipmentStatus {
+  if (!value) return "pending";
+
+  // "In Transit", "in-transit" and "in_transit" are all the same status
+  const key = value.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+  const canonical = key.replace(/ /g, "_");
+  if (isShipmentStatus(canonical)) return canonical;
+
+  return STATUS_ALIASES[key] ?? "pending";
+}
+
+export function getStatusLabel(status: string | null | undefined): string {
+  return SHIPMENT_STATUS_LABELS[normalizeStatus(status)];
+}